@@ -10,6 +10,8 @@ import { Generate } from './pages/Generate'
 import { History } from './pages/History'
 import { Settings } from './pages/Settings'
 import { Manage } from './pages/Manage'
+import { Personas } from './pages/Personas'
+import { PromptLibrary } from './pages/PromptLibrary'
 
 function App() {
   return (
@@ -25,6 +27,11 @@ function App() {
                 <Profile />
               </ProtectedRoute>
             } />
+            <Route path="personas" element={
+              <ProtectedRoute>
+                <Personas />
+              </ProtectedRoute>
+            } />
             <Route path="generate" element={
               <ProtectedRoute>
                 <Generate />
@@ -40,6 +47,11 @@ function App() {
                 <Manage />
               </ProtectedRoute>
             } />
+            <Route path="prompts" element={
+              <ProtectedRoute>
+                <PromptLibrary />
+              </ProtectedRoute>
+            } />
             <Route path="settings" element={
               <ProtectedRoute>
                 <Settings />
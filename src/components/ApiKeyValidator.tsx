@@ -1,14 +1,21 @@
 import React, { useState } from 'react'
 import { CheckCircle, XCircle, Loader, AlertCircle } from 'lucide-react'
-import { validateOpenAIKey, validateAnthropicKey } from '../services/apiKeyValidator'
+import { validateProviderSettings } from '../services/apiKeyValidator'
+import { AI_PROVIDERS, AIProviderId, AIProviderSettings } from '../services/aiProviders'
+
+// Providers configured by more than a key say which fields are missing
+const REQUIRED_FIELDS_MESSAGES: Partial<Record<AIProviderId, string>> = {
+  azure_openai: 'Endpoint, deployment and API key are required',
+  openai_compatible: 'Base URL and model are required'
+}
 
 interface ApiKeyValidatorProps {
-  apiKey: string
-  provider: 'openai' | 'anthropic'
-  onValidationResult?: (isValid: boolean, cost?: number) => void
+  provider: AIProviderId
+  settings: Partial<AIProviderSettings>
+  onValidationResult?: (isValid: boolean, cost?: number, availableModels?: string[]) => void
 }
 
-export function ApiKeyValidator({ apiKey, provider, onValidationResult }: ApiKeyValidatorProps) {
+export function ApiKeyValidator({ provider, settings, onValidationResult }: ApiKeyValidatorProps) {
   const [validating, setValidating] = useState(false)
   const [validationResult, setValidationResult] = useState<{
     isValid: boolean
@@ -17,11 +24,14 @@ export function ApiKeyValidator({ apiKey, provider, onValidationResult }: ApiKey
     estimatedCost?: number
   } | null>(null)
 
+  const isEndpoint = provider === 'azure_openai' || provider === 'openai_compatible'
+  const canValidate = !!AI_PROVIDERS.find(entry => entry.id === provider)?.isConfigured(settings)
+
   const validateKey = async () => {
-    if (!apiKey.trim()) {
+    if (!canValidate) {
       setValidationResult({
         isValid: false,
-        error: 'API key is required'
+        error: REQUIRED_FIELDS_MESSAGES[provider] || 'API key is required'
       })
       onValidationResult?.(false)
       return
@@ -31,12 +41,10 @@ export function ApiKeyValidator({ apiKey, provider, onValidationResult }: ApiKey
     setValidationResult(null)
 
     try {
-      const result = provider === 'openai' 
-        ? await validateOpenAIKey(apiKey)
-        : await validateAnthropicKey(apiKey)
+      const result = await validateProviderSettings(provider, settings)
       
       setValidationResult(result)
-      onValidationResult?.(result.isValid, result.estimatedCost)
+      onValidationResult?.(result.isValid, result.estimatedCost, result.availableModels)
     } catch (error) {
       const errorResult = {
         isValid: false,
@@ -67,7 +75,7 @@ export function ApiKeyValidator({ apiKey, provider, onValidationResult }: ApiKey
 
   const getStatusMessage = () => {
     if (validating) {
-      return 'Validating API key...'
+      return isEndpoint ? 'Testing endpoint...' : 'Validating API key...'
     }
     
     if (validationResult?.isValid) {
@@ -78,7 +86,7 @@ export function ApiKeyValidator({ apiKey, provider, onValidationResult }: ApiKey
       return `✗ ${validationResult.error}`
     }
     
-    return 'Click to validate API key'
+    return isEndpoint ? 'Click to test the endpoint' : 'Click to validate API key'
   }
 
   const getStatusColor = () => {
@@ -92,7 +100,7 @@ export function ApiKeyValidator({ apiKey, provider, onValidationResult }: ApiKey
     <div className="mt-2">
       <button
         onClick={validateKey}
-        disabled={validating || !apiKey.trim()}
+        disabled={validating || !canValidate}
         className="flex items-center space-x-2 text-sm px-3 py-1 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
       >
         {getStatusIcon()}
@@ -1,11 +1,12 @@
 import React, { useEffect, useState } from 'react'
 import { DollarSign, Info } from 'lucide-react'
 import { calculateEstimatedCost } from '../services/apiKeyValidator'
+import { AIProviderId, aiProviderName, typicalResumeCost } from '../services/aiProviders'
 
 interface CostEstimatorProps {
   jobDescription: string
   workExperienceCount: number
-  aiProvider: 'openai' | 'anthropic'
+  aiProvider: AIProviderId
   isVisible: boolean
 }
 
@@ -75,7 +76,7 @@ export function CostEstimator({
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <span className="font-medium">AI Provider:</span>
-                <span className="ml-2 capitalize">{aiProvider}</span>
+                <span className="ml-2">{aiProviderName(aiProvider)}</span>
               </div>
               <div>
                 <span className="font-medium">Job Description:</span>
@@ -96,7 +97,7 @@ export function CostEstimator({
             <div className="mt-3 p-2 bg-blue-100 rounded text-xs">
               <p className="font-medium mb-1">Cost Breakdown:</p>
               <ul className="space-y-1">
-                <li>• Base cost: ${aiProvider === 'openai' ? '0.15' : '0.12'} (per generation)</li>
+                <li>• Base cost: ${typicalResumeCost(aiProvider).toFixed(3)} (per generation)</li>
                 <li>• Length factor: {(jobDescription.length / 1000).toFixed(1)}x</li>
                 <li>• Complexity factor: {(workExperienceCount / 5).toFixed(1)}x</li>
               </ul>
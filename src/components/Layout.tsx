@@ -1,7 +1,7 @@
 import React from 'react'
 import { Outlet, Link, useNavigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { FileText, Settings, LogOut, User, History, Zap, Users } from 'lucide-react'
+import { FileText, Settings, LogOut, User, History, Zap, Users, Layers, ScrollText } from 'lucide-react'
 
 export function Layout() {
   const { user, signOut } = useAuth()
@@ -36,6 +36,13 @@ export function Layout() {
                   <User className="h-4 w-4" />
                   <span>Profile</span>
                 </Link>
+                <Link
+                  to="/personas"
+                  className="flex items-center space-x-1 text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                >
+                  <Layers className="h-4 w-4" />
+                  <span>Personas</span>
+                </Link>
                 <Link
                   to="/generate"
                   className="flex items-center space-x-1 text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
@@ -50,6 +57,13 @@ export function Layout() {
                   <History className="h-4 w-4" />
                   <span>History</span>
                 </Link>
+                <Link
+                  to="/prompts"
+                  className="flex items-center space-x-1 text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                >
+                  <ScrollText className="h-4 w-4" />
+                  <span>Prompts</span>
+                </Link>
                 {isAdmin && (
                   <Link
                     to="/manage"
@@ -0,0 +1,159 @@
+import { Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react'
+
+export interface SectionField<T> {
+  key: Extract<keyof T, string>
+  label: string
+  type?: 'text' | 'url' | 'date' | 'textarea' | 'select' | 'tags'
+  placeholder?: string
+  options?: Array<{ value: string; label: string }>
+  fullWidth?: boolean
+  // Backed by a NOT NULL column; the row cannot be saved while it is blank
+  required?: boolean
+}
+
+interface ProfileSectionEditorProps<T extends { id?: string }> {
+  title: string
+  description?: string
+  itemLabel: string
+  items: T[]
+  fields: SectionField<T>[]
+  onAdd: () => void
+  onChange: (index: number, changes: Partial<T>) => void
+  onRemove: (index: number) => void
+  // When set, rows get up/down controls and their order is meaningful
+  onMove?: (index: number, direction: -1 | 1) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500'
+
+// Renders a list of simple profile rows (certifications, projects, ...) as
+// cards with one input per field, mirroring the work and education editors
+export function ProfileSectionEditor<T extends { id?: string }>({
+  title,
+  description,
+  itemLabel,
+  items,
+  fields,
+  onAdd,
+  onChange,
+  onRemove,
+  onMove
+}: ProfileSectionEditorProps<T>) {
+  const renderField = (item: T, index: number, field: SectionField<T>) => {
+    const value = item[field.key] as unknown
+    const update = (newValue: string | string[]) => onChange(index, { [field.key]: newValue } as Partial<T>)
+
+    if (field.type === 'textarea') {
+      return (
+        <textarea
+          value={(value as string) || ''}
+          onChange={(e) => update(e.target.value)}
+          rows={3}
+          className={`${inputClassName} resize-none`}
+          placeholder={field.placeholder}
+        />
+      )
+    }
+
+    if (field.type === 'select') {
+      return (
+        <select
+          value={(value as string) || ''}
+          onChange={(e) => update(e.target.value)}
+          className={inputClassName}
+        >
+          {field.options?.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )
+    }
+
+    if (field.type === 'tags') {
+      return (
+        <input
+          type="text"
+          value={((value as string[]) || []).join(', ')}
+          onChange={(e) => update(e.target.value.split(',').map(tag => tag.trimStart()))}
+          className={inputClassName}
+          placeholder={field.placeholder}
+        />
+      )
+    }
+
+    return (
+      <input
+        type={field.type || 'text'}
+        value={(value as string) || ''}
+        onChange={(e) => update(e.target.value)}
+        className={inputClassName}
+        placeholder={field.placeholder}
+      />
+    )
+  }
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+          {description && <p className="text-sm text-gray-500">{description}</p>}
+        </div>
+        <button
+          onClick={onAdd}
+          className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add {itemLabel}</span>
+        </button>
+      </div>
+
+      {items.map((item, index) => (
+        <div key={index} className="border border-gray-200 rounded-md p-4 mb-4">
+          <div className="flex justify-between items-start mb-4">
+            <h3 className="text-lg font-medium text-gray-900">{itemLabel} {index + 1}</h3>
+            <div className="flex items-center space-x-2">
+              {onMove && (
+                <>
+                  <button
+                    onClick={() => onMove(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-500 hover:text-gray-700 disabled:opacity-30 transition-colors"
+                    title="Move up"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onMove(index, 1)}
+                    disabled={index === items.length - 1}
+                    className="text-gray-500 hover:text-gray-700 disabled:opacity-30 transition-colors"
+                    title="Move down"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => onRemove(index)}
+                className="text-red-600 hover:text-red-800 transition-colors"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {fields.map(field => (
+              <div key={field.key} className={field.fullWidth || field.type === 'textarea' ? 'md:col-span-2' : ''}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {field.label}{field.required && ' *'}
+                </label>
+                {renderField(item, index, field)}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </section>
+  )
+}
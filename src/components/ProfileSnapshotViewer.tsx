@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react'
+import { X, AlertCircle, RefreshCw } from 'lucide-react'
+import {
+  ProfileSnapshotData,
+  ProfileDiff,
+  loadProfileSnapshot,
+  loadCurrentProfileData,
+  diffProfileSnapshots
+} from '../services/profileSnapshot'
+
+interface ProfileSnapshotViewerProps {
+  snapshotId: string
+  userId: string
+  generatedAt: string
+  onClose: () => void
+}
+
+type ViewMode = 'snapshot' | 'changes'
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }) : 'Present'
+
+// Read-only view of the profile data a resume was generated from, with a diff
+// against the profile as it is today
+export function ProfileSnapshotViewer({ snapshotId, userId, generatedAt, onClose }: ProfileSnapshotViewerProps) {
+  const [snapshot, setSnapshot] = useState<ProfileSnapshotData | null>(null)
+  const [diff, setDiff] = useState<ProfileDiff | null>(null)
+  const [viewMode, setViewMode] = useState<ViewMode>('snapshot')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true)
+      setError('')
+      try {
+        const snapshotData = await loadProfileSnapshot(snapshotId)
+        const current = await loadCurrentProfileData(userId, snapshotData.persona?.id || null)
+        setSnapshot(snapshotData)
+        setDiff(diffProfileSnapshots(snapshotData, current))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load profile snapshot')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [snapshotId, userId])
+
+  const changeCount = diff
+    ? diff.profile.length + diff.sections.reduce((total, section) =>
+        total + section.added.length + section.removed.length + section.changed.length, 0)
+    : 0
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Profile Snapshot</h2>
+            <p className="text-sm text-gray-500">
+              The profile data used for the resume generated on {new Date(generatedAt).toLocaleString()}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+              <span className="text-sm text-red-600">{error}</span>
+            </div>
+          ) : snapshot && diff && (
+            <>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setViewMode('snapshot')}
+                  className={`px-3 py-2 text-sm rounded-md ${viewMode === 'snapshot' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  Snapshot
+                </button>
+                <button
+                  onClick={() => setViewMode('changes')}
+                  className={`px-3 py-2 text-sm rounded-md ${viewMode === 'changes' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  Changes Since ({changeCount})
+                </button>
+              </div>
+
+              {viewMode === 'snapshot' ? (
+                <div className="space-y-6">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">{snapshot.profile.name}</h3>
+                    <p className="text-sm text-gray-600">
+                      {[snapshot.profile.email, snapshot.profile.phone, snapshot.profile.location].filter(Boolean).join(' • ')}
+                    </p>
+                    {snapshot.persona && (
+                      <p className="text-sm text-gray-500 mt-1">Persona: {snapshot.persona.name}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Work Experience</h4>
+                    <div className="space-y-3">
+                      {snapshot.workExperiences.map(work => (
+                        <div key={work.id} className="border border-gray-200 rounded p-3">
+                          <div className="flex justify-between">
+                            <span className="text-sm font-medium text-gray-900">{work.position} at {work.company}</span>
+                            <span className="text-xs text-gray-500">
+                              {formatDate(work.start_date)} - {work.is_current ? 'Present' : formatDate(work.end_date)}
+                            </span>
+                          </div>
+                          {(work.achievements || []).length > 0 && (
+                            <ul className="list-disc list-inside mt-2 space-y-1">
+                              {work.achievements.map(achievement => (
+                                <li key={achievement.id} className="text-sm text-gray-700">{achievement.description}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {snapshot.educations.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">Education</h4>
+                      <ul className="space-y-1">
+                        {snapshot.educations.map(education => (
+                          <li key={education.id} className="text-sm text-gray-700">
+                            {education.degree}, {education.university} ({formatDate(education.start_date)} - {formatDate(education.end_date)})
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {snapshot.skills.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">Skills</h4>
+                      <div className="flex flex-wrap gap-2">
+                        {snapshot.skills.map(skill => (
+                          <span key={skill.id} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
+                            {skill.name}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {[
+                    { title: 'Projects', items: snapshot.projects.map(project => project.name) },
+                    { title: 'Certifications', items: snapshot.certifications.map(cert => cert.name) },
+                    { title: 'Publications', items: snapshot.publications.map(publication => publication.title) },
+                    { title: 'Volunteer Experience', items: snapshot.volunteering.map(volunteer => `${volunteer.role} at ${volunteer.organization}`) },
+                    { title: 'Languages', items: snapshot.languages.map(language => language.name) },
+                    { title: 'Online Presence', items: snapshot.links.map(link => link.label) }
+                  ].filter(section => section.items.length > 0).map(section => (
+                    <div key={section.title}>
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">{section.title}</h4>
+                      <p className="text-sm text-gray-700">{section.items.join(', ')}</p>
+                    </div>
+                  ))}
+                </div>
+              ) : changeCount === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">
+                  Your profile has not changed since this resume was generated.
+                </p>
+              ) : (
+                <div className="space-y-6">
+                  {diff.profile.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">Personal Information</h4>
+                      <ul className="space-y-1">
+                        {diff.profile.map(change => (
+                          <li key={change.field} className="text-sm text-gray-700">
+                            <span className="font-medium">{change.field}:</span>{' '}
+                            <span className="line-through text-red-600">{change.before}</span>{' → '}
+                            <span className="text-green-700">{change.after}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {diff.sections.map(section => (
+                    <div key={section.title}>
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">{section.title}</h4>
+                      <ul className="space-y-2">
+                        {section.added.map(label => (
+                          <li key={`added-${label}`} className="text-sm text-green-700">+ {label}</li>
+                        ))}
+                        {section.removed.map(label => (
+                          <li key={`removed-${label}`} className="text-sm text-red-600">- {label}</li>
+                        ))}
+                        {section.changed.map(entry => (
+                          <li key={`changed-${entry.label}`} className="text-sm text-gray-700">
+                            <span className="text-yellow-700">~ {entry.label}</span>
+                            <ul className="ml-4 mt-1 space-y-1">
+                              {entry.changes.map((change, index) => (
+                                <li key={index} className="text-xs text-gray-600">
+                                  <span className="font-medium">{change.field}:</span>{' '}
+                                  <span className="line-through text-red-600">{change.before}</span>{' → '}
+                                  <span className="text-green-700">{change.after}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { AlertCircle, AlertTriangle, CheckCircle, ChevronDown, ChevronRight } from 'lucide-react'
+import { ValidationIssue, ValidationReport, ValidationSection } from '../services/profileValidator'
+
+interface ProfileValidationReportProps {
+  report: ValidationReport
+  gapThresholdMonths: number
+  onGapThresholdChange: (months: number) => void
+}
+
+const GAP_THRESHOLD_OPTIONS = [3, 6, 12, 24]
+
+// Completeness score and the full issue list shown at the top of the Profile page
+export function ProfileValidationReport({ report, gapThresholdMonths, onGapThresholdChange }: ProfileValidationReportProps) {
+  const [expanded, setExpanded] = useState(false)
+  const errorCount = report.blockingIssues.length
+  const warningCount = report.issues.length - errorCount
+  const scoreColor = report.score >= 80 ? 'bg-green-500' : report.score >= 50 ? 'bg-yellow-500' : 'bg-red-500'
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4">
+      <div className="flex justify-between items-center">
+        <div className="flex-1 mr-4">
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-gray-900">Profile completeness</span>
+            <span className="text-gray-700">{report.score}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div className={`${scoreColor} h-2 rounded-full`} style={{ width: `${report.score}%` }} />
+          </div>
+        </div>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <span>
+            {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+          </span>
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Checklist</h4>
+            <ul className="space-y-1">
+              {report.completeness.map(item => (
+                <li key={item.label} className="flex items-center text-sm text-gray-700">
+                  {item.complete
+                    ? <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+                    : <AlertCircle className="h-4 w-4 text-gray-400 mr-2" />}
+                  {item.label}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="text-sm font-semibold text-gray-900">Issues</h4>
+              <label className="text-xs text-gray-600">
+                Report gaps over{' '}
+                <select
+                  value={gapThresholdMonths}
+                  onChange={(e) => onGapThresholdChange(Number(e.target.value))}
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                >
+                  {GAP_THRESHOLD_OPTIONS.map(months => (
+                    <option key={months} value={months}>{months} months</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {report.issues.length === 0 ? (
+              <p className="text-sm text-gray-500">No issues found.</p>
+            ) : (
+              <ul className="space-y-1">
+                {report.issues.map((issue, index) => (
+                  <li key={index} className={`flex items-start text-sm ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}>
+                    {issue.severity === 'error'
+                      ? <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                      : <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface FieldIssuesProps {
+  issues: ValidationIssue[]
+  section: ValidationSection
+  index?: number
+  field: string
+}
+
+// Inline messages under a single form field
+export function FieldIssues({ issues, section, index, field }: FieldIssuesProps) {
+  const matching = issues.filter(issue => issue.section === section && issue.index === index && issue.field === field)
+  if (matching.length === 0) return null
+
+  return (
+    <>
+      {matching.map((issue, i) => (
+        <p key={i} className={`text-xs mt-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}>
+          {issue.message}
+        </p>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,393 @@
+import { useState } from 'react'
+import { Upload, Trash2, X, RefreshCw, AlertCircle } from 'lucide-react'
+import {
+  ParsedResume,
+  ParsedWorkExperience,
+  ParsedEducation,
+  SUPPORTED_RESUME_EXTENSIONS,
+  extractResumeText,
+  parseResumeText,
+  parseResumeWithAI
+} from '../services/resumeImporter'
+import { parseLinkedInExport } from '../services/linkedinImporter'
+import { jsonResumeToParsedResume } from '../services/jsonResume'
+
+interface ResumeImportProps {
+  onApply: (resume: ParsedResume) => void
+  onClose: () => void
+}
+
+type ParserMode = 'standard' | 'ai'
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500'
+
+// Upload, parse and review flow for bootstrapping the profile from an existing
+// resume. Nothing is saved here; the reviewed result is handed to onApply.
+export function ResumeImport({ onApply, onClose }: ResumeImportProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [parserMode, setParserMode] = useState<ParserMode>('standard')
+  const [parsing, setParsing] = useState(false)
+  const [error, setError] = useState('')
+  const [review, setReview] = useState<ParsedResume | null>(null)
+
+  const isLinkedInExport = !!file && file.name.toLowerCase().endsWith('.zip')
+  const isJsonResume = !!file && file.name.toLowerCase().endsWith('.json')
+
+  const handleParse = async () => {
+    if (!file) return
+
+    setParsing(true)
+    setError('')
+    try {
+      if (isLinkedInExport) {
+        setReview(await parseLinkedInExport(await file.arrayBuffer()))
+        return
+      }
+
+      if (isJsonResume) {
+        setReview(jsonResumeToParsedResume(JSON.parse(await file.text())))
+        return
+      }
+
+      const text = await extractResumeText(file)
+      if (!text.trim()) {
+        throw new Error('No text could be read from this file. Scanned PDFs are not supported.')
+      }
+
+      const parsed = parserMode === 'ai' ? await parseResumeWithAI(text) : parseResumeText(text)
+      setReview(parsed)
+    } catch (error) {
+      console.error('Error importing resume:', error)
+      setError(error instanceof Error ? error.message : 'Failed to read resume')
+    } finally {
+      setParsing(false)
+    }
+  }
+
+  const updateWork = (index: number, changes: Partial<ParsedWorkExperience>) => {
+    if (!review) return
+    setReview({
+      ...review,
+      workExperiences: review.workExperiences.map((work, i) => i === index ? { ...work, ...changes } : work)
+    })
+  }
+
+  const updateEducation = (index: number, changes: Partial<ParsedEducation>) => {
+    if (!review) return
+    setReview({
+      ...review,
+      educations: review.educations.map((edu, i) => i === index ? { ...edu, ...changes } : edu)
+    })
+  }
+
+  const extraSectionCounts: Array<[string, number]> = [
+    ['project', review?.projects?.length || 0],
+    ['publication', review?.publications?.length || 0],
+    ['language', review?.languages?.length || 0],
+    ['volunteer role', review?.volunteerExperiences?.length || 0],
+    ['profile link', review?.links?.length || 0]
+  ]
+  const extraSectionSummary = extraSectionCounts
+    .filter(([, count]) => count > 0)
+    .map(([label, count]) => `${count} ${label}${count > 1 ? 's' : ''}`)
+
+  const handleApply = () => {
+    if (!review) return
+    onApply({
+      ...review,
+      workExperiences: review.workExperiences.map(work => ({
+        ...work,
+        achievements: work.achievements.map(achievement => achievement.trim()).filter(Boolean)
+      }))
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {review ? 'Review Imported Resume' : 'Import Resume'}
+            </h2>
+            <p className="text-sm text-gray-500">
+              {review
+                ? 'Correct anything the parser got wrong. Nothing is saved until you save your profile.'
+                : 'Fill in your profile from an existing PDF, DOCX or plain-text resume, a LinkedIn data export or a JSON Resume file.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+              <span className="text-sm text-red-600">{error}</span>
+            </div>
+          )}
+
+          {!review ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Resume File
+                </label>
+                <input
+                  type="file"
+                  accept={[...SUPPORTED_RESUME_EXTENSIONS, '.zip', '.json'].join(',')}
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="block w-full text-sm text-gray-700"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  For LinkedIn, upload the ZIP from Settings &gt; Data privacy &gt; Get a copy of your data. It is read in your browser.
+                </p>
+              </div>
+
+              {!isLinkedInExport && !isJsonResume && (
+                <div className="space-y-2">
+                  <label className="flex items-start">
+                    <input
+                      type="radio"
+                      name="parser_mode"
+                      checked={parserMode === 'standard'}
+                      onChange={() => setParserMode('standard')}
+                      className="h-4 w-4 mt-0.5 text-blue-600 focus:ring-blue-500 border-gray-300"
+                    />
+                    <span className="ml-3 text-sm text-gray-700">
+                      Standard parser
+                      <span className="block text-xs text-gray-500">Runs in your browser. Works best with conventional section headings.</span>
+                    </span>
+                  </label>
+                  <label className="flex items-start">
+                    <input
+                      type="radio"
+                      name="parser_mode"
+                      checked={parserMode === 'ai'}
+                      onChange={() => setParserMode('ai')}
+                      className="h-4 w-4 mt-0.5 text-blue-600 focus:ring-blue-500 border-gray-300"
+                    />
+                    <span className="ml-3 text-sm text-gray-700">
+                      AI-assisted parser
+                      <span className="block text-xs text-gray-500">Handles unusual layouts. Sends the resume text to your configured AI provider.</span>
+                    </span>
+                  </label>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleParse}
+                  disabled={!file || parsing}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {parsing ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  <span>{parsing ? 'Reading Resume...' : 'Parse Resume'}</span>
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <section>
+                <h3 className="text-lg font-medium text-gray-900 mb-1">Personal Information</h3>
+                <p className="text-xs text-gray-500 mb-3">Clear a field to keep your current value.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {(['name', 'email', 'phone', 'location'] as const).map(key => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">{key}</label>
+                      <input
+                        type="text"
+                        value={review[key]}
+                        onChange={(e) => setReview({ ...review, [key]: e.target.value })}
+                        className={inputClassName}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-lg font-medium text-gray-900 mb-3">
+                  Work Experience ({review.workExperiences.length})
+                </h3>
+                {review.workExperiences.length === 0 && (
+                  <p className="text-sm text-gray-500">No work experience was recognised.</p>
+                )}
+                {review.workExperiences.map((work, index) => (
+                  <div key={index} className="border border-gray-200 rounded-md p-4 mb-4">
+                    <div className="flex justify-end mb-2">
+                      <button
+                        onClick={() => setReview({ ...review, workExperiences: review.workExperiences.filter((_, i) => i !== index) })}
+                        className="text-red-600 hover:text-red-800 transition-colors"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <input
+                        type="text"
+                        value={work.company}
+                        onChange={(e) => updateWork(index, { company: e.target.value })}
+                        className={inputClassName}
+                        placeholder="Company"
+                      />
+                      <input
+                        type="text"
+                        value={work.position}
+                        onChange={(e) => updateWork(index, { position: e.target.value })}
+                        className={inputClassName}
+                        placeholder="Position"
+                      />
+                      <input
+                        type="date"
+                        value={work.start_date}
+                        onChange={(e) => updateWork(index, { start_date: e.target.value })}
+                        className={inputClassName}
+                      />
+                      <div className="flex items-center space-x-3">
+                        <input
+                          type="date"
+                          value={work.end_date}
+                          disabled={work.is_current}
+                          onChange={(e) => updateWork(index, { end_date: e.target.value })}
+                          className={`${inputClassName} disabled:bg-gray-100`}
+                        />
+                        <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            checked={work.is_current}
+                            onChange={(e) => updateWork(index, { is_current: e.target.checked, end_date: e.target.checked ? '' : work.end_date })}
+                            className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                          />
+                          Current
+                        </label>
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Achievements (one per line, added to the achievement bank)
+                        </label>
+                        <textarea
+                          value={work.achievements.join('\n')}
+                          onChange={(e) => updateWork(index, { achievements: e.target.value.split('\n') })}
+                          rows={4}
+                          className={`${inputClassName} resize-none`}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </section>
+
+              <section>
+                <h3 className="text-lg font-medium text-gray-900 mb-3">
+                  Education ({review.educations.length})
+                </h3>
+                {review.educations.map((edu, index) => (
+                  <div key={index} className="grid grid-cols-1 md:grid-cols-9 gap-3 mb-3 items-center">
+                    <input
+                      type="text"
+                      value={edu.university}
+                      onChange={(e) => updateEducation(index, { university: e.target.value })}
+                      className={`${inputClassName} md:col-span-3`}
+                      placeholder="University"
+                    />
+                    <input
+                      type="text"
+                      value={edu.degree}
+                      onChange={(e) => updateEducation(index, { degree: e.target.value })}
+                      className={`${inputClassName} md:col-span-2`}
+                      placeholder="Degree"
+                    />
+                    <input
+                      type="date"
+                      value={edu.start_date}
+                      onChange={(e) => updateEducation(index, { start_date: e.target.value })}
+                      className={`${inputClassName} md:col-span-2`}
+                    />
+                    <input
+                      type="date"
+                      value={edu.end_date}
+                      onChange={(e) => updateEducation(index, { end_date: e.target.value })}
+                      className={`${inputClassName} md:col-span-1`}
+                    />
+                    <button
+                      onClick={() => setReview({ ...review, educations: review.educations.filter((_, i) => i !== index) })}
+                      className="justify-self-end text-red-600 hover:text-red-800 transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </section>
+
+              <section>
+                <h3 className="text-lg font-medium text-gray-900 mb-3">
+                  Skills ({review.skills.length})
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {review.skills.map((skill, index) => (
+                    <span key={index} className="inline-flex items-center bg-blue-50 text-blue-800 text-sm px-2 py-1 rounded">
+                      {skill.name}
+                      {skill.category && <span className="ml-1 text-xs text-blue-600">({skill.category})</span>}
+                      <button
+                        onClick={() => setReview({ ...review, skills: review.skills.filter((_, i) => i !== index) })}
+                        className="ml-1 text-blue-400 hover:text-blue-700"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </section>
+
+              {review.certifications && review.certifications.length > 0 && (
+                <section>
+                  <h3 className="text-lg font-medium text-gray-900 mb-3">
+                    Certifications ({review.certifications.length})
+                  </h3>
+                  {review.certifications.map((cert, index) => (
+                    <div key={index} className="flex justify-between items-center text-sm text-gray-700 mb-2">
+                      <span>
+                        <span className="font-medium">{cert.name}</span>
+                        {cert.issuer && <span className="text-gray-500"> - {cert.issuer}</span>}
+                      </span>
+                      <button
+                        onClick={() => setReview({ ...review, certifications: review.certifications?.filter((_, i) => i !== index) })}
+                        className="text-red-600 hover:text-red-800 transition-colors"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </section>
+              )}
+
+              {extraSectionSummary.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  Also importing {extraSectionSummary.join(', ')}. You can edit these on your profile after importing.
+                </p>
+              )}
+
+              <div className="flex justify-between">
+                <button
+                  onClick={() => setReview(null)}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleApply}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+                >
+                  Add to Profile
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,13 @@
 import React, { useState } from 'react'
+import { AlertTriangle, RefreshCw } from 'lucide-react'
+import { groupWorkExperiences } from '../services/workGroups'
+import { SectionTarget } from '../services/resumeGenerator'
+import { isWebUrl } from '../services/profileLinks'
+
+interface ClaimVerification {
+  support: 'supported' | 'partial' | 'unsupported'
+  unmatchedMetrics: string[]
+}
 
 interface GeneratedResume {
   professionalTitle: string
@@ -13,6 +22,7 @@ interface GeneratedResume {
       description: string
       details: string[]
     }>
+    verification?: Array<ClaimVerification | null>
   }>
   technicalSkills: string[]
   personalInfo: {
@@ -20,6 +30,7 @@ interface GeneratedResume {
     email: string
     phone: string
     location: string
+    links?: Array<{ label: string; url: string }>
   }
   educations: Array<{
     university: string
@@ -27,6 +38,40 @@ interface GeneratedResume {
     startDate: string
     endDate: string
   }>
+  certifications?: Array<{
+    name: string
+    issuer: string
+    issueDate: string | null
+    expirationDate: string | null
+    credentialUrl: string | null
+  }>
+  projects?: Array<{
+    name: string
+    description: string
+    role: string | null
+    techStack: string[]
+    url: string | null
+    startDate: string | null
+    endDate: string | null
+  }>
+  publications?: Array<{
+    title: string
+    publisher: string | null
+    publishedDate: string | null
+    url: string | null
+    description: string | null
+  }>
+  languages?: Array<{
+    name: string
+    proficiency: string
+  }>
+  volunteering?: Array<{
+    organization: string
+    role: string
+    startDate: string | null
+    endDate: string | null
+    description: string | null
+  }>
 }
 
 interface ResumePreviewProps {
@@ -34,9 +79,18 @@ interface ResumePreviewProps {
 
   onResumeUpdate?: (updatedResume: GeneratedResume) => void
   isEditable?: boolean
+  // Shows "regenerate" controls on the title, summary, each role, each achievement and the skills
+  onRegenerateSection?: (target: SectionTarget) => void
+  // The section being rewritten; every control is disabled until it is done
+  regeneratingSection?: SectionTarget | null
 }
 
-export function ResumePreview({ resume, onResumeUpdate, isEditable = false }: ResumePreviewProps) {
+const isSameTarget = (a: SectionTarget | null | undefined, b: SectionTarget) =>
+  !!a && a.section === b.section &&
+  ('workIndex' in a ? a.workIndex : null) === ('workIndex' in b ? b.workIndex : null) &&
+  ('achievementIndex' in a ? a.achievementIndex : null) === ('achievementIndex' in b ? b.achievementIndex : null)
+
+export function ResumePreview({ resume, onResumeUpdate, isEditable = false, onRegenerateSection, regeneratingSection = null }: ResumePreviewProps) {
   const [editingField, setEditingField] = useState<string | null>(null)
   const [editValue, setEditValue] = useState('')
 
@@ -46,6 +100,12 @@ export function ResumePreview({ resume, onResumeUpdate, isEditable = false }: Re
     return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
   }
 
+  const formatOptionalRange = (startDate: string | null, endDate: string | null) => {
+    if (!startDate && !endDate) return ''
+    if (!startDate) return formatDate(endDate || '')
+    return `${formatDate(startDate)} - ${endDate ? formatDate(endDate) : 'Present'}`
+  }
+
   const handleEdit = (field: string, currentValue: string) => {
     if (!isEditable) return
     setEditingField(field)
@@ -82,6 +142,12 @@ export function ResumePreview({ resume, onResumeUpdate, isEditable = false }: Re
         // Editing simple achievement
         updatedResume.workExperiences[workIdx].achievements[achIdx] = editValue
       }
+
+      // The claim check no longer applies once the user rewrites the bullet
+      const verification = updatedResume.workExperiences[workIdx].verification
+      if (verification && verification[achIdx] !== undefined) {
+        verification[achIdx] = null
+      }
     } else if (field.startsWith('skill-')) {
       const skillIndex = parseInt(field.split('-')[1])
       updatedResume.technicalSkills[skillIndex] = editValue
@@ -141,6 +207,42 @@ export function ResumePreview({ resume, onResumeUpdate, isEditable = false }: Re
     )
   }
 
+  const renderRegenerateButton = (target: SectionTarget, label: string) => {
+    if (!onRegenerateSection) return null
+
+    return (
+      <button
+        type="button"
+        onClick={() => onRegenerateSection(target)}
+        disabled={!!regeneratingSection}
+        className="ml-2 inline-flex items-center align-middle text-gray-400 hover:text-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        title={`Regenerate ${label}`}
+        aria-label={`Regenerate ${label}`}
+      >
+        <RefreshCw className={`h-4 w-4 ${isSameTarget(regeneratingSection, target) ? 'animate-spin text-blue-600' : ''}`} />
+      </button>
+    )
+  }
+
+  const getClaimClassName = (check: ClaimVerification | null | undefined) => {
+    if (check?.support === 'unsupported') return 'bg-red-50 border-l-4 border-red-400 pl-2 rounded-sm'
+    if (check?.support === 'partial') return 'bg-amber-50 border-l-4 border-amber-300 pl-2 rounded-sm'
+    return ''
+  }
+
+  const getClaimTitle = (check: ClaimVerification | null | undefined) => {
+    if (!check || check.support === 'supported') return undefined
+    const metrics = check.unmatchedMetrics.length > 0
+      ? ` Metrics not found in your profile: ${check.unmatchedMetrics.join(', ')}.`
+      : ''
+    return check.support === 'unsupported'
+      ? `Unsupported: this claim is not backed by your stored achievements.${metrics}`
+      : `Partially supported: only part of this claim matches your stored achievements.${metrics}`
+  }
+
+  const unsupportedCount = resume.workExperiences.reduce((count, work) =>
+    count + (work.verification || []).filter(check => check?.support === 'unsupported').length, 0)
+
   const renderAchievement = (achievement: string | { description: string; details: string[] }, index: number) => {
     const workIndex = 0 // Assuming this is for the first work experience
     
@@ -176,6 +278,16 @@ export function ResumePreview({ resume, onResumeUpdate, isEditable = false }: Re
       <div className="px-6 py-4 border-b border-gray-200">
         <h2 className="text-lg font-semibold text-gray-900">Resume Preview</h2>
       </div>
+
+      {unsupportedCount > 0 && (
+        <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-md p-3 flex items-start">
+          <AlertTriangle className="h-5 w-5 text-red-600 mr-2 flex-shrink-0" />
+          <p className="text-sm text-red-700">
+            {unsupportedCount} achievement(s) highlighted in red could not be backed by your profile data.
+            Edit them or add the matching achievements to your profile before sending this resume.
+          </p>
+        </div>
+      )}
       
       <div id="resume-content" className="resume-content p-8 max-h-[800px] overflow-y-auto">
         {/* Header */}
@@ -183,18 +295,35 @@ export function ResumePreview({ resume, onResumeUpdate, isEditable = false }: Re
           <h1 className="text-3xl font-bold text-gray-900 mb-2">{resume.personalInfo.name}</h1>
           <div className="text-lg font-semibold text-blue-600 mb-3">
             {renderEditableText('professionalTitle', resume.professionalTitle)}
+            {renderRegenerateButton({ section: 'title' }, 'professional title')}
           </div>
           <div className="flex flex-wrap justify-center items-center gap-x-6 gap-y-2 text-sm text-gray-600">
             <span>{resume.personalInfo.email}</span>
             <span>{resume.personalInfo.phone}</span>
             <span>{resume.personalInfo.location}</span>
           </div>
+          {(resume.personalInfo.links || []).length > 0 && (
+            <div className="flex flex-wrap justify-center items-center gap-x-6 gap-y-2 text-sm mt-2">
+              {resume.personalInfo.links!.filter(link => isWebUrl(link.url)).map((link, index) => (
+                <a
+                  key={index}
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  {link.label}
+                </a>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Professional Summary */}
         <section className="mb-8">
           <h2 className="text-xl font-bold text-gray-900 mb-3 border-b-2 border-blue-600 pb-1">
             PROFESSIONAL SUMMARY
+            {renderRegenerateButton({ section: 'summary' }, 'professional summary')}
           </h2>
           <p className="text-gray-700 leading-relaxed">
             {renderEditableText('professionalSummary', resume.professionalSummary)}
@@ -206,48 +335,69 @@ export function ResumePreview({ resume, onResumeUpdate, isEditable = false }: Re
           <h2 className="text-xl font-bold text-gray-900 mb-3 border-b-2 border-blue-600 pb-1">
             PROFESSIONAL EXPERIENCE
           </h2>
-          {resume.workExperiences.map((work, index) => (
-            <div key={index} className="mb-6">
-              <div className="flex justify-between items-start mb-2">
-                <div>
-                  <h3 className="text-lg font-semibold text-gray-900">{work.position}</h3>
-                  <p className="text-blue-600 font-medium">{work.company}</p>
-                </div>
-                <div className="text-sm text-gray-600">
-                  {formatDate(work.startDate)} - {work.isCurrent ? 'Present' : formatDate(work.endDate)}
+          {groupWorkExperiences(resume.workExperiences).map((group, groupIndex) => (
+            <div key={groupIndex} className="mb-6">
+              {/* Several roles at one employer share a single company heading */}
+              {group.roles.length > 1 && (
+                <div className="flex justify-between items-start mb-3">
+                  <p className="text-lg text-blue-600 font-semibold">{group.company}</p>
+                  <div className="text-sm text-gray-600">
+                    {formatDate(group.startDate)} - {group.isCurrent ? 'Present' : formatDate(group.endDate)}
+                  </div>
                 </div>
-              </div>
-              <ul className="list-disc list-inside space-y-2 text-gray-700">
-                {work.achievements.map((achievement, achievementIndex) => {
-                  const workIndex = index
+              )}
+              {group.roles.map(({ work, index }) => (
+                <div key={index} className={group.roles.length > 1 ? 'ml-4 mb-4 last:mb-0' : ''}>
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">
+                        {work.position}
+                        {renderRegenerateButton({ section: 'work', workIndex: index }, `achievements at ${work.company}`)}
+                      </h3>
+                      {group.roles.length === 1 && (
+                        <p className="text-blue-600 font-medium">{work.company}</p>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {formatDate(work.startDate)} - {work.isCurrent ? 'Present' : formatDate(work.endDate)}
+                    </div>
+                  </div>
+                  <ul className="list-disc list-inside space-y-2 text-gray-700">
+                    {work.achievements.map((achievement, achievementIndex) => {
+                      const workIndex = index
+                      const check = work.verification?.[achievementIndex]
                   
-                  if (typeof achievement === 'string') {
-                    return (
-                      <li key={achievementIndex} className="leading-relaxed mb-3">
-                        {renderEditableText(`work-${workIndex}-${achievementIndex}`, achievement)}
-                      </li>
-                    )
-                  } else {
-                    return (
-                      <li key={achievementIndex} className="leading-relaxed mb-4">
-                        <div className="mb-3">
-                          {renderEditableText(`work-${workIndex}-${achievementIndex}-description`, achievement.description)}
-                        </div>
-                        <ul className="ml-4 space-y-2">
-                          {achievement.details.map((detail, detailIndex) => (
-                            <li key={detailIndex} className="flex items-start">
-                              <span className="inline-block w-2 h-2 bg-blue-600 rounded-full mt-2.5 mr-3 flex-shrink-0"></span>
-                              <span className="text-gray-700 leading-relaxed">
-                                {renderEditableText(`work-${workIndex}-${achievementIndex}-${detailIndex}`, detail)}
-                              </span>
-                            </li>
-                          ))}
-                        </ul>
-                      </li>
-                    )
-                  }
-                })}
-              </ul>
+                      if (typeof achievement === 'string') {
+                        return (
+                          <li key={achievementIndex} className={`leading-relaxed mb-3 ${getClaimClassName(check)}`} title={getClaimTitle(check)}>
+                            {renderEditableText(`work-${workIndex}-${achievementIndex}`, achievement)}
+                            {renderRegenerateButton({ section: 'bullet', workIndex, achievementIndex }, 'this achievement')}
+                          </li>
+                        )
+                      } else {
+                        return (
+                          <li key={achievementIndex} className={`leading-relaxed mb-4 ${getClaimClassName(check)}`} title={getClaimTitle(check)}>
+                            <div className="mb-3">
+                              {renderEditableText(`work-${workIndex}-${achievementIndex}-description`, achievement.description)}
+                              {renderRegenerateButton({ section: 'bullet', workIndex, achievementIndex }, 'this achievement')}
+                            </div>
+                            <ul className="ml-4 space-y-2">
+                              {achievement.details.map((detail, detailIndex) => (
+                                <li key={detailIndex} className="flex items-start">
+                                  <span className="inline-block w-2 h-2 bg-blue-600 rounded-full mt-2.5 mr-3 flex-shrink-0"></span>
+                                  <span className="text-gray-700 leading-relaxed">
+                                    {renderEditableText(`work-${workIndex}-${achievementIndex}-${detailIndex}`, detail)}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </li>
+                        )
+                      }
+                    })}
+                  </ul>
+                </div>
+              ))}
             </div>
           ))}
         </section>
@@ -256,6 +406,7 @@ export function ResumePreview({ resume, onResumeUpdate, isEditable = false }: Re
         <section className="mb-8">
           <h2 className="text-xl font-bold text-gray-900 mb-3 border-b-2 border-blue-600 pb-1">
             TECHNICAL SKILLS
+            {renderRegenerateButton({ section: 'skills' }, 'technical skills')}
           </h2>
           <div className="grid grid-cols-2 gap-2">
             {resume.technicalSkills.map((skill, index) => (
@@ -285,6 +436,132 @@ export function ResumePreview({ resume, onResumeUpdate, isEditable = false }: Re
             </div>
           ))}
         </section>
+
+        {/* Projects */}
+        {resume.projects && resume.projects.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-3 border-b-2 border-blue-600 pb-1">
+              PROJECTS
+            </h2>
+            {resume.projects.map((project, index) => (
+              <div key={index} className="mb-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {isWebUrl(project.url) ? (
+                        <a href={project.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600">
+                          {project.name}
+                        </a>
+                      ) : project.name}
+                    </h3>
+                    {project.role && <p className="text-blue-600 font-medium">{project.role}</p>}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {formatOptionalRange(project.startDate, project.endDate)}
+                  </div>
+                </div>
+                <p className="text-gray-700 leading-relaxed mt-1">{project.description}</p>
+                {project.techStack?.length > 0 && (
+                  <p className="text-sm text-gray-600 mt-1">Tech: {project.techStack.join(', ')}</p>
+                )}
+              </div>
+            ))}
+          </section>
+        )}
+
+        {/* Certifications */}
+        {resume.certifications && resume.certifications.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-3 border-b-2 border-blue-600 pb-1">
+              CERTIFICATIONS
+            </h2>
+            {resume.certifications.map((cert, index) => (
+              <div key={index} className="flex justify-between items-start mb-2">
+                <div>
+                  <span className="font-semibold text-gray-900">
+                    {isWebUrl(cert.credentialUrl) ? (
+                      <a href={cert.credentialUrl} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600">
+                        {cert.name}
+                      </a>
+                    ) : cert.name}
+                  </span>
+                  <span className="text-blue-600 font-medium"> - {cert.issuer}</span>
+                </div>
+                <div className="text-sm text-gray-600">
+                  {formatDate(cert.issueDate || '')}
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {/* Publications */}
+        {resume.publications && resume.publications.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-3 border-b-2 border-blue-600 pb-1">
+              PUBLICATIONS
+            </h2>
+            {resume.publications.map((publication, index) => (
+              <div key={index} className="mb-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <span className="font-semibold text-gray-900">
+                      {isWebUrl(publication.url) ? (
+                        <a href={publication.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600">
+                          {publication.title}
+                        </a>
+                      ) : publication.title}
+                    </span>
+                    {publication.publisher && <span className="text-blue-600 font-medium"> - {publication.publisher}</span>}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {formatDate(publication.publishedDate || '')}
+                  </div>
+                </div>
+                {publication.description && <p className="text-gray-700 leading-relaxed mt-1">{publication.description}</p>}
+              </div>
+            ))}
+          </section>
+        )}
+
+        {/* Volunteer Experience */}
+        {resume.volunteering && resume.volunteering.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-3 border-b-2 border-blue-600 pb-1">
+              VOLUNTEER EXPERIENCE
+            </h2>
+            {resume.volunteering.map((volunteer, index) => (
+              <div key={index} className="mb-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{volunteer.role}</h3>
+                    <p className="text-blue-600 font-medium">{volunteer.organization}</p>
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {formatOptionalRange(volunteer.startDate, volunteer.endDate)}
+                  </div>
+                </div>
+                {volunteer.description && <p className="text-gray-700 leading-relaxed mt-1">{volunteer.description}</p>}
+              </div>
+            ))}
+          </section>
+        )}
+
+        {/* Languages */}
+        {resume.languages && resume.languages.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-3 border-b-2 border-blue-600 pb-1">
+              LANGUAGES
+            </h2>
+            <div className="grid grid-cols-2 gap-2">
+              {resume.languages.map((language, index) => (
+                <div key={index} className="text-gray-700">
+                  • <span className="font-medium">{language.name}</span> - {language.proficiency}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
       </div>
     </div>
   )
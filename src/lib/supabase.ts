@@ -1,7 +1,8 @@
 import { createClient } from '@supabase/supabase-js'
+import type { ProfileSnapshotData } from '../services/profileSnapshot'
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || ''
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || ''
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || ''
+export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || ''
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
@@ -49,6 +50,12 @@ export type Database = {
           start_date: string
           end_date: string | null
           is_current: boolean
+          sort_order: number
+          description: string | null
+          team_size: number | null
+          tech_stack: string[]
+          industry: string | null
+          employment_type: 'full_time' | 'contract' | 'internship'
           created_at: string
         }
         Insert: {
@@ -59,6 +66,12 @@ export type Database = {
           start_date: string
           end_date?: string | null
           is_current?: boolean
+          sort_order?: number
+          description?: string | null
+          team_size?: number | null
+          tech_stack?: string[]
+          industry?: string | null
+          employment_type?: 'full_time' | 'contract' | 'internship'
           created_at?: string
         }
         Update: {
@@ -69,6 +82,41 @@ export type Database = {
           start_date?: string
           end_date?: string | null
           is_current?: boolean
+          sort_order?: number
+          description?: string | null
+          team_size?: number | null
+          tech_stack?: string[]
+          industry?: string | null
+          employment_type?: 'full_time' | 'contract' | 'internship'
+          created_at?: string
+        }
+      }
+      achievements: {
+        Row: {
+          id: string
+          work_experience_id: string
+          description: string
+          metrics: string | null
+          tech_stack: string[]
+          team_context: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          work_experience_id: string
+          description: string
+          metrics?: string | null
+          tech_stack?: string[]
+          team_context?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          work_experience_id?: string
+          description?: string
+          metrics?: string | null
+          tech_stack?: string[]
+          team_context?: string | null
           created_at?: string
         }
       }
@@ -101,13 +149,361 @@ export type Database = {
           created_at?: string
         }
       }
+      skills: {
+        Row: {
+          id: string
+          profile_id: string
+          name: string
+          category: string
+          proficiency: 'beginner' | 'intermediate' | 'advanced' | 'expert'
+          years_of_use: number
+          last_used: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          name: string
+          category: string
+          proficiency?: 'beginner' | 'intermediate' | 'advanced' | 'expert'
+          years_of_use?: number
+          last_used?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          name?: string
+          category?: string
+          proficiency?: 'beginner' | 'intermediate' | 'advanced' | 'expert'
+          years_of_use?: number
+          last_used?: string | null
+          created_at?: string
+        }
+      }
+      certifications: {
+        Row: {
+          id: string
+          profile_id: string
+          name: string
+          issuer: string
+          issue_date: string | null
+          expiration_date: string | null
+          credential_id: string | null
+          credential_url: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          name: string
+          issuer: string
+          issue_date?: string | null
+          expiration_date?: string | null
+          credential_id?: string | null
+          credential_url?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          name?: string
+          issuer?: string
+          issue_date?: string | null
+          expiration_date?: string | null
+          credential_id?: string | null
+          credential_url?: string | null
+          created_at?: string
+        }
+      }
+      projects: {
+        Row: {
+          id: string
+          profile_id: string
+          name: string
+          description: string
+          role: string | null
+          tech_stack: string[]
+          url: string | null
+          start_date: string | null
+          end_date: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          name: string
+          description: string
+          role?: string | null
+          tech_stack?: string[]
+          url?: string | null
+          start_date?: string | null
+          end_date?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          name?: string
+          description?: string
+          role?: string | null
+          tech_stack?: string[]
+          url?: string | null
+          start_date?: string | null
+          end_date?: string | null
+          created_at?: string
+        }
+      }
+      publications: {
+        Row: {
+          id: string
+          profile_id: string
+          title: string
+          publisher: string | null
+          published_date: string | null
+          url: string | null
+          description: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          title: string
+          publisher?: string | null
+          published_date?: string | null
+          url?: string | null
+          description?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          title?: string
+          publisher?: string | null
+          published_date?: string | null
+          url?: string | null
+          description?: string | null
+          created_at?: string
+        }
+      }
+      languages: {
+        Row: {
+          id: string
+          profile_id: string
+          name: string
+          proficiency: 'elementary' | 'limited_working' | 'professional_working' | 'full_professional' | 'native'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          name: string
+          proficiency?: 'elementary' | 'limited_working' | 'professional_working' | 'full_professional' | 'native'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          name?: string
+          proficiency?: 'elementary' | 'limited_working' | 'professional_working' | 'full_professional' | 'native'
+          created_at?: string
+        }
+      }
+      volunteer_experiences: {
+        Row: {
+          id: string
+          profile_id: string
+          organization: string
+          role: string
+          start_date: string | null
+          end_date: string | null
+          description: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          organization: string
+          role: string
+          start_date?: string | null
+          end_date?: string | null
+          description?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          organization?: string
+          role?: string
+          start_date?: string | null
+          end_date?: string | null
+          description?: string | null
+          created_at?: string
+        }
+      }
+      profile_links: {
+        Row: {
+          id: string
+          profile_id: string
+          link_type: 'linkedin' | 'github' | 'portfolio' | 'website' | 'stackoverflow' | 'other'
+          label: string
+          url: string
+          sort_order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          link_type?: 'linkedin' | 'github' | 'portfolio' | 'website' | 'stackoverflow' | 'other'
+          label: string
+          url: string
+          sort_order?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          link_type?: 'linkedin' | 'github' | 'portfolio' | 'website' | 'stackoverflow' | 'other'
+          label?: string
+          url?: string
+          sort_order?: number
+          created_at?: string
+        }
+      }
+      personas: {
+        Row: {
+          id: string
+          profile_id: string
+          name: string
+          description: string | null
+          work_experience_ids: string[]
+          education_ids: string[]
+          skill_ids: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          name: string
+          description?: string | null
+          work_experience_ids?: string[]
+          education_ids?: string[]
+          skill_ids?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          name?: string
+          description?: string | null
+          work_experience_ids?: string[]
+          education_ids?: string[]
+          skill_ids?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      prompt_templates: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          current_version: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          current_version?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          current_version?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      prompt_template_versions: {
+        Row: {
+          id: string
+          template_id: string
+          version: number
+          body: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          version: number
+          body: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          version?: number
+          body?: string
+          created_at?: string
+        }
+      }
+      profile_snapshots: {
+        Row: {
+          id: string
+          user_id: string
+          persona_id: string | null
+          snapshot: ProfileSnapshotData
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          persona_id?: string | null
+          snapshot: ProfileSnapshotData
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          persona_id?: string | null
+          snapshot?: ProfileSnapshotData
+          created_at?: string
+        }
+      }
       user_settings: {
         Row: {
           id: string
           user_id: string
           openai_key: string | null
+          openai_model: string | null
           anthropic_key: string | null
+          anthropic_model: string | null
+          gemini_key: string | null
+          gemini_model: string | null
+          mistral_key: string | null
+          mistral_model: string | null
+          azure_openai_endpoint: string | null
+          azure_openai_deployment: string | null
+          azure_openai_api_version: string | null
+          azure_openai_key: string | null
+          openai_compatible_base_url: string | null
+          openai_compatible_model: string | null
+          openai_compatible_key: string | null
           preferred_ai: string
+          failover_enabled: boolean
+          failover_provider: string | null
+          temperature: number
+          max_output_tokens: number
           created_at: string
           updated_at: string
         }
@@ -115,8 +511,25 @@ export type Database = {
           id?: string
           user_id: string
           openai_key?: string | null
+          openai_model?: string | null
           anthropic_key?: string | null
+          anthropic_model?: string | null
+          gemini_key?: string | null
+          gemini_model?: string | null
+          mistral_key?: string | null
+          mistral_model?: string | null
+          azure_openai_endpoint?: string | null
+          azure_openai_deployment?: string | null
+          azure_openai_api_version?: string | null
+          azure_openai_key?: string | null
+          openai_compatible_base_url?: string | null
+          openai_compatible_model?: string | null
+          openai_compatible_key?: string | null
           preferred_ai?: string
+          failover_enabled?: boolean
+          failover_provider?: string | null
+          temperature?: number
+          max_output_tokens?: number
           created_at?: string
           updated_at?: string
         }
@@ -124,8 +537,25 @@ export type Database = {
           id?: string
           user_id?: string
           openai_key?: string | null
+          openai_model?: string | null
           anthropic_key?: string | null
+          anthropic_model?: string | null
+          gemini_key?: string | null
+          gemini_model?: string | null
+          mistral_key?: string | null
+          mistral_model?: string | null
+          azure_openai_endpoint?: string | null
+          azure_openai_deployment?: string | null
+          azure_openai_api_version?: string | null
+          azure_openai_key?: string | null
+          openai_compatible_base_url?: string | null
+          openai_compatible_model?: string | null
+          openai_compatible_key?: string | null
           preferred_ai?: string
+          failover_enabled?: boolean
+          failover_provider?: string | null
+          temperature?: number
+          max_output_tokens?: number
           created_at?: string
           updated_at?: string
         }
@@ -138,6 +568,7 @@ export type Database = {
           role: string
           job_description: string
           note: string | null
+          persona_id: string | null
           created_at: string
         }
         Insert: {
@@ -147,6 +578,7 @@ export type Database = {
           role: string
           job_description: string
           note?: string | null
+          persona_id?: string | null
           created_at?: string
         }
         Update: {
@@ -156,6 +588,7 @@ export type Database = {
           role?: string
           job_description?: string
           note?: string | null
+          persona_id?: string | null
           created_at?: string
         }
       }
@@ -166,6 +599,14 @@ export type Database = {
           resume_data: any
           generation_cost: number | null
           ai_provider: string
+          ai_model: string | null
+          input_tokens: number | null
+          output_tokens: number | null
+          profile_snapshot_id: string | null
+          revision_of: string | null
+          revision_note: string | null
+          prompt_template_id: string | null
+          prompt_template_version: number | null
           created_at: string
           updated_at: string
         }
@@ -175,6 +616,14 @@ export type Database = {
           resume_data: any
           generation_cost?: number | null
           ai_provider: string
+          ai_model?: string | null
+          input_tokens?: number | null
+          output_tokens?: number | null
+          profile_snapshot_id?: string | null
+          revision_of?: string | null
+          revision_note?: string | null
+          prompt_template_id?: string | null
+          prompt_template_version?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -184,10 +633,61 @@ export type Database = {
           resume_data?: any
           generation_cost?: number | null
           ai_provider?: string
+          ai_model?: string | null
+          input_tokens?: number | null
+          output_tokens?: number | null
+          profile_snapshot_id?: string | null
+          revision_of?: string | null
+          revision_note?: string | null
+          prompt_template_id?: string | null
+          prompt_template_version?: number | null
           created_at?: string
           updated_at?: string
         }
       }
     }
+    Functions: {
+      save_profile: {
+        Args: {
+          document: ProfileDocument
+          expected_updated_at?: string | null
+        }
+        Returns: {
+          profile_id: string
+          updated_at: string
+        }
+      }
+      save_prompt_template: {
+        Args: {
+          existing_template_id: string | null
+          template_name: string
+          template_description: string | null
+          template_body: string
+        }
+        Returns: {
+          id: string
+          version: number
+        }
+      }
+    }
   }
-}
\ No newline at end of file
+}
+
+// A section row as save_profile receives it: the table's columns, with an id
+// when the row was saved before and blank optional text sent as null
+type ProfileDocumentRow = Record<string, unknown>
+
+// The whole profile form, applied by save_profile in one transaction. Rows
+// missing from a section are deleted.
+export interface ProfileDocument {
+  profile: Pick<Database['public']['Tables']['profiles']['Row'], 'name' | 'email' | 'phone' | 'location'>
+  work_experiences: Array<ProfileDocumentRow & { achievements: ProfileDocumentRow[] }>
+  educations: ProfileDocumentRow[]
+  skills: ProfileDocumentRow[]
+  certifications: ProfileDocumentRow[]
+  projects: ProfileDocumentRow[]
+  publications: ProfileDocumentRow[]
+  languages: ProfileDocumentRow[]
+  volunteer_experiences: ProfileDocumentRow[]
+  profile_links: ProfileDocumentRow[]
+}
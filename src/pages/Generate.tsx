@@ -1,12 +1,40 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
-import { FileText, Download, RefreshCw, Settings, Save } from 'lucide-react'
+import { FileText, Download, RefreshCw, Settings, Save, AlertCircle, X } from 'lucide-react'
 import { Link } from 'react-router-dom'
 import { ResumePreview } from '../components/ResumePreview'
 import { CostEstimator } from '../components/CostEstimator'
-import { generateResume } from '../services/resumeGenerator'
+import {
+  describeSectionTarget,
+  generateResume,
+  GenerationError,
+  GenerationEvent,
+  GenerationMeta,
+  regenerateSection,
+  RegeneratedSection,
+  SectionTarget
+} from '../services/resumeGenerator'
 import { downloadPDF, downloadDocx } from '../services/fileGenerator'
+import { validateProfile, ValidationInput } from '../services/profileValidator'
+import { AIProviderId, aiProviderName, formatCost, formatTokenUsage, hasConfiguredProvider } from '../services/aiProviders'
+import {
+  BULLETS_PER_ROLE_RANGE,
+  DEFAULT_GENERATION_CONTROLS,
+  GenerationControls,
+  PAGE_COUNT_RANGE,
+  SENIORITY_OPTIONS,
+  SUMMARY_LENGTH_OPTIONS,
+  Seniority,
+  SummaryLength,
+  TONE_OPTIONS,
+  Tone
+} from '../services/generationControls'
+
+interface ClaimVerification {
+  support: 'supported' | 'partial' | 'unsupported'
+  unmatchedMetrics: string[]
+}
 
 interface GeneratedResume {
   professionalTitle: string
@@ -21,6 +49,7 @@ interface GeneratedResume {
       description: string
       details: string[]
     }>
+    verification?: Array<ClaimVerification | null>
   }>
   technicalSkills: string[]
   personalInfo: {
@@ -28,6 +57,7 @@ interface GeneratedResume {
     email: string
     phone: string
     location: string
+    links?: Array<{ label: string; url: string }>
   }
   educations: Array<{
     university: string
@@ -35,6 +65,100 @@ interface GeneratedResume {
     startDate: string
     endDate: string
   }>
+  certifications?: Array<{
+    name: string
+    issuer: string
+    issueDate: string | null
+    expirationDate: string | null
+    credentialUrl: string | null
+  }>
+  projects?: Array<{
+    name: string
+    description: string
+    role: string | null
+    techStack: string[]
+    url: string | null
+    startDate: string | null
+    endDate: string | null
+  }>
+  publications?: Array<{
+    title: string
+    publisher: string | null
+    publishedDate: string | null
+    url: string | null
+    description: string | null
+  }>
+  languages?: Array<{
+    name: string
+    proficiency: string
+  }>
+  volunteering?: Array<{
+    organization: string
+    role: string
+    startDate: string | null
+    endDate: string | null
+    description: string | null
+  }>
+}
+
+interface PromptTemplateOption {
+  id: string
+  name: string
+  description: string | null
+  current_version: number
+}
+
+interface PersonaOption {
+  id: string
+  name: string
+  description: string | null
+  work_experience_ids: string[]
+  education_ids: string[]
+}
+
+// The profile as validated before generating, with row ids so a persona's
+// selection can be applied
+interface ProfileCheck extends ValidationInput {
+  workExperiences: Array<ValidationInput['workExperiences'][number] & { id: string }>
+  educations: Array<ValidationInput['educations'][number] & { id: string }>
+}
+
+// Puts a regenerated section into the resume. Rewritten achievements come with
+// fresh claim checks; the other sections carry none.
+function applyRegeneratedSection(resume: GeneratedResume, target: SectionTarget, section: RegeneratedSection): GeneratedResume {
+  switch (target.section) {
+    case 'title':
+      return { ...resume, professionalTitle: section.professionalTitle || resume.professionalTitle }
+    case 'summary':
+      return { ...resume, professionalSummary: section.professionalSummary || resume.professionalSummary }
+    case 'skills':
+      return { ...resume, technicalSkills: section.technicalSkills || resume.technicalSkills }
+    case 'work':
+      return {
+        ...resume,
+        workExperiences: resume.workExperiences.map((work, index) =>
+          index === target.workIndex
+            ? { ...work, achievements: section.achievements || work.achievements, verification: section.verification as ClaimVerification[] }
+            : work
+        )
+      }
+    case 'bullet':
+      return {
+        ...resume,
+        workExperiences: resume.workExperiences.map((work, index) => {
+          if (index !== target.workIndex || !section.achievement) return work
+          const verification = work.verification ? [...work.verification] : work.achievements.map(() => null)
+          verification[target.achievementIndex] = (section.verification as ClaimVerification) || null
+          return {
+            ...work,
+            achievements: work.achievements.map((achievement, achievementIndex) =>
+              achievementIndex === target.achievementIndex ? section.achievement! : achievement
+            ),
+            verification
+          }
+        })
+      }
+  }
 }
 
 export function Generate() {
@@ -49,11 +173,23 @@ export function Generate() {
   const [hasProfile, setHasProfile] = useState(false)
   const [hasSettings, setHasSettings] = useState(false)
   const [workExperienceCount, setWorkExperienceCount] = useState(0)
-  const [preferredAI, setPreferredAI] = useState<'openai' | 'anthropic'>('openai')
-  const [generationCost, setGenerationCost] = useState<number | null>(null)
+  const [profileCheck, setProfileCheck] = useState<ProfileCheck | null>(null)
+  const [personas, setPersonas] = useState<PersonaOption[]>([])
+  const [selectedPersonaId, setSelectedPersonaId] = useState('')
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateOption[]>([])
+  const [selectedTemplateId, setSelectedTemplateId] = useState('')
+  const [controls, setControls] = useState<GenerationControls>(DEFAULT_GENERATION_CONTROLS)
+  const [preferredAI, setPreferredAI] = useState<AIProviderId>('openai')
+  // Provider, model, tokens and cost of the last generation
+  const [generationMeta, setGenerationMeta] = useState<GenerationMeta | null>(null)
+  const [failoverNotice, setFailoverNotice] = useState<string | null>(null)
   const [currentJobHistoryId, setCurrentJobHistoryId] = useState<string | null>(null)
+  // The resume_history row shown in the preview; section regenerations are saved as revisions of it
+  const [currentResumeId, setCurrentResumeId] = useState<string | null>(null)
+  const [regeneratingSection, setRegeneratingSection] = useState<SectionTarget | null>(null)
   const [isEditMode, setIsEditMode] = useState(false)
   const [savingEdits, setSavingEdits] = useState(false)
+  const generationAbortRef = useRef<AbortController | null>(null)
 
   useEffect(() => {
     if (user) {
@@ -66,48 +202,114 @@ export function Generate() {
       // Check if profile exists
       const { data: profileData } = await supabase
         .from('profiles')
-        .select('id')
+        .select('id, name, email, phone, location')
         .eq('user_id', user?.id)
         .single()
 
       setHasProfile(!!profileData)
 
       if (profileData) {
-        // Get work experience count
-        const { data: workData } = await supabase
-          .from('work_experiences')
-          .select('id')
-          .eq('profile_id', profileData.id)
+        // Get work experience count and the data needed to validate the profile
+        const [{ data: workData }, { data: educationData }, { data: skillData }] = await Promise.all([
+          supabase
+            .from('work_experiences')
+            .select('id, company, position, start_date, end_date, is_current, achievements(id)')
+            .eq('profile_id', profileData.id),
+          supabase
+            .from('educations')
+            .select('id, university, degree, start_date, end_date')
+            .eq('profile_id', profileData.id),
+          supabase
+            .from('skills')
+            .select('id')
+            .eq('profile_id', profileData.id)
+        ])
 
         setWorkExperienceCount(workData?.length || 0)
+        setProfileCheck({
+          profile: profileData,
+          workExperiences: workData || [],
+          educations: educationData || [],
+          skills: skillData || []
+        })
+
+        const { data: personaData } = await supabase
+          .from('personas')
+          .select('id, name, description, work_experience_ids, education_ids')
+          .eq('profile_id', profileData.id)
+          .order('created_at', { ascending: true })
+
+        setPersonas(personaData || [])
       }
 
+      const { data: templateData } = await supabase
+        .from('prompt_templates')
+        .select('id, name, description, current_version')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: true })
+
+      setPromptTemplates(templateData || [])
+
       // Check if settings exist
       const { data: settingsData } = await supabase
         .from('user_settings')
-        .select('openai_key, anthropic_key, preferred_ai')
+        .select('openai_key, anthropic_key, gemini_key, mistral_key, azure_openai_key, azure_openai_endpoint, azure_openai_deployment, openai_compatible_base_url, openai_compatible_model, preferred_ai')
         .eq('user_id', user?.id)
         .maybeSingle()
 
-      setHasSettings(!!settingsData?.openai_key || !!settingsData?.anthropic_key)
+      setHasSettings(!!settingsData && hasConfiguredProvider(settingsData))
       if (settingsData?.preferred_ai) {
-        setPreferredAI(settingsData.preferred_ai as 'openai' | 'anthropic')
+        setPreferredAI(settingsData.preferred_ai as AIProviderId)
       }
     } catch (error) {
       console.error('Error checking requirements:', error)
     }
   }
 
+  const selectedPersona = personas.find(persona => persona.id === selectedPersonaId)
+  // Only the roles and education the selected persona puts on the resume can block it
+  const blockingIssues = profileCheck
+    ? validateProfile(selectedPersona
+      ? {
+        ...profileCheck,
+        workExperiences: profileCheck.workExperiences.filter(work => selectedPersona.work_experience_ids.includes(work.id)),
+        educations: profileCheck.educations.filter(education => selectedPersona.education_ids.includes(education.id))
+      }
+      : profileCheck).blockingIssues
+    : []
+  const selectedTemplate = promptTemplates.find(template => template.id === selectedTemplateId)
+
+  const updateControls = (changes: Partial<GenerationControls>) => {
+    setControls(current => ({ ...current, ...changes }))
+  }
+
+  // Number inputs can be cleared or typed past their range while editing
+  const clampBullets = (value: string) => {
+    const count = parseInt(value, 10)
+    return Number.isNaN(count) ? BULLETS_PER_ROLE_RANGE.min : Math.min(Math.max(count, BULLETS_PER_ROLE_RANGE.min), BULLETS_PER_ROLE_RANGE.max)
+  }
+  const selectedWorkCount = selectedPersona ? selectedPersona.work_experience_ids.length : workExperienceCount
+
   const handleGenerate = async () => {
     if (!companyName.trim() || !role.trim() || !jobDescription.trim()) {
       alert('Please fill in company name, role, and job description')
       return
     }
 
+    if (blockingIssues.length > 0) {
+      alert('Please fix the issues in your profile before generating a resume')
+      return
+    }
+
     setLoading(true)
-    setGenerationCost(null)
-    
-    const startTime = Date.now()
+    setGenerationMeta(null)
+    setFailoverNotice(null)
+    setIsEditMode(false)
+    setCurrentResumeId(null)
+
+    const abortController = new AbortController()
+    generationAbortRef.current = abortController
+    let jobHistoryId: string | null = null
     
     try {
       // First, save job history
@@ -118,7 +320,8 @@ export function Generate() {
           company_name: companyName,
           role: role,
           job_description: jobDescription,
-          note: note.trim() || null
+          note: note.trim() || null,
+          persona_id: selectedPersonaId || null
         })
         .select()
         .single()
@@ -127,88 +330,196 @@ export function Generate() {
         throw new Error(`Failed to save job history: ${jobHistoryError.message}`)
       }
 
+      jobHistoryId = jobHistoryData.id
       setCurrentJobHistoryId(jobHistoryData.id)
 
-      // Generate resume
-      const resume = await generateResume(jobDescription, user?.id!)
-      setGeneratedResume(resume)
-      
-      // Calculate actual generation time and estimate cost
-      const endTime = Date.now()
-      const generationTime = (endTime - startTime) / 1000 // in seconds
-      
-      // Estimate cost based on generation time and complexity
-      const estimatedCost = calculateActualCost(jobDescription.length, workExperienceCount, preferredAI, generationTime)
-      setGenerationCost(estimatedCost)
+      // Generate resume, rendering each section as the provider writes it
+      const { resume, meta } = await generateResume(jobDescription, user?.id!, selectedPersonaId, {
+        promptTemplateId: selectedTemplateId || null,
+        controls,
+        onEvent: applyGenerationEvent,
+        signal: abortController.signal
+      })
+      setGeneratedResume(resume as GeneratedResume)
+      setGenerationMeta(meta)
 
       // Save resume history
-      const { error: resumeHistoryError } = await supabase
+      const { data: resumeHistoryData, error: resumeHistoryError } = await supabase
         .from('resume_history')
         .insert({
           job_history_id: jobHistoryData.id,
           resume_data: resume,
-          generation_cost: estimatedCost,
-          ai_provider: preferredAI
+          generation_cost: meta.cost ?? null,
+          input_tokens: meta.inputTokens ?? null,
+          output_tokens: meta.outputTokens ?? null,
+          ai_provider: meta.aiProvider || preferredAI,
+          ai_model: meta.aiModel || null,
+          profile_snapshot_id: meta.profileSnapshotId,
+          prompt_template_id: meta.promptTemplateId ?? null,
+          prompt_template_version: meta.promptTemplateVersion ?? null
         })
+        .select('id')
+        .single()
 
       if (resumeHistoryError) {
         console.error('Failed to save resume history:', resumeHistoryError)
         // Don't throw error here as the resume was generated successfully
+      } else {
+        setCurrentResumeId(resumeHistoryData.id)
       }
       
     } catch (error) {
-      console.error('Error generating resume:', error)
-      alert('Error generating resume. Please check your settings and try again.')
+      if (abortController.signal.aborted) {
+        // A cancelled run leaves no job entry behind without a resume
+        setGeneratedResume(null)
+        setCurrentJobHistoryId(null)
+        if (jobHistoryId) {
+          await supabase.from('job_history').delete().eq('id', jobHistoryId)
+        }
+      } else {
+        console.error('Error generating resume:', error)
+        if (error instanceof GenerationError && error.validationErrors.length > 0) {
+          const problems = error.validationErrors.slice(0, 8).map(issue => `• ${issue.path || 'response'}: ${issue.message}`)
+          alert(`${error.message}\n\n${problems.join('\n')}`)
+        } else {
+          alert('Error generating resume. Please check your settings and try again.')
+        }
+      }
     } finally {
+      generationAbortRef.current = null
       setLoading(false)
     }
   }
 
-  const calculateActualCost = (
-    jobDescriptionLength: number,
-    workCount: number,
-    aiProvider: 'openai' | 'anthropic',
-    generationTime: number
-  ): number => {
-    // More accurate cost calculation based on actual usage
-    const baseCosts = {
-      openai: 0.03,    // per 1K tokens input + 0.06 per 1K tokens output
-      anthropic: 0.015 // per 1K tokens input + 0.075 per 1K tokens output
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort()
+  }
+
+  // Fills the preview in while generate-resume streams. The skeleton carries
+  // everything that does not come from the AI; the final resume replaces it all.
+  const applyGenerationEvent = (event: GenerationEvent) => {
+    if (event.type === 'skeleton') {
+      setGeneratedResume(event.resume as GeneratedResume)
+      return
+    }
+    if (event.type === 'failover') {
+      setFailoverNotice(`${aiProviderName(event.from)} is unavailable, so ${aiProviderName(event.to)} is writing your resume instead.`)
+      return
     }
 
-    // Estimate tokens used (rough approximation)
-    const inputTokens = Math.ceil((jobDescriptionLength + (workCount * 200)) / 4) // ~4 chars per token
-    const outputTokens = Math.ceil(2000) // Estimated output tokens for a resume
-    
-    const inputCost = (inputTokens / 1000) * baseCosts[aiProvider]
-    const outputCost = (outputTokens / 1000) * (baseCosts[aiProvider] * 2) // Output typically costs 2x input
-    
-    return Math.round((inputCost + outputCost) * 100) / 100
+    setGeneratedResume(current => {
+      if (!current) return current
+      switch (event.type) {
+        case 'summary':
+          return { ...current, professionalTitle: event.professionalTitle, professionalSummary: event.professionalSummary }
+        case 'work':
+          return {
+            ...current,
+            workExperiences: current.workExperiences.map((work, index) =>
+              index === event.index
+                ? { ...work, position: event.position || work.position, achievements: event.achievements }
+                : work
+            )
+          }
+        case 'skills':
+          return { ...current, technicalSkills: event.technicalSkills }
+      }
+    })
   }
 
   const handleResumeUpdate = (updatedResume: GeneratedResume) => {
     setGeneratedResume(updatedResume)
   }
 
-  const handleSaveEdits = async () => {
+  // Rewrites one section and saves the result as a new revision, so the
+  // resume it replaced stays in history. The new section is only shown once
+  // the revision is saved; otherwise "Save edits" would write it over the
+  // resume it was meant to leave untouched.
+  const handleRegenerateSection = async (target: SectionTarget) => {
     if (!generatedResume || !currentJobHistoryId) return
 
-    setSavingEdits(true)
+    setRegeneratingSection(target)
     try {
-      const { error } = await supabase
+      const { section, meta } = await regenerateSection(jobDescription, generatedResume, target, selectedPersonaId, controls, generationMeta?.promptTemplateId)
+      const updatedResume = applyRegeneratedSection(generatedResume, target, section)
+
+      const { data: revisionData, error: revisionError } = await supabase
         .from('resume_history')
-        .update({
-          resume_data: generatedResume,
-          updated_at: new Date().toISOString()
+        .insert({
+          job_history_id: currentJobHistoryId,
+          resume_data: updatedResume,
+          generation_cost: meta.cost ?? null,
+          input_tokens: meta.inputTokens ?? null,
+          output_tokens: meta.outputTokens ?? null,
+          ai_provider: meta.aiProvider || preferredAI,
+          ai_model: meta.aiModel || null,
+          profile_snapshot_id: generationMeta?.profileSnapshotId ?? null,
+          prompt_template_id: generationMeta?.promptTemplateId ?? null,
+          prompt_template_version: generationMeta?.promptTemplateVersion ?? null,
+          revision_of: currentResumeId,
+          revision_note: describeSectionTarget(generatedResume, target)
         })
-        .eq('job_history_id', currentJobHistoryId)
-        .order('created_at', { ascending: false })
-        .limit(1)
+        .select('id')
+        .single()
+
+      if (revisionError) {
+        console.error('Failed to save resume revision:', revisionError)
+        alert('The new section could not be saved as a revision, so your resume was left unchanged. Please try again.')
+      } else {
+        setGeneratedResume(updatedResume)
+        setCurrentResumeId(revisionData.id)
+      }
+    } catch (error) {
+      console.error('Error regenerating section:', error)
+      if (error instanceof GenerationError && error.validationErrors.length > 0) {
+        const problems = error.validationErrors.slice(0, 8).map(issue => `• ${issue.path || 'response'}: ${issue.message}`)
+        alert(`${error.message}\n\n${problems.join('\n')}`)
+      } else {
+        alert('Error regenerating section. Please check your settings and try again.')
+      }
+    } finally {
+      setRegeneratingSection(null)
+    }
+  }
+
+  const handleSaveEdits = async () => {
+    if (!generatedResume || !currentJobHistoryId) return
+
+    setSavingEdits(true)
+    try {
+      // When the row could not be saved after generation, the edits become that row
+      const { data, error } = currentResumeId
+        ? await supabase
+          .from('resume_history')
+          .update({
+            resume_data: generatedResume,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', currentResumeId)
+          .select('id')
+          .single()
+        : await supabase
+          .from('resume_history')
+          .insert({
+            job_history_id: currentJobHistoryId,
+            resume_data: generatedResume,
+            generation_cost: generationMeta?.cost ?? null,
+            input_tokens: generationMeta?.inputTokens ?? null,
+            output_tokens: generationMeta?.outputTokens ?? null,
+            ai_provider: generationMeta?.aiProvider || preferredAI,
+            ai_model: generationMeta?.aiModel || null,
+            profile_snapshot_id: generationMeta?.profileSnapshotId ?? null,
+            prompt_template_id: generationMeta?.promptTemplateId ?? null,
+            prompt_template_version: generationMeta?.promptTemplateVersion ?? null
+          })
+          .select('id')
+          .single()
 
       if (error) {
         console.error('Error saving edits:', error)
         alert('Error saving changes. Please try again.')
       } else {
+        setCurrentResumeId(data.id)
         alert('Changes saved successfully!')
         setIsEditMode(false)
       }
@@ -237,8 +548,9 @@ export function Generate() {
     setJobDescription('')
     setNote('')
     setGeneratedResume(null)
-    setGenerationCost(null)
+    setGenerationMeta(null)
     setCurrentJobHistoryId(null)
+    setCurrentResumeId(null)
   }
 
   if (!hasProfile) {
@@ -268,7 +580,7 @@ export function Generate() {
           <Settings className="h-12 w-12 text-blue-600 mx-auto mb-4" />
           <h2 className="text-xl font-bold text-gray-900 mb-2">Configure AI Settings</h2>
           <p className="text-gray-600 mb-6">
-            Please add your API key in settings to generate resumes.
+            Please add an API key or a self-hosted model in settings to generate resumes.
           </p>
           <Link
             to="/settings"
@@ -327,6 +639,142 @@ export function Generate() {
                   </div>
                 </div>
 
+                {/* Persona */}
+                {personas.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Persona
+                    </label>
+                    <select
+                      value={selectedPersonaId}
+                      onChange={(e) => setSelectedPersonaId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Full profile</option>
+                      {personas.map(persona => (
+                        <option key={persona.id} value={persona.id}>{persona.name}</option>
+                      ))}
+                    </select>
+                    {selectedPersona?.description && (
+                      <p className="text-xs text-gray-500 mt-1">{selectedPersona.description}</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Prompt Template */}
+                {promptTemplates.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Prompt Template
+                    </label>
+                    <select
+                      value={selectedTemplateId}
+                      onChange={(e) => setSelectedTemplateId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Built-in prompt</option>
+                      {promptTemplates.map(template => (
+                        <option key={template.id} value={template.id}>{template.name} (v{template.current_version})</option>
+                      ))}
+                    </select>
+                    {selectedTemplate?.description && (
+                      <p className="text-xs text-gray-500 mt-1">{selectedTemplate.description}</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Generation Controls */}
+                <div className="border border-gray-200 rounded-md p-4">
+                  <h3 className="text-sm font-medium text-gray-900 mb-3">Generation Controls</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Seniority
+                      </label>
+                      <select
+                        value={controls.seniority}
+                        onChange={(e) => updateControls({ seniority: e.target.value as Seniority })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {SENIORITY_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Tone
+                      </label>
+                      <select
+                        value={controls.tone}
+                        onChange={(e) => updateControls({ tone: e.target.value as Tone })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {TONE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Target Length
+                      </label>
+                      <select
+                        value={controls.pageCount}
+                        onChange={(e) => updateControls({ pageCount: parseInt(e.target.value, 10) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {Array.from({ length: PAGE_COUNT_RANGE.max - PAGE_COUNT_RANGE.min + 1 }, (_, i) => PAGE_COUNT_RANGE.min + i).map(pages => (
+                          <option key={pages} value={pages}>{pages} page{pages === 1 ? '' : 's'}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Bullets per Recent Role
+                      </label>
+                      <input
+                        type="number"
+                        min={BULLETS_PER_ROLE_RANGE.min}
+                        max={BULLETS_PER_ROLE_RANGE.max}
+                        value={controls.recentRoleBullets}
+                        onChange={(e) => updateControls({ recentRoleBullets: clampBullets(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Bullets per Older Role
+                      </label>
+                      <input
+                        type="number"
+                        min={BULLETS_PER_ROLE_RANGE.min}
+                        max={BULLETS_PER_ROLE_RANGE.max}
+                        value={controls.olderRoleBullets}
+                        onChange={(e) => updateControls({ olderRoleBullets: clampBullets(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Summary Length
+                      </label>
+                      <select
+                        value={controls.summaryLength}
+                        onChange={(e) => updateControls({ summaryLength: e.target.value as SummaryLength })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {SUMMARY_LENGTH_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Recent roles are your two most recent positions. Roles with few verified achievements may get fewer bullets.
+                  </p>
+                </div>
+
                 {/* Job Description */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -361,15 +809,33 @@ export function Generate() {
                 {/* Cost Estimator */}
                 <CostEstimator
                   jobDescription={jobDescription}
-                  workExperienceCount={workExperienceCount}
+                  workExperienceCount={selectedWorkCount}
                   aiProvider={preferredAI}
                   isVisible={jobDescription.trim().length > 0}
                 />
                 
+                {blockingIssues.length > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                    <div className="flex items-center mb-2">
+                      <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+                      <span className="text-sm font-medium text-red-800">Fix these profile issues before generating</span>
+                    </div>
+                    <ul className="list-disc list-inside space-y-1 mb-2">
+                      {blockingIssues.map((issue, index) => (
+                        <li key={index} className="text-sm text-red-700">{issue.message}</li>
+                      ))}
+                    </ul>
+                    <Link to="/profile" className="text-sm text-red-800 underline hover:text-red-900">
+                      Go to Profile
+                    </Link>
+                  </div>
+                )}
+
+                <div className="flex space-x-3">
                 <button
                   onClick={handleGenerate}
-                  disabled={loading || !companyName.trim() || !role.trim() || !jobDescription.trim()}
-                  className="w-full flex items-center justify-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  disabled={loading || blockingIssues.length > 0 || !companyName.trim() || !role.trim() || !jobDescription.trim()}
+                  className="flex-1 flex items-center justify-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   {loading ? (
                     <>
@@ -383,25 +849,39 @@ export function Generate() {
                     </>
                   )}
                 </button>
+                {loading && (
+                  <button
+                    onClick={handleCancelGeneration}
+                    className="flex items-center space-x-2 px-4 py-3 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    <X className="h-4 w-4" />
+                    <span>Cancel</span>
+                  </button>
+                )}
+                </div>
 
                 {/* Generation Cost Display */}
-                {generationCost !== null && (
+                {generationMeta && (
                   <div className="bg-green-50 border border-green-200 rounded-md p-3">
                     <div className="flex items-center justify-between">
                       <span className="text-sm font-medium text-green-800">
                         Generation Cost
                       </span>
                       <span className="text-sm font-bold text-green-900">
-                        ${generationCost.toFixed(3)}
+                        {generationMeta.cost != null ? formatCost(generationMeta.cost) : 'Unknown'}
                       </span>
                     </div>
                     <p className="text-xs text-green-700 mt-1">
-                      Using {preferredAI === 'openai' ? 'OpenAI GPT-4' : 'Anthropic Claude'} • Saved to history
+                      Using {aiProviderName(generationMeta.aiProvider || preferredAI)}
+                      {generationMeta.aiModel && ` (${generationMeta.aiModel})`}
+                      {generationMeta.inputTokens != null && generationMeta.outputTokens != null &&
+                        ` • ${formatTokenUsage(generationMeta.inputTokens, generationMeta.outputTokens)}`}
+                      {' '}• Saved to history
                     </p>
                   </div>
                 )}
                 
-                {generatedResume && (
+                {generatedResume && !loading && (
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-gray-600">
@@ -460,11 +940,27 @@ export function Generate() {
           {/* Preview Section */}
           <div className="space-y-6">
             {generatedResume ? (
-              <ResumePreview 
-                resume={generatedResume} 
-                onResumeUpdate={handleResumeUpdate}
-                isEditable={isEditMode}
-              />
+              <>
+                {loading && (
+                  <div className="bg-blue-50 border border-blue-200 rounded-md p-3 flex items-center">
+                    <RefreshCw className="h-4 w-4 animate-spin text-blue-600 mr-2" />
+                    <span className="text-sm text-blue-800">Writing your resume. Sections appear as they are generated.</span>
+                  </div>
+                )}
+                {failoverNotice && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 flex items-center">
+                    <AlertCircle className="h-4 w-4 text-yellow-600 mr-2" />
+                    <span className="text-sm text-yellow-800">{failoverNotice}</span>
+                  </div>
+                )}
+                <ResumePreview 
+                  resume={generatedResume} 
+                  onResumeUpdate={handleResumeUpdate}
+                  isEditable={isEditMode}
+                  onRegenerateSection={!loading && currentJobHistoryId ? handleRegenerateSection : undefined}
+                  regeneratingSection={regeneratingSection}
+                />
+              </>
             ) : (
               <div className="bg-white rounded-lg shadow-md p-8 text-center">
                 <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
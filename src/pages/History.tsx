@@ -1,8 +1,81 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
-import { Search, Download, Trash2, Calendar, Building, Briefcase, FileText, Filter, X, ChevronRight, ChevronDown, Eye, ChevronLeft } from 'lucide-react'
+import { Search, Download, Trash2, Calendar, Building, Briefcase, FileText, Filter, X, ChevronRight, ChevronDown, Eye, ChevronLeft, Layers, History as HistoryIcon } from 'lucide-react'
 import { downloadPDF, downloadDocx } from '../services/fileGenerator'
+import { generatedResumeToJsonResume, downloadJsonResume } from '../services/jsonResume'
+import { ProfileSnapshotViewer } from '../components/ProfileSnapshotViewer'
+import { AI_PROVIDERS, aiProviderName, formatCost, formatTokenUsage } from '../services/aiProviders'
+
+interface ClaimVerification {
+  support: 'supported' | 'partial' | 'unsupported'
+  unmatchedMetrics: string[]
+}
+
+interface GeneratedResume {
+  professionalTitle: string
+  professionalSummary: string
+  workExperiences: Array<{
+    company: string
+    position: string
+    startDate: string
+    endDate: string
+    isCurrent: boolean
+    achievements: Array<string | {
+      description: string
+      details: string[]
+    }>
+    verification?: Array<ClaimVerification | null>
+  }>
+  technicalSkills: string[]
+  personalInfo: {
+    name: string
+    email: string
+    phone: string
+    location: string
+    links?: Array<{ label: string; url: string }>
+  }
+  educations: Array<{
+    university: string
+    degree: string
+    startDate: string
+    endDate: string
+  }>
+  certifications?: Array<{
+    name: string
+    issuer: string
+    issueDate: string | null
+    expirationDate: string | null
+    credentialUrl: string | null
+  }>
+  projects?: Array<{
+    name: string
+    description: string
+    role: string | null
+    techStack: string[]
+    url: string | null
+    startDate: string | null
+    endDate: string | null
+  }>
+  publications?: Array<{
+    title: string
+    publisher: string | null
+    publishedDate: string | null
+    url: string | null
+    description: string | null
+  }>
+  languages?: Array<{
+    name: string
+    proficiency: string
+  }>
+  volunteering?: Array<{
+    organization: string
+    role: string
+    startDate: string | null
+    endDate: string | null
+    description: string | null
+  }>
+}
 
 interface JobHistoryItem {
   id: string
@@ -10,12 +83,22 @@ interface JobHistoryItem {
   role: string
   job_description: string
   note: string | null
+  persona: { name: string } | null
   created_at: string
   resume_history: {
     id: string
-    resume_data: any
+    resume_data: GeneratedResume
     generation_cost: number | null
     ai_provider: string
+    ai_model: string | null
+    input_tokens: number | null
+    output_tokens: number | null
+    profile_snapshot_id: string | null
+    revision_of: string | null
+    revision_note: string | null
+    prompt_template_id: string | null
+    prompt_template_version: number | null
+    prompt_template: { name: string } | null
     created_at: string
   }[]
 }
@@ -26,11 +109,12 @@ interface JobHistoryPreview {
   role: string
   job_description_preview: string
   note: string | null
+  persona: { name: string } | null
   created_at: string
   resume_count: number
   latest_resume?: {
     id: string
-    resume_data: any
+    resume_data: GeneratedResume
     generation_cost: number | null
     ai_provider: string
     created_at: string
@@ -60,6 +144,7 @@ export function History() {
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set())
   const [selectedJobDetail, setSelectedJobDetail] = useState<JobHistoryItem | null>(null)
   const [loadingJobDetail, setLoadingJobDetail] = useState(false)
+  const [snapshotResume, setSnapshotResume] = useState<{ snapshotId: string; createdAt: string } | null>(null)
   
   // Pagination state
   const [pagination, setPagination] = useState<PaginationInfo>({
@@ -96,7 +181,8 @@ export function History() {
           role,
           job_description,
           note,
-          created_at
+          created_at,
+          persona:personas(name)
         `)
         .eq('user_id', user.id)
 
@@ -141,7 +227,8 @@ export function History() {
 
       query = query.order('created_at', { ascending: false })
 
-      const { data: jobData, error } = await query
+      // The untyped client reads the persona embed as a list; it is one row or null
+      const { data: jobData, error } = await query.overrideTypes<Array<Omit<JobHistoryItem, 'resume_history'>>, { merge: false }>()
 
       if (error) {
         console.error('Error loading history previews:', error)
@@ -168,6 +255,7 @@ export function History() {
           role: job.role,
           job_description_preview: job.job_description.substring(0, 120) + '...',
           note: job.note,
+          persona: job.persona,
           created_at: job.created_at,
           resume_count: jobResumes.length,
           latest_resume: latestResume ? {
@@ -218,7 +306,7 @@ export function History() {
     try {
       const { data: jobData, error: jobError } = await supabase
         .from('job_history')
-        .select('*')
+        .select('*, persona:personas(name)')
         .eq('id', jobId)
         .eq('user_id', user.id)
         .single()
@@ -230,7 +318,7 @@ export function History() {
 
       const { data: resumeData, error: resumeError } = await supabase
         .from('resume_history')
-        .select('*')
+        .select('*, prompt_template:prompt_templates(name)')
         .eq('job_history_id', jobId)
         .order('created_at', { ascending: false })
 
@@ -381,10 +469,12 @@ export function History() {
     }
   }
 
-  const handleDownloadResume = async (resumeData: any, format: 'pdf' | 'docx', companyName: string, role: string) => {
+  const handleDownloadResume = async (resumeData: GeneratedResume, format: 'pdf' | 'docx' | 'json') => {
     try {
       if (format === 'pdf') {
         await downloadPDF(resumeData)
+      } else if (format === 'json') {
+        downloadJsonResume(generatedResumeToJsonResume(resumeData), 'resume.json')
       } else {
         await downloadDocx(resumeData)
       }
@@ -700,8 +790,9 @@ export function History() {
                             className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                           >
                             <option value="">All Providers</option>
-                            <option value="openai">OpenAI</option>
-                            <option value="anthropic">Anthropic</option>
+                            {AI_PROVIDERS.map(provider => (
+                              <option key={provider.id} value={provider.id}>{provider.name}</option>
+                            ))}
                           </select>
                         </div>
                       </div>
@@ -767,6 +858,11 @@ export function History() {
                                   <Briefcase className="h-4 w-4 text-gray-400" />
                                   <span className="text-gray-700 text-sm">{item.role}</span>
                                 </div>
+                                {item.persona && (
+                                  <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
+                                    {item.persona.name}
+                                  </span>
+                                )}
                                 <button className="text-blue-600 hover:text-blue-800">
                                   <Eye className="h-4 w-4" />
                                 </button>
@@ -812,19 +908,27 @@ export function History() {
                                 {item.latest_resume && (
                                   <div className="flex items-center space-x-1">
                                     <button
-                                      onClick={() => handleDownloadResume(item.latest_resume!.resume_data, 'pdf', item.company_name, item.role)}
+                                      onClick={() => handleDownloadResume(item.latest_resume!.resume_data, 'pdf')}
                                       className="flex items-center space-x-1 px-2 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700 transition-colors"
                                     >
                                       <Download className="h-3 w-3" />
                                       <span>PDF</span>
                                     </button>
                                     <button
-                                      onClick={() => handleDownloadResume(item.latest_resume!.resume_data, 'docx', item.company_name, item.role)}
+                                      onClick={() => handleDownloadResume(item.latest_resume!.resume_data, 'docx')}
                                       className="flex items-center space-x-1 px-2 py-1 bg-purple-600 text-white text-xs rounded hover:bg-purple-700 transition-colors"
                                     >
                                       <Download className="h-3 w-3" />
                                       <span>DOCX</span>
                                     </button>
+                                    <button
+                                      onClick={() => handleDownloadResume(item.latest_resume!.resume_data, 'json')}
+                                      className="flex items-center space-x-1 px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
+                                      title="JSON Resume (resume.json)"
+                                    >
+                                      <Download className="h-3 w-3" />
+                                      <span>JSON</span>
+                                    </button>
                                   </div>
                                 )}
                               </div>
@@ -877,6 +981,12 @@ export function History() {
                         <Briefcase className="h-4 w-4 text-gray-400" />
                         <span className="text-gray-700">{selectedJobDetail.role}</span>
                       </div>
+                      {selectedJobDetail.persona && (
+                        <div className="flex items-center space-x-2 mb-2">
+                          <Layers className="h-4 w-4 text-gray-400" />
+                          <span className="text-sm text-gray-700">Persona: {selectedJobDetail.persona.name}</span>
+                        </div>
+                      )}
                       <div className="flex items-center space-x-2">
                         <Calendar className="h-4 w-4 text-gray-400" />
                         <span className="text-sm text-gray-500">{formatDate(selectedJobDetail.created_at)}</span>
@@ -913,11 +1023,16 @@ export function History() {
                               <div className="flex items-center justify-between mb-2">
                                 <div className="flex items-center space-x-2">
                                   <span className="text-xs font-medium text-blue-900">
-                                    {resume.ai_provider === 'openai' ? 'OpenAI' : 'Anthropic'}
+                                    {aiProviderName(resume.ai_provider)}{resume.ai_model && ` · ${resume.ai_model}`}
                                   </span>
-                                  {resume.generation_cost && (
+                                  {!!resume.generation_cost && (
                                     <span className="text-xs text-green-700 bg-green-100 px-2 py-1 rounded">
-                                      ${resume.generation_cost.toFixed(3)}
+                                      {formatCost(resume.generation_cost)}
+                                    </span>
+                                  )}
+                                  {resume.input_tokens != null && resume.output_tokens != null && (
+                                    <span className="text-xs text-blue-700">
+                                      {formatTokenUsage(resume.input_tokens, resume.output_tokens)}
                                     </span>
                                   )}
                                 </div>
@@ -925,22 +1040,47 @@ export function History() {
                                   {formatDate(resume.created_at)}
                                 </span>
                               </div>
+                              {resume.revision_note && (
+                                <p className="text-xs text-blue-800 mb-2">Revision: {resume.revision_note}</p>
+                              )}
+                              {resume.prompt_template_version != null && (
+                                <p className="text-xs text-blue-800 mb-2">
+                                  Prompt template: {resume.prompt_template?.name || 'deleted template'} v{resume.prompt_template_version}
+                                </p>
+                              )}
                               <div className="flex space-x-2">
                                 <button
-                                  onClick={() => handleDownloadResume(resume.resume_data, 'pdf', selectedJobDetail.company_name, selectedJobDetail.role)}
+                                  onClick={() => handleDownloadResume(resume.resume_data, 'pdf')}
                                   className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 bg-green-600 text-white text-sm rounded hover:bg-green-700 transition-colors"
                                 >
                                   <Download className="h-3 w-3" />
                                   <span>PDF</span>
                                 </button>
                                 <button
-                                  onClick={() => handleDownloadResume(resume.resume_data, 'docx', selectedJobDetail.company_name, selectedJobDetail.role)}
+                                  onClick={() => handleDownloadResume(resume.resume_data, 'docx')}
                                   className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 bg-purple-600 text-white text-sm rounded hover:bg-purple-700 transition-colors"
                                 >
                                   <Download className="h-3 w-3" />
                                   <span>DOCX</span>
                                 </button>
+                                <button
+                                  onClick={() => handleDownloadResume(resume.resume_data, 'json')}
+                                  className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 bg-gray-600 text-white text-sm rounded hover:bg-gray-700 transition-colors"
+                                  title="JSON Resume (resume.json)"
+                                >
+                                  <Download className="h-3 w-3" />
+                                  <span>JSON</span>
+                                </button>
                               </div>
+                              {resume.profile_snapshot_id && (
+                                <button
+                                  onClick={() => setSnapshotResume({ snapshotId: resume.profile_snapshot_id!, createdAt: resume.created_at })}
+                                  className="mt-2 w-full flex items-center justify-center space-x-1 px-3 py-2 border border-blue-300 text-blue-700 text-sm rounded hover:bg-blue-100 transition-colors"
+                                >
+                                  <HistoryIcon className="h-3 w-3" />
+                                  <span>Profile Snapshot</span>
+                                </button>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -961,6 +1101,15 @@ export function History() {
           </div>
         </div>
       </div>
+
+      {snapshotResume && user && (
+        <ProfileSnapshotViewer
+          snapshotId={snapshotResume.snapshotId}
+          userId={user.id}
+          generatedAt={snapshotResume.createdAt}
+          onClose={() => setSnapshotResume(null)}
+        />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
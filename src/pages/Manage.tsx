@@ -24,6 +24,7 @@ import {
   Clock
 } from 'lucide-react'
 import { downloadPDF, downloadDocx } from '../services/fileGenerator'
+import { AI_PROVIDERS, aiProviderName, formatCost, formatTokenUsage, hasConfiguredProvider } from '../services/aiProviders'
 
 interface UserProfile {
   id: string
@@ -70,6 +71,13 @@ interface JobHistory {
     resume_data: any
     generation_cost: number | null
     ai_provider: string
+    ai_model: string | null
+    input_tokens: number | null
+    output_tokens: number | null
+    revision_of: string | null
+    revision_note: string | null
+    prompt_template_id: string | null
+    prompt_template_version: number | null
     created_at: string
   }[]
 }
@@ -77,6 +85,13 @@ interface JobHistory {
 interface UserSettings {
   openai_key: string | null
   anthropic_key: string | null
+  gemini_key: string | null
+  mistral_key: string | null
+  azure_openai_key: string | null
+  azure_openai_endpoint: string | null
+  azure_openai_deployment: string | null
+  openai_compatible_base_url: string | null
+  openai_compatible_model: string | null
   preferred_ai: string
   created_at: string
   updated_at: string
@@ -189,6 +204,7 @@ export function Manage() {
           .from('work_experiences')
           .select('*')
           .eq('profile_id', selectedUser.id)
+          .order('sort_order', { ascending: true })
           .order('start_date', { ascending: false }),
         supabase
           .from('educations')
@@ -284,6 +300,14 @@ export function Manage() {
     }, 0)
   }
 
+  const calculateTotalTokens = (jobHistory: JobHistory[]) => {
+    return jobHistory.reduce((total, job) => {
+      return total + job.resume_history.reduce((jobTotal, resume) => {
+        return jobTotal + (resume.input_tokens || 0) + (resume.output_tokens || 0)
+      }, 0)
+    }, 0)
+  }
+
   if (!user) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -479,6 +503,11 @@ export function Manage() {
                                 ${calculateTotalCost(userDetails.jobHistory).toFixed(2)} total cost
                               </span>
                             </div>
+                            <div className="flex items-center space-x-1">
+                              <span className="text-gray-600 font-medium">
+                                {calculateTotalTokens(userDetails.jobHistory).toLocaleString()} tokens
+                              </span>
+                            </div>
                             <div className="flex items-center space-x-1">
                               <Clock className="h-4 w-4 text-blue-600" />
                               <span className="text-blue-700 font-medium">
@@ -602,11 +631,26 @@ export function Manage() {
                                                 #{index + 1}
                                               </span>
                                               <span className="text-xs font-medium text-blue-900 bg-blue-100 px-2 py-1 rounded">
-                                                {resume.ai_provider === 'openai' ? 'OpenAI' : 'Anthropic'}
+                                                {aiProviderName(resume.ai_provider)}{resume.ai_model && ` · ${resume.ai_model}`}
                                               </span>
-                                              {resume.generation_cost && (
+                                              {!!resume.generation_cost && (
                                                 <span className="text-xs text-green-700 bg-green-100 px-2 py-1 rounded">
-                                                  ${resume.generation_cost.toFixed(3)}
+                                                  {formatCost(resume.generation_cost)}
+                                                </span>
+                                              )}
+                                              {resume.input_tokens != null && resume.output_tokens != null && (
+                                                <span className="text-xs text-gray-500">
+                                                  {formatTokenUsage(resume.input_tokens, resume.output_tokens)}
+                                                </span>
+                                              )}
+                                              {resume.prompt_template_version != null && (
+                                                <span className="text-xs text-gray-700 bg-gray-100 px-2 py-1 rounded">
+                                                  Template v{resume.prompt_template_version}
+                                                </span>
+                                              )}
+                                              {resume.revision_note && (
+                                                <span className="text-xs text-purple-700 bg-purple-100 px-2 py-1 rounded">
+                                                  {resume.revision_note}
                                                 </span>
                                               )}
                                               <span className="text-xs text-gray-500">
@@ -702,18 +746,17 @@ export function Manage() {
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div>
                             <label className="text-sm font-medium text-gray-700">Preferred AI</label>
-                            <p className="text-sm text-gray-900 capitalize">{userDetails.settings.preferred_ai}</p>
+                            <p className="text-sm text-gray-900">{aiProviderName(userDetails.settings.preferred_ai)}</p>
                           </div>
                           <div>
-                            <label className="text-sm font-medium text-gray-700">API Keys Configured</label>
-                            <div className="flex space-x-2 mt-1">
-                              {userDetails.settings.openai_key && (
-                                <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">OpenAI</span>
-                              )}
-                              {userDetails.settings.anthropic_key && (
-                                <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">Anthropic</span>
-                              )}
-                              {!userDetails.settings.openai_key && !userDetails.settings.anthropic_key && (
+                            <label className="text-sm font-medium text-gray-700">Providers Configured</label>
+                            <div className="flex flex-wrap gap-2 mt-1">
+                              {AI_PROVIDERS.filter(provider => provider.isConfigured(userDetails.settings!)).map(provider => (
+                                <span key={provider.id} className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                                  {provider.name}
+                                </span>
+                              ))}
+                              {!hasConfiguredProvider(userDetails.settings) && (
                                 <span className="text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded">None</span>
                               )}
                             </div>
@@ -0,0 +1,318 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase } from '../lib/supabase'
+import { Plus, Trash2, Save, AlertCircle, Layers } from 'lucide-react'
+
+interface Persona {
+  id?: string
+  name: string
+  description: string
+  work_experience_ids: string[]
+  education_ids: string[]
+  skill_ids: string[]
+}
+
+interface SelectableItem {
+  id: string
+  label: string
+  detail: string
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500'
+
+export function Personas() {
+  const { user } = useAuth()
+  const [loading, setLoading] = useState(true)
+  const [savingIndex, setSavingIndex] = useState<number | null>(null)
+  const [error, setError] = useState('')
+  const [profileId, setProfileId] = useState<string | null>(null)
+  const [personas, setPersonas] = useState<Persona[]>([])
+  const [workOptions, setWorkOptions] = useState<SelectableItem[]>([])
+  const [educationOptions, setEducationOptions] = useState<SelectableItem[]>([])
+  const [skillOptions, setSkillOptions] = useState<SelectableItem[]>([])
+
+  const loadPersonas = useCallback(async () => {
+    try {
+      const { data: profileData } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('user_id', user?.id)
+        .maybeSingle()
+
+      if (!profileData) return
+      setProfileId(profileData.id)
+
+      const [personaResponse, workResponse, eduResponse, skillResponse] = await Promise.all([
+        supabase.from('personas').select('*').eq('profile_id', profileData.id).order('created_at', { ascending: true }),
+        supabase.from('work_experiences').select('id, company, position').eq('profile_id', profileData.id).order('sort_order', { ascending: true }).order('start_date', { ascending: false }),
+        supabase.from('educations').select('id, university, degree').eq('profile_id', profileData.id).order('start_date', { ascending: false }),
+        supabase.from('skills').select('id, name, category').eq('profile_id', profileData.id).order('category', { ascending: true })
+      ])
+
+      if (personaResponse.error) {
+        console.error('Error loading personas:', personaResponse.error)
+        setError(`Failed to load personas: ${personaResponse.error.message}`)
+      }
+
+      setPersonas((personaResponse.data || []).map(persona => ({
+        ...persona,
+        description: persona.description || ''
+      })))
+      setWorkOptions((workResponse.data || []).map(work => ({ id: work.id, label: work.position, detail: work.company })))
+      setEducationOptions((eduResponse.data || []).map(edu => ({ id: edu.id, label: edu.degree, detail: edu.university })))
+      setSkillOptions((skillResponse.data || []).map(skill => ({ id: skill.id, label: skill.name, detail: skill.category })))
+    } catch (error) {
+      console.error('Error loading personas:', error)
+      setError('Failed to load personas')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (user) {
+      loadPersonas()
+    }
+  }, [user, loadPersonas])
+
+  const addPersona = () => {
+    // New personas start with everything selected so the user trims rather than builds
+    setPersonas([...personas, {
+      name: '',
+      description: '',
+      work_experience_ids: workOptions.map(option => option.id),
+      education_ids: educationOptions.map(option => option.id),
+      skill_ids: skillOptions.map(option => option.id)
+    }])
+  }
+
+  const updatePersona = (index: number, changes: Partial<Persona>) => {
+    setPersonas(personas.map((persona, i) => i === index ? { ...persona, ...changes } : persona))
+  }
+
+  const toggleSelection = (index: number, key: 'work_experience_ids' | 'education_ids' | 'skill_ids', id: string) => {
+    const selected = personas[index][key]
+    updatePersona(index, {
+      [key]: selected.includes(id) ? selected.filter(selectedId => selectedId !== id) : [...selected, id]
+    })
+  }
+
+  const savePersona = async (index: number) => {
+    const persona = personas[index]
+    if (!profileId) return
+
+    if (!persona.name.trim()) {
+      setError('Persona name is required')
+      return
+    }
+
+    if (persona.work_experience_ids.length === 0) {
+      setError(`Persona "${persona.name}" needs at least one work experience`)
+      return
+    }
+
+    setSavingIndex(index)
+    setError('')
+
+    try {
+      const personaData = {
+        name: persona.name.trim(),
+        description: persona.description.trim() || null,
+        work_experience_ids: persona.work_experience_ids,
+        education_ids: persona.education_ids,
+        skill_ids: persona.skill_ids,
+        updated_at: new Date().toISOString()
+      }
+
+      const { data, error } = persona.id
+        ? await supabase.from('personas').update(personaData).eq('id', persona.id).select().single()
+        : await supabase.from('personas').insert({ ...personaData, profile_id: profileId }).select().single()
+
+      if (error) {
+        throw error
+      }
+
+      updatePersona(index, { id: data.id, name: data.name })
+    } catch (error) {
+      console.error('Error saving persona:', error)
+      setError(error instanceof Error ? error.message : 'Error saving persona. Please try again.')
+    } finally {
+      setSavingIndex(null)
+    }
+  }
+
+  const removePersona = async (index: number) => {
+    const persona = personas[index]
+    if (persona.id) {
+      if (!confirm(`Delete persona "${persona.name}"? Past applications keep their resumes but lose the persona label.`)) {
+        return
+      }
+
+      const { error } = await supabase.from('personas').delete().eq('id', persona.id)
+      if (error) {
+        console.error('Error deleting persona:', error)
+        setError(`Failed to delete persona: ${error.message}`)
+        return
+      }
+    }
+    setPersonas(personas.filter((_, i) => i !== index))
+  }
+
+  const renderSelection = (
+    index: number,
+    title: string,
+    key: 'work_experience_ids' | 'education_ids' | 'skill_ids',
+    options: SelectableItem[]
+  ) => (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">
+        {title} ({personas[index][key].filter(id => options.some(option => option.id === id)).length}/{options.length})
+      </h4>
+      {options.length === 0 ? (
+        <p className="text-xs text-gray-500">Nothing saved on your profile yet.</p>
+      ) : (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {options.map(option => (
+            <label key={option.id} className="flex items-start text-sm">
+              <input
+                type="checkbox"
+                checked={personas[index][key].includes(option.id)}
+                onChange={() => toggleSelection(index, key, option.id)}
+                className="h-4 w-4 mt-0.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2 text-gray-700">
+                {option.label} <span className="text-gray-500">- {option.detail}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!profileId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-md p-6 text-center">
+          <Layers className="h-12 w-12 text-blue-600 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Complete Your Profile</h2>
+          <p className="text-gray-600 mb-6">
+            Personas are built from your profile, so save it first.
+          </p>
+          <Link
+            to="/profile"
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Go to Profile
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Personas</h1>
+              <p className="text-gray-600 mt-1">
+                Curate separate experience and skill sets for each career track you apply to
+              </p>
+            </div>
+            <button
+              onClick={addPersona}
+              className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Persona</span>
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 flex items-center">
+                <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+                <span className="text-sm text-red-600">{error}</span>
+              </div>
+            )}
+
+            {personas.length === 0 && (
+              <p className="text-gray-500 text-center py-8">
+                No personas yet. Without one, resumes are generated from your full profile.
+              </p>
+            )}
+
+            {personas.map((persona, index) => (
+              <div key={persona.id || `new-${index}`} className="border border-gray-200 rounded-md p-4">
+                <div className="flex justify-between items-start mb-4">
+                  <h3 className="text-lg font-medium text-gray-900">{persona.name || `Persona ${index + 1}`}</h3>
+                  <button
+                    onClick={() => removePersona(index)}
+                    className="text-red-600 hover:text-red-800 transition-colors"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Name
+                    </label>
+                    <input
+                      type="text"
+                      value={persona.name}
+                      onChange={(e) => updatePersona(index, { name: e.target.value })}
+                      className={inputClassName}
+                      placeholder="e.g., Backend Engineering"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Description
+                    </label>
+                    <input
+                      type="text"
+                      value={persona.description}
+                      onChange={(e) => updatePersona(index, { description: e.target.value })}
+                      className={inputClassName}
+                      placeholder="e.g., Distributed systems and API platform roles"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {renderSelection(index, 'Work Experience', 'work_experience_ids', workOptions)}
+                  {renderSelection(index, 'Education', 'education_ids', educationOptions)}
+                  {renderSelection(index, 'Skills', 'skill_ids', skillOptions)}
+                </div>
+
+                <div className="flex justify-end mt-4">
+                  <button
+                    onClick={() => savePersona(index)}
+                    disabled={savingIndex !== null}
+                    className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Save className="h-4 w-4" />
+                    <span>{savingIndex === index ? 'Saving...' : 'Save Persona'}</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,14 @@
 import React, { useState, useEffect } from 'react'
 import { useAuth } from '../contexts/AuthContext'
-import { supabase } from '../lib/supabase'
-import { Plus, Trash2, Save } from 'lucide-react'
+import { supabase, ProfileDocument } from '../lib/supabase'
+import { Plus, Trash2, Save, Upload, Download, GripVertical } from 'lucide-react'
+import { ProfileSectionEditor, SectionField } from '../components/ProfileSectionEditor'
+import { ResumeImport } from '../components/ResumeImport'
+import { ParsedResume } from '../services/resumeImporter'
+import { profileToJsonResume, downloadJsonResume } from '../services/jsonResume'
+import { validateProfile, DEFAULT_GAP_THRESHOLD_MONTHS } from '../services/profileValidator'
+import { ProfileValidationReport, FieldIssues } from '../components/ProfileValidationReport'
+import { ProfileLinkType, PROFILE_LINK_TYPES, detectLinkType, defaultLinkLabel, normalizeLinkUrl } from '../services/profileLinks'
 
 interface Profile {
   id?: string
@@ -9,6 +16,23 @@ interface Profile {
   email: string
   phone: string
   location: string
+  updated_at?: string
+}
+
+interface ProfileLink {
+  id?: string
+  link_type: ProfileLinkType
+  label: string
+  url: string
+  sort_order?: number
+}
+
+interface Achievement {
+  id?: string
+  description: string
+  metrics: string
+  tech_stack: string[]
+  team_context: string
 }
 
 interface WorkExperience {
@@ -18,8 +42,16 @@ interface WorkExperience {
   start_date: string
   end_date: string
   is_current: boolean
+  description: string
+  team_size: number | null
+  tech_stack: string[]
+  industry: string
+  employment_type: EmploymentType
+  achievements: Achievement[]
 }
 
+type EmploymentType = 'full_time' | 'contract' | 'internship'
+
 interface Education {
   id?: string
   university: string
@@ -28,6 +60,219 @@ interface Education {
   end_date: string
 }
 
+type SkillProficiency = 'beginner' | 'intermediate' | 'advanced' | 'expert'
+
+interface Skill {
+  id?: string
+  name: string
+  category: string
+  proficiency: SkillProficiency
+  years_of_use: number
+  last_used: string
+}
+
+interface Certification {
+  id?: string
+  name: string
+  issuer: string
+  issue_date: string
+  expiration_date: string
+  credential_id: string
+  credential_url: string
+}
+
+interface Project {
+  id?: string
+  name: string
+  description: string
+  role: string
+  tech_stack: string[]
+  url: string
+  start_date: string
+  end_date: string
+}
+
+interface Publication {
+  id?: string
+  title: string
+  publisher: string
+  published_date: string
+  url: string
+  description: string
+}
+
+type LanguageProficiency = 'elementary' | 'limited_working' | 'professional_working' | 'full_professional' | 'native'
+
+interface SpokenLanguage {
+  id?: string
+  name: string
+  proficiency: LanguageProficiency
+}
+
+interface VolunteerExperience {
+  id?: string
+  organization: string
+  role: string
+  start_date: string
+  end_date: string
+  description: string
+}
+
+const linkFields: SectionField<ProfileLink>[] = [
+  { key: 'link_type', label: 'Type', type: 'select', options: PROFILE_LINK_TYPES },
+  { key: 'url', label: 'URL', type: 'url', placeholder: 'https://github.com/your-name' },
+  { key: 'label', label: 'Label', placeholder: 'Shown on the resume, e.g. github.com/your-name', fullWidth: true }
+]
+
+const certificationFields: SectionField<Certification>[] = [
+  { key: 'name', label: 'Certification', required: true, placeholder: 'e.g. AWS Certified Solutions Architect' },
+  { key: 'issuer', label: 'Issuer', required: true, placeholder: 'e.g. Amazon Web Services' },
+  { key: 'issue_date', label: 'Issue Date', type: 'date' },
+  { key: 'expiration_date', label: 'Expiration Date', type: 'date' },
+  { key: 'credential_id', label: 'Credential ID', placeholder: 'Optional' },
+  { key: 'credential_url', label: 'Credential URL', type: 'url', placeholder: 'https://...' }
+]
+
+const projectFields: SectionField<Project>[] = [
+  { key: 'name', label: 'Project Name', required: true, placeholder: 'e.g. Open-source budget tracker' },
+  { key: 'role', label: 'Your Role', placeholder: 'e.g. Creator and maintainer' },
+  { key: 'description', label: 'Description', type: 'textarea', required: true, placeholder: 'What it does and what you built' },
+  { key: 'tech_stack', label: 'Tech Stack', type: 'tags', placeholder: 'Comma separated' },
+  { key: 'url', label: 'URL', type: 'url', placeholder: 'https://...' },
+  { key: 'start_date', label: 'Start Date', type: 'date' },
+  { key: 'end_date', label: 'End Date', type: 'date' }
+]
+
+const publicationFields: SectionField<Publication>[] = [
+  { key: 'title', label: 'Title', required: true, placeholder: 'Publication title', fullWidth: true },
+  { key: 'publisher', label: 'Publisher', placeholder: 'Journal, conference or blog' },
+  { key: 'published_date', label: 'Published Date', type: 'date' },
+  { key: 'url', label: 'URL', type: 'url', placeholder: 'https://...', fullWidth: true },
+  { key: 'description', label: 'Description', type: 'textarea', placeholder: 'Optional summary' }
+]
+
+const languageFields: SectionField<SpokenLanguage>[] = [
+  { key: 'name', label: 'Language', required: true, placeholder: 'e.g. Spanish' },
+  {
+    key: 'proficiency',
+    label: 'Proficiency',
+    type: 'select',
+    options: [
+      { value: 'elementary', label: 'Elementary' },
+      { value: 'limited_working', label: 'Limited working' },
+      { value: 'professional_working', label: 'Professional working' },
+      { value: 'full_professional', label: 'Full professional' },
+      { value: 'native', label: 'Native or bilingual' }
+    ]
+  }
+]
+
+const volunteerFields: SectionField<VolunteerExperience>[] = [
+  { key: 'organization', label: 'Organization', required: true, placeholder: 'Organization name' },
+  { key: 'role', label: 'Role', required: true, placeholder: 'e.g. Mentor' },
+  { key: 'start_date', label: 'Start Date', type: 'date' },
+  { key: 'end_date', label: 'End Date', type: 'date' },
+  { key: 'description', label: 'Description', type: 'textarea', placeholder: 'What you did' }
+]
+
+// Form state keeps empty strings for inputs; the database stores nulls
+function nullsToEmpty<T>(row: Record<string, unknown>): T {
+  return Object.fromEntries(Object.entries(row).map(([key, value]) => [key, value ?? ''])) as T
+}
+
+function emptyToNull(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).map(([key, value]) => [
+    key,
+    Array.isArray(value)
+      ? value.map(item => String(item).trim()).filter(Boolean)
+      : value === '' ? null : value
+  ]))
+}
+
+interface RequiredField<T> {
+  key: keyof T
+  label: string
+}
+
+// NOT NULL columns of work_experiences and educations. save_profile applies the
+// whole form in one transaction, so a single incomplete row would fail all of it.
+const REQUIRED_WORK_FIELDS: RequiredField<WorkExperience>[] = [
+  { key: 'company', label: 'Company' },
+  { key: 'position', label: 'Position' },
+  { key: 'start_date', label: 'Start Date' }
+]
+
+const REQUIRED_EDUCATION_FIELDS: RequiredField<Education>[] = [
+  { key: 'university', label: 'University' },
+  { key: 'degree', label: 'Degree' },
+  { key: 'start_date', label: 'Start Date' },
+  { key: 'end_date', label: 'End Date' }
+]
+
+function missingFields<T>(row: T, required: RequiredField<T>[]): string[] {
+  return required.filter(field => !String(row[field.key] ?? '').trim()).map(field => field.label)
+}
+
+// One line per row that leaves a required field blank, e.g. "Experience 2 is
+// missing Position". With ignoreBlankRows, rows left entirely blank are not
+// reported; toDocumentRows drops those instead.
+function describeIncompleteRows<T>(rows: T[], itemLabel: string, required: RequiredField<T>[], ignoreBlankRows = false): string[] {
+  return rows.flatMap((row, index) => {
+    const missing = missingFields(row, required)
+    if (missing.length === 0 || (ignoreBlankRows && missing.length === required.length)) return []
+    return [`${itemLabel} ${index + 1} is missing ${missing.join(', ')}`]
+  })
+}
+
+function describeIncompleteSectionRows<T>(rows: T[], itemLabel: string, fields: SectionField<T>[]): string[] {
+  return describeIncompleteRows(rows, itemLabel, fields.filter(field => field.required), true)
+}
+
+// One line per URL field that normalizeLinkUrl rejects, e.g. a javascript: link
+// brought in by an import
+function describeInvalidUrls<T>(rows: T[], itemLabel: string, fields: SectionField<T>[]): string[] {
+  const urlFields = fields.filter(field => field.type === 'url')
+  return rows.flatMap((row, index) => urlFields
+    .filter(field => String(row[field.key] ?? '').trim() && !normalizeLinkUrl(String(row[field.key])))
+    .map(field => `${itemLabel} ${index + 1} has an unsupported ${field.label} (only http and https links can be saved)`))
+}
+
+// Rows of one profile section as sent to save_profile. Rows with every
+// required field blank are left out, which deletes them if they were saved
+// before; partly filled ones are rejected by describeIncompleteSectionRows.
+function toDocumentRows<T extends { id?: string }>(rows: T[], fields: SectionField<T>[]): Record<string, unknown>[] {
+  const required = fields.filter(field => field.required)
+  const urlFields = fields.filter(field => field.type === 'url')
+  return rows
+    .filter(row => missingFields(row, required).length === 0)
+    .map(row => {
+      const documentRow = emptyToNull(row as Record<string, unknown>)
+      urlFields.forEach(field => {
+        if (documentRow[field.key]) documentRow[field.key] = normalizeLinkUrl(String(documentRow[field.key]))
+      })
+      return documentRow
+    })
+}
+
+const EMPLOYMENT_TYPES: Array<{ value: EmploymentType; label: string }> = [
+  { value: 'full_time', label: 'Full-time' },
+  { value: 'contract', label: 'Contract' },
+  { value: 'internship', label: 'Internship' }
+]
+
+const SKILL_CATEGORIES = [
+  'Programming Languages',
+  'Frontend Development',
+  'Backend Technologies',
+  'Database Systems',
+  'Cloud Platforms',
+  'DevOps & Infrastructure',
+  'Testing & Quality Assurance',
+  'Data Science & Analytics',
+  'Mobile Development',
+  'Methodologies & Practices'
+]
+
 export function Profile() {
   const { user } = useAuth()
   const [loading, setLoading] = useState(true)
@@ -41,6 +286,22 @@ export function Profile() {
   })
   const [workExperiences, setWorkExperiences] = useState<WorkExperience[]>([])
   const [educations, setEducations] = useState<Education[]>([])
+  const [skills, setSkills] = useState<Skill[]>([])
+  const [certifications, setCertifications] = useState<Certification[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [publications, setPublications] = useState<Publication[]>([])
+  const [languages, setLanguages] = useState<SpokenLanguage[]>([])
+  const [volunteerExperiences, setVolunteerExperiences] = useState<VolunteerExperience[]>([])
+  const [links, setLinks] = useState<ProfileLink[]>([])
+  const [showImport, setShowImport] = useState(false)
+  const [importNotice, setImportNotice] = useState('')
+  const [gapThresholdMonths, setGapThresholdMonths] = useState(DEFAULT_GAP_THRESHOLD_MONTHS)
+  const [saveConflict, setSaveConflict] = useState(false)
+  // Cards only become draggable while the grip handle is held so text inside
+  // the inputs can still be selected
+  const [dragHandleIndex, setDragHandleIndex] = useState<number | null>(null)
+  const [draggedWorkIndex, setDraggedWorkIndex] = useState<number | null>(null)
+  const [dragOverWorkIndex, setDragOverWorkIndex] = useState<number | null>(null)
 
   useEffect(() => {
     if (user) {
@@ -91,15 +352,27 @@ export function Profile() {
         // Load work experiences
         const { data: workData, error: workError } = await supabase
           .from('work_experiences')
-          .select('*')
+          .select('*, achievements(*)')
           .eq('profile_id', profileData.id)
+          .order('sort_order', { ascending: true })
           .order('start_date', { ascending: false })
+          .order('created_at', { referencedTable: 'achievements', ascending: true })
 
         if (workError) {
           console.error('Error loading work experiences:', workError)
           setError(`Failed to load work experiences: ${workError.message}`)
         } else if (workData) {
-          setWorkExperiences(workData)
+          setWorkExperiences(workData.map(work => ({
+            ...work,
+            description: work.description || '',
+            tech_stack: work.tech_stack || [],
+            industry: work.industry || '',
+            achievements: (work.achievements || []).map((achievement: Achievement) => ({
+              ...achievement,
+              metrics: achievement.metrics || '',
+              team_context: achievement.team_context || ''
+            }))
+          })))
         }
 
         // Load educations
@@ -115,6 +388,58 @@ export function Profile() {
         } else if (eduData) {
           setEducations(eduData)
         }
+
+        // Load skills
+        const { data: skillData, error: skillError } = await supabase
+          .from('skills')
+          .select('*')
+          .eq('profile_id', profileData.id)
+          .order('category', { ascending: true })
+          .order('years_of_use', { ascending: false })
+
+        if (skillError) {
+          console.error('Error loading skills:', skillError)
+          setError(`Failed to load skills: ${skillError.message}`)
+        } else if (skillData) {
+          setSkills(skillData.map(skill => ({
+            ...skill,
+            last_used: skill.last_used || ''
+          })))
+        }
+
+        // Load additional resume sections
+        const sectionQuery = (table: string) => supabase
+          .from(table)
+          .select('*')
+          .eq('profile_id', profileData.id)
+          .order('created_at', { ascending: true })
+
+        const [certResponse, projectResponse, publicationResponse, languageResponse, volunteerResponse, linkResponse] = await Promise.all([
+          sectionQuery('certifications'),
+          sectionQuery('projects'),
+          sectionQuery('publications'),
+          sectionQuery('languages'),
+          sectionQuery('volunteer_experiences'),
+          supabase
+            .from('profile_links')
+            .select('*')
+            .eq('profile_id', profileData.id)
+            .order('sort_order', { ascending: true })
+        ])
+
+        const sectionError = [certResponse, projectResponse, publicationResponse, languageResponse, volunteerResponse, linkResponse]
+          .find(response => response.error)?.error
+        if (sectionError) {
+          console.error('Error loading resume sections:', sectionError)
+          setError(`Failed to load resume sections: ${sectionError.message}`)
+        } else {
+          setCertifications((certResponse.data || []).map(row => nullsToEmpty<Certification>(row)))
+          setProjects((projectResponse.data || []).map(row => nullsToEmpty<Project>(row)))
+          setPublications((publicationResponse.data || []).map(row => nullsToEmpty<Publication>(row)))
+          setLanguages((languageResponse.data || []).map(row => nullsToEmpty<SpokenLanguage>(row)))
+          setVolunteerExperiences((volunteerResponse.data || []).map(row => nullsToEmpty<VolunteerExperience>(row)))
+          setLinks(linkResponse.data || [])
+        }
       }
     } catch (error) {
       console.error('Unexpected error loading profile:', error)
@@ -134,101 +459,96 @@ export function Profile() {
       return
     }
     
+    const incompleteRows = [
+      ...describeIncompleteRows(workExperiences, 'Experience', REQUIRED_WORK_FIELDS),
+      ...describeIncompleteRows(educations, 'Education', REQUIRED_EDUCATION_FIELDS),
+      ...describeIncompleteSectionRows(projects, 'Project', projectFields),
+      ...describeIncompleteSectionRows(certifications, 'Certification', certificationFields),
+      ...describeIncompleteSectionRows(publications, 'Publication', publicationFields),
+      ...describeIncompleteSectionRows(volunteerExperiences, 'Volunteer Role', volunteerFields),
+      ...describeIncompleteSectionRows(languages, 'Language', languageFields)
+    ]
+    if (incompleteRows.length > 0) {
+      alert(`Please complete these entries before saving:\n${incompleteRows.join('\n')}`)
+      return
+    }
+
+    const invalidUrls = [
+      ...describeInvalidUrls(links, 'Link', linkFields),
+      ...describeInvalidUrls(projects, 'Project', projectFields),
+      ...describeInvalidUrls(certifications, 'Certification', certificationFields),
+      ...describeInvalidUrls(publications, 'Publication', publicationFields)
+    ]
+    if (invalidUrls.length > 0) {
+      alert(`Please fix these links before saving:\n${invalidUrls.join('\n')}`)
+      return
+    }
+
     setSaving(true)
     setError(null)
     
     try {
-      // Save or update profile
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .upsert({
-          ...profile,
-          user_id: user.id,
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'user_id'
-        })
-        .select()
-        .single()
-
-      if (profileError) {
-        console.error('Error saving profile:', profileError)
-        setError(`Failed to save profile: ${profileError.message}`)
-        return
+      // The whole form goes to the database as one document and is applied in a
+      // single transaction; rows missing from it are deleted
+      const document: ProfileDocument = {
+        profile: {
+          name: profile.name,
+          email: profile.email,
+          phone: profile.phone,
+          location: profile.location
+        },
+        work_experiences: workExperiences.map(({ achievements, ...work }) => ({
+          ...emptyToNull(work),
+          achievements: achievements
+            .filter(achievement => achievement.description.trim())
+            .map(achievement => emptyToNull({ ...achievement }))
+        })),
+        educations: educations.map(edu => emptyToNull({ ...edu })),
+        skills: skills
+          .filter(skill => skill.name.trim())
+          .map(skill => ({
+            id: skill.id,
+            name: skill.name.trim(),
+            category: skill.category.trim() || 'Other',
+            proficiency: skill.proficiency,
+            years_of_use: skill.years_of_use,
+            last_used: skill.last_used || null
+          })),
+        certifications: toDocumentRows(certifications, certificationFields),
+        projects: toDocumentRows(projects, projectFields),
+        publications: toDocumentRows(publications, publicationFields),
+        languages: toDocumentRows(languages, languageFields),
+        volunteer_experiences: toDocumentRows(volunteerExperiences, volunteerFields),
+        // Links are saved in the order shown; a blank label falls back to the bare URL
+        profile_links: links
+          .filter(link => link.url.trim())
+          .map(link => ({
+            id: link.id,
+            link_type: link.link_type,
+            url: normalizeLinkUrl(link.url),
+            label: link.label.trim() || defaultLinkLabel(link.url)
+          }))
       }
 
-      const profileId = profileData.id
-
-      // Save work experiences
-      for (const work of workExperiences) {
-        try {
-          if (work.id) {
-            const { error: updateError } = await supabase
-              .from('work_experiences')
-              .update(work)
-              .eq('id', work.id)
-            
-            if (updateError) {
-              console.error('Error updating work experience:', updateError)
-              setError(`Failed to update work experience: ${updateError.message}`)
-              return
-            }
-          } else {
-            const { error: insertError } = await supabase
-              .from('work_experiences')
-              .insert({
-                ...work,
-                profile_id: profileId
-              })
-            
-            if (insertError) {
-              console.error('Error inserting work experience:', insertError)
-              setError(`Failed to add work experience: ${insertError.message}`)
-              return
-            }
-          }
-        } catch (error) {
-          console.error('Unexpected error saving work experience:', error)
-          setError('Failed to save work experience')
-          return
-        }
-      }
+      const { error: saveError } = await supabase.rpc('save_profile', {
+        document,
+        expected_updated_at: profile.updated_at || null
+      })
 
-      // Save educations
-      for (const edu of educations) {
-        try {
-          if (edu.id) {
-            const { error: updateError } = await supabase
-              .from('educations')
-              .update(edu)
-              .eq('id', edu.id)
-            
-            if (updateError) {
-              console.error('Error updating education:', updateError)
-              setError(`Failed to update education: ${updateError.message}`)
-              return
-            }
-          } else {
-            const { error: insertError } = await supabase
-              .from('educations')
-              .insert({
-                ...edu,
-                profile_id: profileId
-              })
-            
-            if (insertError) {
-              console.error('Error inserting education:', insertError)
-              setError(`Failed to add education: ${insertError.message}`)
-              return
-            }
-          }
-        } catch (error) {
-          console.error('Unexpected error saving education:', error)
-          setError('Failed to save education')
-          return
+      if (saveError) {
+        console.error('Error saving profile:', saveError)
+        // 40001: the profile changed in another tab or session since it was loaded
+        if (saveError.code === '40001') {
+          setSaveConflict(true)
+        } else {
+          setError(`Failed to save profile: ${saveError.message}`)
         }
+        return
       }
 
+      // Reload so newly inserted rows pick up their ids
+      await loadProfile()
+      setImportNotice('')
       alert('Profile saved successfully!')
     } catch (error) {
       console.error('Unexpected error saving profile:', error)
@@ -248,29 +568,86 @@ export function Profile() {
       position: '',
       start_date: '',
       end_date: '',
-      is_current: false
+      is_current: false,
+      description: '',
+      team_size: null,
+      tech_stack: [],
+      industry: '',
+      employment_type: 'full_time',
+      achievements: []
     }])
   }
 
-  const removeWorkExperience = async (index: number) => {
-    const work = workExperiences[index]
-    if (work.id) {
-      try {
-        const { error } = await supabase.from('work_experiences').delete().eq('id', work.id)
-        if (error) {
-          console.error('Error deleting work experience:', error)
-          setError(`Failed to delete work experience: ${error.message}`)
-          return
-        }
-      } catch (error) {
-        console.error('Unexpected error deleting work experience:', error)
-        setError('Failed to delete work experience')
-        return
-      }
-    }
+  // Adds another role at the same employer directly below, so the two are
+  // grouped under one company heading on the resume
+  const addRoleAtCompany = (index: number) => {
+    const updated = [...workExperiences]
+    updated.splice(index + 1, 0, {
+      company: workExperiences[index].company,
+      position: '',
+      start_date: '',
+      end_date: '',
+      is_current: false,
+      description: '',
+      team_size: null,
+      tech_stack: [],
+      industry: workExperiences[index].industry,
+      employment_type: workExperiences[index].employment_type,
+      achievements: []
+    })
+    setWorkExperiences(updated)
+  }
+
+  // Removed rows are deleted when the profile is saved
+  const removeWorkExperience = (index: number) => {
     setWorkExperiences(workExperiences.filter((_, i) => i !== index))
   }
 
+  // The list order is the resume order and is saved as sort_order
+  const moveWorkExperience = (from: number, to: number) => {
+    if (from === to) return
+    const updated = [...workExperiences]
+    const [moved] = updated.splice(from, 1)
+    updated.splice(to, 0, moved)
+    setWorkExperiences(updated)
+  }
+
+  const endWorkDrag = () => {
+    setDragHandleIndex(null)
+    setDraggedWorkIndex(null)
+    setDragOverWorkIndex(null)
+  }
+
+  const isSameCompanyAsPrevious = (index: number) =>
+    index > 0 &&
+    workExperiences[index].company.trim() !== '' &&
+    workExperiences[index].company.trim().toLowerCase() === workExperiences[index - 1].company.trim().toLowerCase()
+
+  const addAchievement = (workIndex: number) => {
+    const updated = [...workExperiences]
+    updated[workIndex].achievements = [...updated[workIndex].achievements, {
+      description: '',
+      metrics: '',
+      tech_stack: [],
+      team_context: ''
+    }]
+    setWorkExperiences(updated)
+  }
+
+  const updateAchievement = (workIndex: number, achievementIndex: number, changes: Partial<Achievement>) => {
+    const updated = [...workExperiences]
+    updated[workIndex].achievements = updated[workIndex].achievements.map((achievement, i) =>
+      i === achievementIndex ? { ...achievement, ...changes } : achievement
+    )
+    setWorkExperiences(updated)
+  }
+
+  const removeAchievement = (workIndex: number, achievementIndex: number) => {
+    const updated = [...workExperiences]
+    updated[workIndex].achievements = updated[workIndex].achievements.filter((_, i) => i !== achievementIndex)
+    setWorkExperiences(updated)
+  }
+
   const addEducation = () => {
     setEducations([...educations, {
       university: '',
@@ -280,25 +657,167 @@ export function Profile() {
     }])
   }
 
-  const removeEducation = async (index: number) => {
-    const edu = educations[index]
-    if (edu.id) {
-      try {
-        const { error } = await supabase.from('educations').delete().eq('id', edu.id)
-        if (error) {
-          console.error('Error deleting education:', error)
-          setError(`Failed to delete education: ${error.message}`)
-          return
+  const removeEducation = (index: number) => {
+    setEducations(educations.filter((_, i) => i !== index))
+  }
+
+  // Merges a reviewed import into the unsaved form. Entries matching an existing
+  // row (same company and position, school and degree, or name/title) are merged
+  // into it: blank fields are filled and new achievements added.
+  const applyImportedResume = (imported: ParsedResume) => {
+    const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+    const fillBlanks = <T extends object>(existing: T, incoming: Partial<T>): T => ({
+      ...existing,
+      ...Object.fromEntries(Object.entries(incoming).filter(([key, value]) =>
+        value && !existing[key as keyof T]
+      ))
+    })
+    let addedCount = 0
+    let mergedCount = 0
+
+    function mergeRows<T extends object>(existingRows: T[], incomingRows: T[], isSame: (a: T, b: T) => boolean): T[] {
+      const rows = [...existingRows]
+      incomingRows.forEach(incoming => {
+        const index = rows.findIndex(existing => isSame(existing, incoming))
+        if (index === -1) {
+          rows.push(incoming)
+          addedCount++
+        } else {
+          rows[index] = fillBlanks(rows[index], incoming)
+          mergedCount++
         }
-      } catch (error) {
-        console.error('Unexpected error deleting education:', error)
-        setError('Failed to delete education')
-        return
-      }
+      })
+      return rows
     }
-    setEducations(educations.filter((_, i) => i !== index))
+
+    setProfile({
+      ...profile,
+      name: imported.name || profile.name,
+      email: imported.email || profile.email,
+      phone: imported.phone || profile.phone,
+      location: imported.location || profile.location
+    })
+
+    const mergedWork = [...workExperiences]
+    imported.workExperiences.forEach(work => {
+      const { achievements, ...fields } = work
+      const index = mergedWork.findIndex(existing => sameText(existing.company, work.company) && sameText(existing.position, work.position))
+      const newAchievements = achievements
+        .filter(description => index === -1 || !mergedWork[index].achievements.some(existing => sameText(existing.description, description)))
+        .map(description => ({ description, metrics: '', tech_stack: [], team_context: '' }))
+
+      if (index === -1) {
+        mergedWork.push({
+          ...fields,
+          description: '',
+          team_size: null,
+          tech_stack: [],
+          industry: '',
+          employment_type: 'full_time',
+          achievements: newAchievements
+        })
+        addedCount++
+      } else {
+        const existing = mergedWork[index]
+        mergedWork[index] = {
+          // A stored end date wins over an import that says the role is current
+          ...fillBlanks(existing, existing.end_date ? { ...fields, is_current: false } : fields),
+          achievements: [...existing.achievements, ...newAchievements]
+        }
+        mergedCount++
+      }
+    })
+    setWorkExperiences(mergedWork)
+
+    const newSkills = imported.skills.filter(skill => !skills.some(existing => sameText(existing.name, skill.name)))
+    addedCount += newSkills.length
+    mergedCount += imported.skills.length - newSkills.length
+    setSkills([...skills, ...newSkills.map(skill => ({
+      name: skill.name,
+      category: skill.category,
+      proficiency: 'intermediate' as SkillProficiency,
+      years_of_use: 1,
+      last_used: ''
+    }))])
+
+    setEducations(mergeRows(educations, imported.educations, (a, b) => sameText(a.university, b.university) && sameText(a.degree, b.degree)))
+    setCertifications(mergeRows(certifications, imported.certifications || [], (a, b) => sameText(a.name, b.name)))
+    setProjects(mergeRows(projects, imported.projects || [], (a, b) => sameText(a.name, b.name)))
+    setPublications(mergeRows(publications, imported.publications || [], (a, b) => sameText(a.title, b.title)))
+    setLanguages(mergeRows(languages, imported.languages || [], (a, b) => sameText(a.name, b.name)))
+    setLinks(mergeRows(links, imported.links || [], (a, b) => sameText(defaultLinkLabel(a.url), defaultLinkLabel(b.url))))
+    setVolunteerExperiences(mergeRows(volunteerExperiences, imported.volunteerExperiences || [], (a, b) =>
+      sameText(a.organization, b.organization) && sameText(a.role, b.role)
+    ))
+
+    setShowImport(false)
+    setImportNotice(
+      `Imported ${addedCount} new entries and merged ${mergedCount} into existing ones. ` +
+      'Review the details below, then click Save Profile.'
+    )
+  }
+
+  const handleExportJsonResume = () => {
+    downloadJsonResume(profileToJsonResume({
+      profile,
+      workExperiences,
+      educations,
+      skills,
+      certifications,
+      projects,
+      publications,
+      languages,
+      volunteerExperiences,
+      links
+    }), 'resume.json')
+  }
+
+  const addSkill = () => {
+    setSkills([...skills, {
+      name: '',
+      category: SKILL_CATEGORIES[0],
+      proficiency: 'intermediate',
+      years_of_use: 1,
+      last_used: ''
+    }])
+  }
+
+  const updateSkill = (index: number, changes: Partial<Skill>) => {
+    setSkills(skills.map((skill, i) => i === index ? { ...skill, ...changes } : skill))
+  }
+
+  const removeSkill = (index: number) => {
+    setSkills(skills.filter((_, i) => i !== index))
+  }
+
+  function removeSectionItem<T>(items: T[], setItems: (items: T[]) => void, index: number) {
+    setItems(items.filter((_, i) => i !== index))
+  }
+
+  function updateSectionItem<T>(items: T[], setItems: (items: T[]) => void, index: number, changes: Partial<T>) {
+    setItems(items.map((item, i) => i === index ? { ...item, ...changes } : item))
+  }
+
+  function moveSectionItem<T>(items: T[], setItems: (items: T[]) => void, index: number, direction: -1 | 1) {
+    const target = index + direction
+    if (target < 0 || target >= items.length) return
+    const updated = [...items]
+    const [moved] = updated.splice(index, 1)
+    updated.splice(target, 0, moved)
+    setItems(updated)
   }
 
+  // Picking the link type from the URL saves a step for the common sites
+  const updateLink = (index: number, changes: Partial<ProfileLink>) => {
+    const link = links[index]
+    const detected = changes.url !== undefined && link.link_type === detectLinkType(link.url)
+      ? { link_type: detectLinkType(changes.url) }
+      : {}
+    updateSectionItem(links, setLinks, index, { ...detected, ...changes })
+  }
+
+  const validation = validateProfile({ profile, workExperiences, educations, skills }, { gapThresholdMonths })
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -335,12 +854,61 @@ export function Profile() {
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="bg-white rounded-lg shadow-md">
-          <div className="px-6 py-4 border-b border-gray-200">
-            <h1 className="text-2xl font-bold text-gray-900">Profile Setup</h1>
-            <p className="text-gray-600 mt-1">Complete your profile to generate tailored resumes</p>
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Profile Setup</h1>
+              <p className="text-gray-600 mt-1">Complete your profile to generate tailored resumes</p>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setShowImport(true)}
+                className="flex items-center space-x-1 px-3 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition-colors"
+              >
+                <Upload className="h-4 w-4" />
+                <span>Import Resume</span>
+              </button>
+              <button
+                onClick={handleExportJsonResume}
+                className="flex items-center space-x-1 px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                <Download className="h-4 w-4" />
+                <span>Export JSON Resume</span>
+              </button>
+            </div>
           </div>
 
           <div className="p-6 space-y-8">
+            {saveConflict && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 flex justify-between items-center">
+                <span className="text-sm text-yellow-800">
+                  Your profile was changed in another tab or session after you opened it, so nothing was saved.
+                  Reload to get the latest version; edits made on this page since then will be lost.
+                </span>
+                <button
+                  onClick={() => {
+                    setSaveConflict(false)
+                    setLoading(true)
+                    loadProfile()
+                  }}
+                  className="ml-4 px-3 py-1 bg-yellow-600 text-white text-sm rounded-md hover:bg-yellow-700 transition-colors"
+                >
+                  Reload
+                </button>
+              </div>
+            )}
+
+            {importNotice && (
+              <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
+                <span className="text-sm text-blue-800">{importNotice}</span>
+              </div>
+            )}
+
+            <ProfileValidationReport
+              report={validation}
+              gapThresholdMonths={gapThresholdMonths}
+              onGapThresholdChange={setGapThresholdMonths}
+            />
+
             {/* Personal Information */}
             <section>
               <h2 className="text-xl font-semibold text-gray-900 mb-4">Personal Information</h2>
@@ -356,6 +924,7 @@ export function Profile() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                     placeholder="Your full name"
                   />
+                  <FieldIssues issues={validation.issues} section="profile" field="name" />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -368,6 +937,7 @@ export function Profile() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                     placeholder="your.email@example.com"
                   />
+                  <FieldIssues issues={validation.issues} section="profile" field="email" />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -380,6 +950,7 @@ export function Profile() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                     placeholder="+1 (555) 123-4567"
                   />
+                  <FieldIssues issues={validation.issues} section="profile" field="phone" />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -392,14 +963,30 @@ export function Profile() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                     placeholder="City, State, Country"
                   />
+                  <FieldIssues issues={validation.issues} section="profile" field="location" />
                 </div>
               </div>
             </section>
 
+            <ProfileSectionEditor
+              title="Online Presence"
+              description="Links shown in your resume header, in this order."
+              itemLabel="Link"
+              items={links}
+              fields={linkFields}
+              onAdd={() => setLinks([...links, { link_type: 'website', label: '', url: '' }])}
+              onChange={updateLink}
+              onRemove={(index) => removeSectionItem(links, setLinks, index)}
+              onMove={(index, direction) => moveSectionItem(links, setLinks, index, direction)}
+            />
+
             {/* Work Experience */}
             <section>
               <div className="flex justify-between items-center mb-4">
-                <h2 className="text-xl font-semibold text-gray-900">Work Experience</h2>
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Work Experience</h2>
+                  <p className="text-sm text-gray-500">Drag roles to set the order they appear on your resume</p>
+                </div>
                 <button
                   onClick={addWorkExperience}
                   className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
@@ -410,15 +997,58 @@ export function Profile() {
               </div>
               
               {workExperiences.map((work, index) => (
-                <div key={index} className="border border-gray-200 rounded-md p-4 mb-4">
+                <div
+                  key={index}
+                  draggable={dragHandleIndex === index}
+                  onDragStart={() => setDraggedWorkIndex(index)}
+                  onDragOver={(e) => {
+                    if (draggedWorkIndex === null) return
+                    e.preventDefault()
+                    setDragOverWorkIndex(index)
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    if (draggedWorkIndex !== null) moveWorkExperience(draggedWorkIndex, index)
+                    endWorkDrag()
+                  }}
+                  onDragEnd={endWorkDrag}
+                  className={`border rounded-md p-4 mb-4 ${
+                    dragOverWorkIndex === index && draggedWorkIndex !== index ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+                  } ${draggedWorkIndex === index ? 'opacity-50' : ''}`}
+                >
                   <div className="flex justify-between items-start mb-4">
-                    <h3 className="text-lg font-medium text-gray-900">Experience {index + 1}</h3>
-                    <button
-                      onClick={() => removeWorkExperience(index)}
-                      className="text-red-600 hover:text-red-800 transition-colors"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                    <div className="flex items-center">
+                      <button
+                        type="button"
+                        onMouseDown={() => setDragHandleIndex(index)}
+                        onMouseUp={() => setDragHandleIndex(null)}
+                        className="text-gray-400 hover:text-gray-600 cursor-move mr-2"
+                        title="Drag to reorder"
+                      >
+                        <GripVertical className="h-4 w-4" />
+                      </button>
+                      <div>
+                        <h3 className="text-lg font-medium text-gray-900">Experience {index + 1}</h3>
+                        {isSameCompanyAsPrevious(index) && (
+                          <p className="text-xs text-gray-500">Grouped with the role above under {work.company}</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => addRoleAtCompany(index)}
+                        disabled={!work.company.trim()}
+                        className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400 transition-colors"
+                      >
+                        Add role at this company
+                      </button>
+                      <button
+                        onClick={() => removeWorkExperience(index)}
+                        className="text-red-600 hover:text-red-800 transition-colors"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
                   </div>
                   
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -468,6 +1098,7 @@ export function Profile() {
                         }}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                       />
+                      <FieldIssues issues={validation.issues} section="workExperiences" index={index} field="start_date" />
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -484,6 +1115,7 @@ export function Profile() {
                         disabled={work.is_current}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
                       />
+                      <FieldIssues issues={validation.issues} section="workExperiences" index={index} field="end_date" />
                     </div>
                   </div>
                   
@@ -505,6 +1137,162 @@ export function Profile() {
                       <span className="ml-2 text-sm text-gray-700">I currently work here</span>
                     </label>
                   </div>
+
+                  {/* Role context the generator tailors from instead of guessing from the company name */}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Employment Type
+                      </label>
+                      <select
+                        value={work.employment_type}
+                        onChange={(e) => {
+                          const updated = [...workExperiences]
+                          updated[index].employment_type = e.target.value as EmploymentType
+                          setWorkExperiences(updated)
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {EMPLOYMENT_TYPES.map(type => (
+                          <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Industry / Domain
+                      </label>
+                      <input
+                        type="text"
+                        value={work.industry}
+                        onChange={(e) => {
+                          const updated = [...workExperiences]
+                          updated[index].industry = e.target.value
+                          setWorkExperiences(updated)
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="e.g. Fintech, Healthcare"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Team Size
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={work.team_size ?? ''}
+                        onChange={(e) => {
+                          const updated = [...workExperiences]
+                          updated[index].team_size = e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : null
+                          setWorkExperiences(updated)
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="People on your team"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Tech Stack
+                    </label>
+                    <input
+                      type="text"
+                      value={work.tech_stack.join(', ')}
+                      onChange={(e) => {
+                        const updated = [...workExperiences]
+                        updated[index].tech_stack = e.target.value.split(',').map(tech => tech.trimStart())
+                        setWorkExperiences(updated)
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Technologies used in this role, comma separated"
+                    />
+                  </div>
+
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Role Description
+                    </label>
+                    <textarea
+                      value={work.description}
+                      onChange={(e) => {
+                        const updated = [...workExperiences]
+                        updated[index].description = e.target.value
+                        setWorkExperiences(updated)
+                      }}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 resize-none"
+                      placeholder="What the role was about: product, responsibilities, who you worked with"
+                    />
+                  </div>
+
+                  {/* Achievement bank: real accomplishments the generator must tailor from */}
+                  <div className="mt-6 border-t border-gray-200 pt-4">
+                    <div className="flex justify-between items-center mb-2">
+                      <div>
+                        <h4 className="text-sm font-semibold text-gray-900">Achievements</h4>
+                        <p className="text-xs text-gray-500">
+                          Things you actually did here. Generated bullets are tailored from these, never invented.
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => addAchievement(index)}
+                        className="flex items-center space-x-1 px-2 py-1 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 transition-colors"
+                      >
+                        <Plus className="h-3 w-3" />
+                        <span>Add Achievement</span>
+                      </button>
+                    </div>
+
+                    {work.achievements.map((achievement, achievementIndex) => (
+                      <div key={achievementIndex} className="bg-gray-50 border border-gray-200 rounded-md p-3 mb-3">
+                        <div className="flex justify-between items-start mb-2">
+                          <span className="text-xs font-medium text-gray-500">Achievement {achievementIndex + 1}</span>
+                          <button
+                            onClick={() => removeAchievement(index, achievementIndex)}
+                            className="text-red-600 hover:text-red-800 transition-colors"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </button>
+                        </div>
+                        <div className="space-y-2">
+                          <textarea
+                            value={achievement.description}
+                            onChange={(e) => updateAchievement(index, achievementIndex, { description: e.target.value })}
+                            rows={2}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 resize-none text-sm"
+                            placeholder="What you did, e.g. Migrated the billing service from a monolith to event-driven workers"
+                          />
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                            <input
+                              type="text"
+                              value={achievement.metrics}
+                              onChange={(e) => updateAchievement(index, achievementIndex, { metrics: e.target.value })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                              placeholder="Metrics, e.g. cut p95 latency by 40%"
+                            />
+                            <input
+                              type="text"
+                              value={achievement.tech_stack.join(', ')}
+                              onChange={(e) => updateAchievement(index, achievementIndex, {
+                                tech_stack: e.target.value.split(',').map(tech => tech.trimStart())
+                              })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                              placeholder="Tech stack, comma separated"
+                            />
+                            <input
+                              type="text"
+                              value={achievement.team_context}
+                              onChange={(e) => updateAchievement(index, achievementIndex, { team_context: e.target.value })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                              placeholder="Team context, e.g. 1 of 4 backend engineers"
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
                 </div>
               ))}
             </section>
@@ -581,6 +1369,7 @@ export function Profile() {
                         }}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                       />
+                      <FieldIssues issues={validation.issues} section="educations" index={index} field="start_date" />
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -596,12 +1385,157 @@ export function Profile() {
                         }}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                       />
+                      <FieldIssues issues={validation.issues} section="educations" index={index} field="end_date" />
                     </div>
                   </div>
                 </div>
               ))}
             </section>
 
+            {/* Skills */}
+            <section>
+              <div className="flex justify-between items-center mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Skills</h2>
+                  <p className="text-sm text-gray-500">
+                    Only skills listed here appear in the Technical Skills section of generated resumes.
+                  </p>
+                </div>
+                <button
+                  onClick={addSkill}
+                  className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Skill</span>
+                </button>
+              </div>
+
+              <datalist id="skill-categories">
+                {SKILL_CATEGORIES.map(category => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+
+              {skills.length > 0 && (
+                <div className="hidden md:grid grid-cols-12 gap-2 px-1 mb-1 text-xs font-medium text-gray-500">
+                  <span className="col-span-3">Skill</span>
+                  <span className="col-span-3">Category</span>
+                  <span className="col-span-2">Proficiency</span>
+                  <span className="col-span-1">Years</span>
+                  <span className="col-span-2">Last used</span>
+                </div>
+              )}
+
+              {skills.map((skill, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center mb-2">
+                  <input
+                    type="text"
+                    value={skill.name}
+                    onChange={(e) => updateSkill(index, { name: e.target.value })}
+                    className="md:col-span-3 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    placeholder="e.g. TypeScript"
+                  />
+                  <input
+                    type="text"
+                    list="skill-categories"
+                    value={skill.category}
+                    onChange={(e) => updateSkill(index, { category: e.target.value })}
+                    className="md:col-span-3 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    placeholder="Category"
+                  />
+                  <select
+                    value={skill.proficiency}
+                    onChange={(e) => updateSkill(index, { proficiency: e.target.value as SkillProficiency })}
+                    className="md:col-span-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  >
+                    <option value="beginner">Beginner</option>
+                    <option value="intermediate">Intermediate</option>
+                    <option value="advanced">Advanced</option>
+                    <option value="expert">Expert</option>
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={skill.years_of_use}
+                    onChange={(e) => updateSkill(index, { years_of_use: Number(e.target.value) })}
+                    className="md:col-span-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  />
+                  <input
+                    type="date"
+                    value={skill.last_used}
+                    onChange={(e) => updateSkill(index, { last_used: e.target.value })}
+                    className="md:col-span-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    title="Leave empty if you still use this skill"
+                  />
+                  <button
+                    onClick={() => removeSkill(index)}
+                    className="md:col-span-1 justify-self-end text-red-600 hover:text-red-800 transition-colors"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </section>
+
+            <ProfileSectionEditor
+              title="Projects"
+              description="Personal, open-source or freelance work worth showing alongside your experience."
+              itemLabel="Project"
+              items={projects}
+              fields={projectFields}
+              onAdd={() => setProjects([...projects, { name: '', description: '', role: '', tech_stack: [], url: '', start_date: '', end_date: '' }])}
+              onChange={(index, changes) => updateSectionItem(projects, setProjects, index, changes)}
+              onRemove={(index) => removeSectionItem(projects, setProjects, index)}
+            />
+
+            <ProfileSectionEditor
+              title="Certifications"
+              itemLabel="Certification"
+              items={certifications}
+              fields={certificationFields}
+              onAdd={() => setCertifications([...certifications, { name: '', issuer: '', issue_date: '', expiration_date: '', credential_id: '', credential_url: '' }])}
+              onChange={(index, changes) => updateSectionItem(certifications, setCertifications, index, changes)}
+              onRemove={(index) => removeSectionItem(certifications, setCertifications, index)}
+            />
+
+            <ProfileSectionEditor
+              title="Publications"
+              itemLabel="Publication"
+              items={publications}
+              fields={publicationFields}
+              onAdd={() => setPublications([...publications, { title: '', publisher: '', published_date: '', url: '', description: '' }])}
+              onChange={(index, changes) => updateSectionItem(publications, setPublications, index, changes)}
+              onRemove={(index) => removeSectionItem(publications, setPublications, index)}
+            />
+
+            <ProfileSectionEditor
+              title="Volunteer Experience"
+              itemLabel="Volunteer Role"
+              items={volunteerExperiences}
+              fields={volunteerFields}
+              onAdd={() => setVolunteerExperiences([...volunteerExperiences, { organization: '', role: '', start_date: '', end_date: '', description: '' }])}
+              onChange={(index, changes) => updateSectionItem(volunteerExperiences, setVolunteerExperiences, index, changes)}
+              onRemove={(index) => removeSectionItem(volunteerExperiences, setVolunteerExperiences, index)}
+            />
+
+            <ProfileSectionEditor
+              title="Languages"
+              itemLabel="Language"
+              items={languages}
+              fields={languageFields}
+              onAdd={() => setLanguages([...languages, { name: '', proficiency: 'professional_working' }])}
+              onChange={(index, changes) => updateSectionItem(languages, setLanguages, index, changes)}
+              onRemove={(index) => removeSectionItem(languages, setLanguages, index)}
+            />
+
+            {showImport && (
+              <ResumeImport
+                onApply={applyImportedResume}
+                onClose={() => setShowImport(false)}
+              />
+            )}
+
             {/* Save Button */}
             <div className="flex justify-end">
               <button
@@ -0,0 +1,344 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase, Database } from '../lib/supabase'
+import { Plus, Trash2, Save, AlertCircle, Eye, ScrollText } from 'lucide-react'
+import { findUnknownPlaceholders, previewPrompt, PROMPT_PLACEHOLDERS } from '../services/promptTemplates'
+
+interface EditableTemplate {
+  id?: string
+  name: string
+  description: string
+  body: string
+  // Version generation currently uses; undefined until first saved
+  version?: number
+  hasChanges: boolean
+  preview?: string
+}
+
+type Tables = Database['public']['Tables']
+
+// A template as loaded, with every saved version of its body
+type PromptTemplateRow = Pick<Tables['prompt_templates']['Row'], 'id' | 'name' | 'description' | 'current_version'> & {
+  prompt_template_versions: Pick<Tables['prompt_template_versions']['Row'], 'version' | 'body'>[]
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500'
+
+export function PromptLibrary() {
+  const { user } = useAuth()
+  const [loading, setLoading] = useState(true)
+  const [savingIndex, setSavingIndex] = useState<number | null>(null)
+  const [previewingIndex, setPreviewingIndex] = useState<number | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState('')
+  const [templates, setTemplates] = useState<EditableTemplate[]>([])
+  // Job description the previews are rendered with
+  const [sampleJobDescription, setSampleJobDescription] = useState('')
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const { data, error: loadError } = await supabase
+        .from('prompt_templates')
+        .select('id, name, description, current_version, prompt_template_versions(version, body)')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: true })
+        .overrideTypes<PromptTemplateRow[], { merge: false }>()
+
+      if (loadError) {
+        console.error('Error loading prompt templates:', loadError)
+        setError(`Failed to load prompt templates: ${loadError.message}`)
+        return
+      }
+
+      setTemplates((data || []).map(template => ({
+        id: template.id,
+        name: template.name,
+        description: template.description || '',
+        body: template.prompt_template_versions.find(version => version.version === template.current_version)?.body || '',
+        version: template.current_version,
+        hasChanges: false
+      })))
+    } catch (error) {
+      console.error('Error loading prompt templates:', error)
+      setError('Failed to load prompt templates')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (user) {
+      loadTemplates()
+    }
+  }, [user, loadTemplates])
+
+  // New templates start as a copy of the built-in prompt so the user edits rather than writes from scratch
+  const addTemplate = async () => {
+    setCreating(true)
+    setError('')
+    try {
+      const { template } = await previewPrompt(sampleJobDescription)
+      setTemplates([...templates, { name: '', description: '', body: template, hasChanges: true }])
+    } catch (error) {
+      console.error('Error loading the built-in prompt:', error)
+      setError('Could not load the built-in prompt. Make sure your profile is saved and try again.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const updateTemplate = (index: number, changes: Partial<EditableTemplate>) => {
+    setTemplates(current => current.map((template, i) => i === index ? { ...template, ...changes } : template))
+  }
+
+  const editTemplate = (index: number, changes: Partial<EditableTemplate>) => {
+    updateTemplate(index, { ...changes, hasChanges: true })
+  }
+
+  const showPreview = async (index: number) => {
+    setPreviewingIndex(index)
+    setError('')
+    try {
+      const { prompt } = await previewPrompt(sampleJobDescription, templates[index].body)
+      updateTemplate(index, { preview: prompt })
+    } catch (error) {
+      console.error('Error previewing prompt:', error)
+      setError(error instanceof Error ? error.message : 'Error previewing prompt. Please try again.')
+    } finally {
+      setPreviewingIndex(null)
+    }
+  }
+
+  // Every save stores the body as a new version; resumes keep pointing at the version they used
+  const saveTemplate = async (index: number) => {
+    const template = templates[index]
+
+    if (!template.name.trim()) {
+      setError('Template name is required')
+      return
+    }
+
+    if (!template.body.trim()) {
+      setError(`Template "${template.name}" has no prompt text`)
+      return
+    }
+
+    setSavingIndex(index)
+    setError('')
+
+    try {
+      const { data, error: saveError } = await supabase.rpc('save_prompt_template', {
+        existing_template_id: template.id || null,
+        template_name: template.name.trim(),
+        template_description: template.description.trim() || null,
+        template_body: template.body
+      })
+
+      if (saveError) {
+        if (saveError.code === '23505') {
+          throw new Error(`A template named "${template.name.trim()}" already exists`)
+        }
+        throw saveError
+      }
+
+      updateTemplate(index, { id: data.id, version: data.version, name: template.name.trim(), hasChanges: false })
+    } catch (error) {
+      console.error('Error saving prompt template:', error)
+      setError(error instanceof Error ? error.message : 'Error saving prompt template. Please try again.')
+    } finally {
+      setSavingIndex(null)
+    }
+  }
+
+  const removeTemplate = async (index: number) => {
+    const template = templates[index]
+    if (template.id) {
+      if (!confirm(`Delete prompt template "${template.name}" and all of its versions? Resumes generated with it keep their content.`)) {
+        return
+      }
+
+      const { error: deleteError } = await supabase.from('prompt_templates').delete().eq('id', template.id)
+      if (deleteError) {
+        console.error('Error deleting prompt template:', deleteError)
+        setError(`Failed to delete prompt template: ${deleteError.message}`)
+        return
+      }
+    }
+    setTemplates(templates.filter((_, i) => i !== index))
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Prompt Library</h1>
+              <p className="text-gray-600 mt-1">
+                Write your own resume prompts and pick one on the Generate page
+              </p>
+            </div>
+            <button
+              onClick={addTemplate}
+              disabled={creating}
+              className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>{creating ? 'Loading...' : 'New Template'}</span>
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 flex items-center">
+                <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+                <span className="text-sm text-red-600">{error}</span>
+              </div>
+            )}
+
+            <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Placeholders</h3>
+              <p className="text-xs text-gray-600 mb-3">
+                Write these in a template as <code>{'{{name}}'}</code>; they are filled in from your profile when a resume is generated.
+              </p>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                {PROMPT_PLACEHOLDERS.map(placeholder => (
+                  <div key={placeholder.name} className="flex">
+                    <dt className="font-mono text-blue-700 mr-2">{`{{${placeholder.name}}}`}</dt>
+                    <dd className="text-gray-600">{placeholder.description}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Sample job description for previews
+              </label>
+              <textarea
+                value={sampleJobDescription}
+                onChange={(e) => setSampleJobDescription(e.target.value)}
+                rows={3}
+                className={inputClassName}
+                placeholder="Paste a job posting to see the prompt exactly as it would be sent"
+              />
+            </div>
+
+            {templates.length === 0 && (
+              <div className="text-center py-8">
+                <ScrollText className="h-12 w-12 text-gray-300 mx-auto mb-2" />
+                <p className="text-gray-500">
+                  No prompt templates yet. Without one, resumes are generated with the built-in prompt.
+                </p>
+              </div>
+            )}
+
+            {templates.map((template, index) => {
+              const unknownPlaceholders = findUnknownPlaceholders(template.body)
+
+              return (
+                <div key={template.id || `new-${index}`} className="border border-gray-200 rounded-md p-4">
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex items-center space-x-2">
+                      <h3 className="text-lg font-medium text-gray-900">{template.name || `Template ${index + 1}`}</h3>
+                      {template.version && (
+                        <span className="text-xs text-blue-700 bg-blue-100 px-2 py-1 rounded">v{template.version}</span>
+                      )}
+                      {template.hasChanges && template.id && (
+                        <span className="text-xs text-amber-700">Unsaved changes</span>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => removeTemplate(index)}
+                      className="text-red-600 hover:text-red-800 transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Name
+                      </label>
+                      <input
+                        type="text"
+                        value={template.name}
+                        onChange={(e) => editTemplate(index, { name: e.target.value })}
+                        className={inputClassName}
+                        placeholder="e.g., Concise startup resume"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Description
+                      </label>
+                      <input
+                        type="text"
+                        value={template.description}
+                        onChange={(e) => editTemplate(index, { description: e.target.value })}
+                        className={inputClassName}
+                        placeholder="e.g., Shorter bullets, plain tone"
+                      />
+                    </div>
+                  </div>
+
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Prompt
+                  </label>
+                  <textarea
+                    value={template.body}
+                    onChange={(e) => editTemplate(index, { body: e.target.value, preview: undefined })}
+                    rows={16}
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                  {unknownPlaceholders.length > 0 && (
+                    <p className="text-xs text-amber-700 mt-1">
+                      Unknown placeholders are sent as written: {unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}
+                    </p>
+                  )}
+
+                  {template.preview !== undefined && (
+                    <div className="mt-4">
+                      <h4 className="text-sm font-medium text-gray-700 mb-1">Rendered prompt</h4>
+                      <pre className="bg-gray-50 border border-gray-200 rounded-md p-3 text-xs text-gray-800 whitespace-pre-wrap max-h-96 overflow-y-auto">
+                        {template.preview}
+                      </pre>
+                    </div>
+                  )}
+
+                  <div className="flex justify-end space-x-2 mt-4">
+                    <button
+                      onClick={() => showPreview(index)}
+                      disabled={previewingIndex !== null}
+                      className="flex items-center space-x-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <Eye className="h-4 w-4" />
+                      <span>{previewingIndex === index ? 'Rendering...' : 'Preview'}</span>
+                    </button>
+                    <button
+                      onClick={() => saveTemplate(index)}
+                      disabled={savingIndex !== null || !template.hasChanges}
+                      className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <Save className="h-4 w-4" />
+                      <span>{savingIndex === index ? 'Saving...' : template.id ? 'Save as New Version' : 'Save Template'}</span>
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,33 +3,123 @@ import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
 import { Save, Eye, EyeOff, AlertCircle } from 'lucide-react'
 import { ApiKeyValidator } from '../components/ApiKeyValidator'
+import {
+  AI_PROVIDERS,
+  AIProviderId,
+  AIProviderSettings,
+  DEFAULT_AZURE_API_VERSION,
+  DEFAULT_MAX_OUTPUT_TOKENS,
+  DEFAULT_TEMPERATURE,
+  MAX_OUTPUT_TOKENS_RANGE,
+  findAIProvider,
+  normalizeBaseUrl,
+  typicalResumeCost
+} from '../services/aiProviders'
 
-interface UserSettings {
-  openai_key: string
-  anthropic_key: string
-  preferred_ai: 'openai' | 'anthropic'
+interface UserSettings extends AIProviderSettings {
+  preferred_ai: AIProviderId
+  failover_enabled: boolean
+  // Empty for "the next configured provider"
+  failover_provider: AIProviderId | ''
+  temperature: number
+  max_output_tokens: number
+}
+
+const DEFAULT_SETTINGS: UserSettings = {
+  openai_key: '',
+  openai_model: '',
+  anthropic_key: '',
+  anthropic_model: '',
+  gemini_key: '',
+  gemini_model: '',
+  mistral_key: '',
+  mistral_model: '',
+  azure_openai_key: '',
+  azure_openai_endpoint: '',
+  azure_openai_deployment: '',
+  azure_openai_api_version: DEFAULT_AZURE_API_VERSION,
+  openai_compatible_base_url: '',
+  openai_compatible_model: '',
+  openai_compatible_key: '',
+  preferred_ai: 'openai',
+  failover_enabled: false,
+  failover_provider: '',
+  temperature: DEFAULT_TEMPERATURE,
+  max_output_tokens: DEFAULT_MAX_OUTPUT_TOKENS
+}
+
+// Hosted providers that only need an API key
+const KEY_PROVIDERS: Array<{
+  id: AIProviderId
+  field: 'openai_key' | 'anthropic_key' | 'gemini_key' | 'mistral_key'
+  modelField: 'openai_model' | 'anthropic_model' | 'gemini_model' | 'mistral_model'
+  label: string
+  placeholder: string
+  consoleUrl: string
+  consoleName: string
+}> = [
+  { id: 'openai', field: 'openai_key', modelField: 'openai_model', label: 'OpenAI API Key', placeholder: 'sk-...', consoleUrl: 'https://platform.openai.com/api-keys', consoleName: 'OpenAI Platform' },
+  { id: 'anthropic', field: 'anthropic_key', modelField: 'anthropic_model', label: 'Anthropic API Key', placeholder: 'sk-ant-...', consoleUrl: 'https://console.anthropic.com/', consoleName: 'Anthropic Console' },
+  { id: 'gemini', field: 'gemini_key', modelField: 'gemini_model', label: 'Google Gemini API Key', placeholder: 'AIza...', consoleUrl: 'https://aistudio.google.com/app/apikey', consoleName: 'Google AI Studio' },
+  { id: 'mistral', field: 'mistral_key', modelField: 'mistral_model', label: 'Mistral API Key', placeholder: 'Mistral API key', consoleUrl: 'https://console.mistral.ai/api-keys', consoleName: 'Mistral Console' }
+]
+
+interface SecretInputProps {
+  value: string
+  onChange: (value: string) => void
+  placeholder: string
+}
+
+// Password field with a show/hide toggle for API keys
+function SecretInput({ value, onChange, placeholder }: SecretInputProps) {
+  const [visible, setVisible] = useState(false)
+
+  return (
+    <div className="relative">
+      <input
+        type={visible ? 'text' : 'password'}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        placeholder={placeholder}
+      />
+      <button
+        type="button"
+        className="absolute inset-y-0 right-0 pr-3 flex items-center"
+        onClick={() => setVisible(!visible)}
+      >
+        {visible ? (
+          <EyeOff className="h-4 w-4 text-gray-400" />
+        ) : (
+          <Eye className="h-4 w-4 text-gray-400" />
+        )}
+      </button>
+    </div>
+  )
+}
+
+// Sampling settings are stored within the ranges the edge function accepts
+function clampGenerationSettings(temperature: number, maxOutputTokens: number) {
+  return {
+    temperature: Math.min(1, Math.max(0, Math.round(temperature * 10) / 10)),
+    max_output_tokens: Number.isFinite(maxOutputTokens) && maxOutputTokens > 0
+      ? Math.min(MAX_OUTPUT_TOKENS_RANGE.max, Math.max(MAX_OUTPUT_TOKENS_RANGE.min, Math.round(maxOutputTokens)))
+      : DEFAULT_MAX_OUTPUT_TOKENS
+  }
 }
 
 export function Settings() {
   const { user } = useAuth()
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
-  const [showOpenAIKey, setShowOpenAIKey] = useState(false)
-  const [showAnthropicKey, setShowAnthropicKey] = useState(false)
   const [saveError, setSaveError] = useState('')
   const [saveSuccess, setSaveSuccess] = useState(false)
-  const [validationResults, setValidationResults] = useState<{
-    openai: { isValid: boolean; cost?: number }
-    anthropic: { isValid: boolean; cost?: number }
-  }>({
-    openai: { isValid: false },
-    anthropic: { isValid: false }
-  })
-  const [settings, setSettings] = useState<UserSettings>({
-    openai_key: '',
-    anthropic_key: '',
-    preferred_ai: 'openai'
-  })
+  const [validationResults, setValidationResults] = useState<Record<AIProviderId, { isValid: boolean; cost?: number }>>(
+    () => Object.fromEntries(AI_PROVIDERS.map(provider => [provider.id, { isValid: false }])) as Record<AIProviderId, { isValid: boolean }>
+  )
+  // Filled in when a key is validated, to suggest models in the pickers
+  const [availableModels, setAvailableModels] = useState<Partial<Record<AIProviderId, string[]>>>({})
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS)
 
   useEffect(() => {
     if (user) {
@@ -50,18 +140,16 @@ export function Settings() {
       }
 
       if (data) {
+        // Unset columns keep their defaults
         setSettings({
-          openai_key: data.openai_key || '',
-          anthropic_key: data.anthropic_key || '',
-          preferred_ai: data.preferred_ai || 'openai'
+          ...DEFAULT_SETTINGS,
+          ...Object.fromEntries(
+            Object.entries(data).filter(([field, value]) => field in DEFAULT_SETTINGS && value !== null)
+          )
         })
       } else {
         // Initialize with default values if no settings exist
-        setSettings({
-          openai_key: '',
-          anthropic_key: '',
-          preferred_ai: 'openai'
-        })
+        setSettings(DEFAULT_SETTINGS)
       }
     } catch (error) {
       console.error('Error loading settings:', error)
@@ -83,8 +171,24 @@ export function Settings() {
         .upsert({
           user_id: user.id,
           openai_key: settings.openai_key || null,
+          openai_model: settings.openai_model.trim() || null,
           anthropic_key: settings.anthropic_key || null,
+          anthropic_model: settings.anthropic_model.trim() || null,
+          gemini_key: settings.gemini_key || null,
+          gemini_model: settings.gemini_model.trim() || null,
+          mistral_key: settings.mistral_key || null,
+          mistral_model: settings.mistral_model.trim() || null,
+          azure_openai_key: settings.azure_openai_key || null,
+          azure_openai_endpoint: normalizeBaseUrl(settings.azure_openai_endpoint) || null,
+          azure_openai_deployment: settings.azure_openai_deployment.trim() || null,
+          azure_openai_api_version: settings.azure_openai_api_version.trim() || DEFAULT_AZURE_API_VERSION,
+          openai_compatible_base_url: normalizeBaseUrl(settings.openai_compatible_base_url) || null,
+          openai_compatible_model: settings.openai_compatible_model.trim() || null,
+          openai_compatible_key: settings.openai_compatible_key || null,
           preferred_ai: settings.preferred_ai,
+          failover_enabled: settings.failover_enabled,
+          failover_provider: settings.failover_provider || null,
+          ...clampGenerationSettings(settings.temperature, settings.max_output_tokens),
           updated_at: new Date().toISOString()
         }, {
           onConflict: 'user_id'
@@ -104,20 +208,30 @@ export function Settings() {
     }
   }
 
-  const handleValidationResult = (provider: 'openai' | 'anthropic', isValid: boolean, cost?: number) => {
+  const updateSetting = (field: keyof AIProviderSettings, value: string) => {
+    setSettings(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleValidationResult = (provider: AIProviderId, isValid: boolean, cost?: number, models?: string[]) => {
     setValidationResults(prev => ({
       ...prev,
       [provider]: { isValid, cost }
     }))
+    if (models && models.length > 0) {
+      setAvailableModels(prev => ({ ...prev, [provider]: models }))
+    }
   }
 
-  const handlePreferredAIChange = (newPreferred: 'openai' | 'anthropic') => {
+  const handlePreferredAIChange = (newPreferred: AIProviderId) => {
     setSettings(prev => ({
       ...prev,
       preferred_ai: newPreferred
     }))
   }
 
+  // Providers other than the preferred one that could take over
+  const failoverCandidates = AI_PROVIDERS.filter(provider => provider.id !== settings.preferred_ai && provider.isConfigured(settings))
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -154,131 +268,287 @@ export function Settings() {
             <section>
               <h2 className="text-lg font-semibold text-gray-900 mb-4">AI Provider Preference</h2>
               <div className="space-y-3">
-                <label className="flex items-center">
-                  <input
-                    type="radio"
-                    name="preferred_ai"
-                    value="openai"
-                    checked={settings.preferred_ai === 'openai'}
-                    onChange={(e) => handlePreferredAIChange(e.target.value as 'openai')}
-                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-                  />
-                  <span className="ml-3 text-sm text-gray-700 flex items-center">
-                    OpenAI (GPT-4)
-                    {validationResults.openai.isValid && (
-                      <span className="ml-2 text-xs text-green-600 bg-green-100 px-2 py-1 rounded">
-                        ✓ Validated {validationResults.openai.cost && `(~$${validationResults.openai.cost}/resume)`}
-                      </span>
-                    )}
-                  </span>
-                </label>
-                <label className="flex items-center">
-                  <input
-                    type="radio"
-                    name="preferred_ai"
-                    value="anthropic"
-                    checked={settings.preferred_ai === 'anthropic'}
-                    onChange={(e) => handlePreferredAIChange(e.target.value as 'anthropic')}
-                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-                  />
-                  <span className="ml-3 text-sm text-gray-700 flex items-center">
-                    Anthropic (Claude)
-                    {validationResults.anthropic.isValid && (
-                      <span className="ml-2 text-xs text-green-600 bg-green-100 px-2 py-1 rounded">
-                        ✓ Validated {validationResults.anthropic.cost && `(~$${validationResults.anthropic.cost}/resume)`}
-                      </span>
-                    )}
-                  </span>
-                </label>
+                {AI_PROVIDERS.map(provider => (
+                  <label key={provider.id} className="flex items-center">
+                    <input
+                      type="radio"
+                      name="preferred_ai"
+                      value={provider.id}
+                      checked={settings.preferred_ai === provider.id}
+                      onChange={() => handlePreferredAIChange(provider.id)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                    />
+                    <span className="ml-3 text-sm text-gray-700 flex items-center">
+                      {provider.label}
+                      {validationResults[provider.id].isValid && (
+                        <span className="ml-2 text-xs text-green-600 bg-green-100 px-2 py-1 rounded">
+                          ✓ Validated {!!validationResults[provider.id].cost && `(~$${validationResults[provider.id].cost}/resume)`}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                ))}
               </div>
             </section>
 
             {/* API Keys */}
             <section>
               <h2 className="text-lg font-semibold text-gray-900 mb-4">API Keys</h2>
+              <div className="space-y-4">
+                {KEY_PROVIDERS.map(provider => (
+                  <div key={provider.id}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {provider.label}
+                    </label>
+                    <SecretInput
+                      value={settings[provider.field]}
+                      onChange={(value) => updateSetting(provider.field, value)}
+                      placeholder={provider.placeholder}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Get your API key from{' '}
+                      <a
+                        href={provider.consoleUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {provider.consoleName}
+                      </a>
+                    </p>
+                    <ApiKeyValidator
+                      provider={provider.id}
+                      settings={settings}
+                      onValidationResult={(isValid, cost, models) => handleValidationResult(provider.id, isValid, cost, models)}
+                    />
+                    <div className="mt-3">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Model
+                      </label>
+                      <input
+                        type="text"
+                        list={`${provider.id}-models`}
+                        value={settings[provider.modelField]}
+                        onChange={(e) => updateSetting(provider.modelField, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder={`Default: ${findAIProvider(provider.id)?.defaultModel}`}
+                      />
+                      <datalist id={`${provider.id}-models`}>
+                        {(availableModels[provider.id] || []).map(model => (
+                          <option key={model} value={model} />
+                        ))}
+                      </datalist>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {availableModels[provider.id]
+                          ? `${availableModels[provider.id]!.length} models available to this key`
+                          : 'Validate the key to list the models it can use'}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Azure OpenAI */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Azure OpenAI</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Use a model deployed in your own Azure OpenAI resource.
+              </p>
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    OpenAI API Key
+                    Endpoint
                   </label>
-                  <div className="relative">
+                  <input
+                    type="url"
+                    value={settings.azure_openai_endpoint}
+                    onChange={(e) => updateSetting('azure_openai_endpoint', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="https://my-resource.openai.azure.com"
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Deployment Name
+                    </label>
                     <input
-                      type={showOpenAIKey ? 'text' : 'password'}
-                      value={settings.openai_key}
-                      onChange={(e) => setSettings(prev => ({ ...prev, openai_key: e.target.value }))}
-                      className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="sk-..."
+                      type="text"
+                      value={settings.azure_openai_deployment}
+                      onChange={(e) => updateSetting('azure_openai_deployment', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="e.g. gpt-4o"
                     />
-                    <button
-                      type="button"
-                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                      onClick={() => setShowOpenAIKey(!showOpenAIKey)}
-                    >
-                      {showOpenAIKey ? (
-                        <EyeOff className="h-4 w-4 text-gray-400" />
-                      ) : (
-                        <Eye className="h-4 w-4 text-gray-400" />
-                      )}
-                    </button>
                   </div>
-                  <p className="text-xs text-gray-500 mt-1">
-                    Get your API key from{' '}
-                    <a
-                      href="https://platform.openai.com/api-keys"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:text-blue-800"
-                    >
-                      OpenAI Platform
-                    </a>
-                  </p>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      API Version
+                    </label>
+                    <input
+                      type="text"
+                      value={settings.azure_openai_api_version}
+                      onChange={(e) => updateSetting('azure_openai_api_version', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      placeholder={DEFAULT_AZURE_API_VERSION}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    API Key
+                  </label>
+                  <SecretInput
+                    value={settings.azure_openai_key}
+                    onChange={(value) => updateSetting('azure_openai_key', value)}
+                    placeholder="Key 1 or Key 2 from the resource's Keys and Endpoint page"
+                  />
                   <ApiKeyValidator
-                    apiKey={settings.openai_key}
-                    provider="openai"
-                    onValidationResult={(isValid, cost) => handleValidationResult('openai', isValid, cost)}
+                    provider="azure_openai"
+                    settings={settings}
+                    onValidationResult={(isValid, cost, models) => handleValidationResult('azure_openai', isValid, cost, models)}
                   />
                 </div>
+              </div>
+            </section>
 
+            {/* Self-hosted endpoint */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Self-hosted Model</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Use any server with an OpenAI-compatible API, such as llama.cpp, vLLM or Ollama, to generate with a model you host. Your profile is still sent through this app's hosted resume generator on its way to your server.
+              </p>
+              <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Anthropic API Key
+                    Base URL
                   </label>
-                  <div className="relative">
+                  <input
+                    type="url"
+                    value={settings.openai_compatible_base_url}
+                    onChange={(e) => updateSetting('openai_compatible_base_url', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="https://llm.example.com/v1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Must be reachable from the hosted resume generator, so localhost and private network addresses will not work. The check below runs from there.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Model
+                  </label>
+                  <input
+                    type="text"
+                    list="openai_compatible-models"
+                    value={settings.openai_compatible_model}
+                    onChange={(e) => updateSetting('openai_compatible_model', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g. llama3.1:70b"
+                  />
+                  <datalist id="openai_compatible-models">
+                    {(availableModels.openai_compatible || []).map(model => (
+                      <option key={model} value={model} />
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    API Key (Optional)
+                  </label>
+                  <SecretInput
+                    value={settings.openai_compatible_key}
+                    onChange={(value) => updateSetting('openai_compatible_key', value)}
+                    placeholder="Only if your server requires one"
+                  />
+                  <ApiKeyValidator
+                    provider="openai_compatible"
+                    settings={settings}
+                    onValidationResult={(isValid, cost, models) => handleValidationResult('openai_compatible', isValid, cost, models)}
+                  />
+                </div>
+              </div>
+            </section>
+
+            {/* Failover */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Failover</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                When your preferred provider is rate-limited, returns server errors or times out, generation retries twice with a short wait and then switches to another configured provider. Invalid keys and rejected requests never trigger a switch.
+              </p>
+              {failoverCandidates.length === 0 ? (
+                <p className="text-sm text-gray-500">Configure a second provider above to enable failover.</p>
+              ) : (
+                <div className="space-y-3">
+                  <label className="flex items-center">
                     <input
-                      type={showAnthropicKey ? 'text' : 'password'}
-                      value={settings.anthropic_key}
-                      onChange={(e) => setSettings(prev => ({ ...prev, anthropic_key: e.target.value }))}
-                      className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="sk-ant-..."
+                      type="checkbox"
+                      checked={settings.failover_enabled}
+                      onChange={(e) => setSettings(prev => ({ ...prev, failover_enabled: e.target.checked }))}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                     />
-                    <button
-                      type="button"
-                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                      onClick={() => setShowAnthropicKey(!showAnthropicKey)}
+                    <span className="ml-3 text-sm text-gray-700">Switch providers automatically when {findAIProvider(settings.preferred_ai)?.name} fails</span>
+                  </label>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Switch To
+                    </label>
+                    <select
+                      value={settings.failover_provider}
+                      onChange={(e) => setSettings(prev => ({ ...prev, failover_provider: e.target.value as AIProviderId | '' }))}
+                      disabled={!settings.failover_enabled}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
                     >
-                      {showAnthropicKey ? (
-                        <EyeOff className="h-4 w-4 text-gray-400" />
-                      ) : (
-                        <Eye className="h-4 w-4 text-gray-400" />
-                      )}
-                    </button>
+                      <option value="">Next configured provider</option>
+                      {failoverCandidates.map(provider => (
+                        <option key={provider.id} value={provider.id}>{provider.label}</option>
+                      ))}
+                    </select>
                   </div>
+                </div>
+              )}
+            </section>
+
+            {/* Generation */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Generation</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Applies to whichever provider generates the resume.
+              </p>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Temperature: {settings.temperature.toFixed(1)}
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={settings.temperature}
+                    onChange={(e) => setSettings(prev => ({ ...prev, temperature: parseFloat(e.target.value) }))}
+                    className="w-full"
+                  />
                   <p className="text-xs text-gray-500 mt-1">
-                    Get your API key from{' '}
-                    <a
-                      href="https://console.anthropic.com/"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:text-blue-800"
-                    >
-                      Anthropic Console
-                    </a>
+                    Lower values keep wording close to your profile; higher values vary it more between runs.
                   </p>
-                  <ApiKeyValidator
-                    apiKey={settings.anthropic_key}
-                    provider="anthropic"
-                    onValidationResult={(isValid, cost) => handleValidationResult('anthropic', isValid, cost)}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Max Output Tokens
+                  </label>
+                  <input
+                    type="number"
+                    min={MAX_OUTPUT_TOKENS_RANGE.min}
+                    max={MAX_OUTPUT_TOKENS_RANGE.max}
+                    step={500}
+                    value={settings.max_output_tokens}
+                    onChange={(e) => setSettings(prev => ({ ...prev, max_output_tokens: parseInt(e.target.value) || 0 }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                   />
+                  <p className="text-xs text-gray-500 mt-1">
+                    A full resume takes about 3,000 tokens. Set it lower than the chosen model allows and long resumes get cut off.
+                  </p>
                 </div>
               </div>
             </section>
@@ -290,8 +560,13 @@ export function Settings() {
                   <h3 className="text-sm font-medium text-blue-800">Cost Information</h3>
                   <div className="mt-2 text-sm text-blue-700">
                     <ul className="space-y-1">
-                      <li>• OpenAI (GPT-4): ~$0.10-$0.25 per resume generation</li>
-                      <li>• Anthropic (Claude): ~$0.08-$0.20 per resume generation</li>
+                      {AI_PROVIDERS.map(provider => (
+                        <li key={provider.id}>
+                          • {provider.label}: {provider.id === 'openai_compatible'
+                            ? 'no per-resume charge'
+                            : `~$${typicalResumeCost(provider.id).toFixed(3)} per resume generation`}
+                        </li>
+                      ))}
                       <li>• Costs vary based on job description length and profile complexity</li>
                       <li>• Real-time cost estimates are shown during generation</li>
                     </ul>
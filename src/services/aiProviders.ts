@@ -0,0 +1,161 @@
+// Providers the generate-resume edge function can call. The ids match
+// user_settings.preferred_ai and resume_history.ai_provider, and the order
+// matches the order the edge function's failover picks a second provider in.
+export type AIProviderId = 'openai' | 'anthropic' | 'gemini' | 'mistral' | 'azure_openai' | 'openai_compatible'
+
+export interface AIProviderSettings {
+  openai_key: string
+  openai_model: string
+  anthropic_key: string
+  anthropic_model: string
+  gemini_key: string
+  gemini_model: string
+  mistral_key: string
+  mistral_model: string
+  azure_openai_key: string
+  azure_openai_endpoint: string
+  azure_openai_deployment: string
+  azure_openai_api_version: string
+  openai_compatible_base_url: string
+  openai_compatible_model: string
+  openai_compatible_key: string
+}
+
+// Settings as loaded from the database, where unset columns are null
+export type AIProviderConfig = Partial<Record<keyof AIProviderSettings, string | null>>
+
+// USD per million tokens
+export interface TokenPricing {
+  input: number
+  output: number
+}
+
+export interface AIProviderInfo {
+  id: AIProviderId
+  // Short name for history lists, e.g. "OpenAI"
+  name: string
+  // Longer label for the provider picker in Settings
+  label: string
+  // Model the edge function uses when the user has not picked one; Azure and
+  // self-hosted models are always chosen by the user
+  defaultModel: string | null
+  // Setting that holds the user's model choice (the deployment name for Azure)
+  modelField: keyof AIProviderSettings
+  pricing: TokenPricing
+  isConfigured: (settings: AIProviderConfig) => boolean
+}
+
+export const DEFAULT_AZURE_API_VERSION = '2024-06-01'
+
+// Sampling settings used until the user changes them in Settings. Temperature
+// stays within 0-1, the range every provider accepts.
+export const DEFAULT_TEMPERATURE = 0.7
+export const DEFAULT_MAX_OUTPUT_TOKENS = 8000
+export const MAX_OUTPUT_TOKENS_RANGE = { min: 1000, max: 32000 }
+
+export const AI_PROVIDERS: AIProviderInfo[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    label: 'OpenAI (GPT models)',
+    defaultModel: 'gpt-4o',
+    modelField: 'openai_model',
+    pricing: { input: 2.5, output: 10 },
+    isConfigured: settings => !!settings.openai_key
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    label: 'Anthropic (Claude models)',
+    defaultModel: 'claude-3-5-sonnet-20241022',
+    modelField: 'anthropic_model',
+    pricing: { input: 3, output: 15 },
+    isConfigured: settings => !!settings.anthropic_key
+  },
+  {
+    id: 'gemini',
+    name: 'Gemini',
+    label: 'Google Gemini',
+    defaultModel: 'gemini-1.5-pro',
+    modelField: 'gemini_model',
+    pricing: { input: 1.25, output: 5 },
+    isConfigured: settings => !!settings.gemini_key
+  },
+  {
+    id: 'mistral',
+    name: 'Mistral',
+    label: 'Mistral AI',
+    defaultModel: 'mistral-large-latest',
+    modelField: 'mistral_model',
+    pricing: { input: 2, output: 6 },
+    isConfigured: settings => !!settings.mistral_key
+  },
+  {
+    id: 'azure_openai',
+    name: 'Azure OpenAI',
+    label: 'Azure OpenAI (your deployment)',
+    defaultModel: null,
+    modelField: 'azure_openai_deployment',
+    // Azure bills the underlying model; GPT-4o rates are the common case
+    pricing: { input: 2.5, output: 10 },
+    isConfigured: settings => !!settings.azure_openai_key && !!settings.azure_openai_endpoint && !!settings.azure_openai_deployment
+  },
+  {
+    id: 'openai_compatible',
+    name: 'Self-hosted',
+    label: 'Self-hosted (OpenAI-compatible endpoint)',
+    defaultModel: null,
+    modelField: 'openai_compatible_model',
+    pricing: { input: 0, output: 0 },
+    isConfigured: settings => !!settings.openai_compatible_base_url && !!settings.openai_compatible_model
+  }
+]
+
+// Rough size of one generation: the prompt with a full profile and achievement
+// bank in, a complete resume out
+export const TYPICAL_RESUME_TOKENS = { input: 6000, output: 3000 }
+
+export function findAIProvider(id: string): AIProviderInfo | undefined {
+  return AI_PROVIDERS.find(provider => provider.id === id)
+}
+
+export function aiProviderName(id: string): string {
+  return findAIProvider(id)?.name || id
+}
+
+// The model generate-resume will call for this provider
+export function selectedModel(id: string, settings: AIProviderConfig): string | null {
+  const provider = findAIProvider(id)
+  if (!provider) return null
+  return settings[provider.modelField] || provider.defaultModel
+}
+
+export function hasConfiguredProvider(settings: AIProviderConfig): boolean {
+  return AI_PROVIDERS.some(provider => provider.isConfigured(settings))
+}
+
+export function calculateTokenCost(pricing: TokenPricing, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1000000
+}
+
+// Cost of a typical generation with the provider's default model, to a tenth of a cent
+export function typicalResumeCost(id: AIProviderId): number {
+  const provider = findAIProvider(id)
+  if (!provider) return 0
+  const cost = calculateTokenCost(provider.pricing, TYPICAL_RESUME_TOKENS.input, TYPICAL_RESUME_TOKENS.output)
+  return Math.round(cost * 1000) / 1000
+}
+
+// Costs below a cent keep enough digits to tell cheap models apart
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 3)}`
+}
+
+export function formatTokenUsage(inputTokens: number, outputTokens: number): string {
+  return `${inputTokens.toLocaleString()} in / ${outputTokens.toLocaleString()} out tokens`
+}
+
+// Base URLs are stored without a trailing slash so paths can be appended
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '')
+}
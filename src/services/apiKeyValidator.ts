@@ -1,8 +1,59 @@
+import { supabase } from '../lib/supabase'
+import { AIProviderId, AIProviderSettings, DEFAULT_AZURE_API_VERSION, normalizeBaseUrl, typicalResumeCost } from './aiProviders'
+
 interface ValidationResult {
   isValid: boolean
   error?: string
   model?: string
   estimatedCost?: number
+  // Models the key can use, for the model picker in Settings
+  availableModels?: string[]
+}
+
+// The parts of the providers' model lists read here
+interface ModelList {
+  data: Array<{ id: string }>
+}
+
+interface GeminiModelList {
+  models?: Array<{ name: string; supportedGenerationMethods?: string[] }>
+}
+
+// What generate-resume reports for a self-hosted endpoint; status is null
+// when nothing answered
+interface EndpointCheck {
+  status: number | null
+  models: string[]
+}
+
+interface MistralModelList {
+  data?: Array<{ id: string; capabilities?: { completion_chat?: boolean } }>
+}
+
+// Chat-capable ids from OpenAI's models list, which also has embedding, audio
+// and image models
+function isOpenAIChatModel(id: string): boolean {
+  return (id.startsWith('gpt-') || /^o\d/.test(id)) &&
+    !/(audio|realtime|transcribe|tts|image|instruct|search)/.test(id)
+}
+
+// Anthropic has no model list on the Messages endpoint the key check uses, so
+// it is fetched separately. A failure only means the picker stays free-text.
+async function fetchAnthropicModels(apiKey: string): Promise<string[]> {
+  try {
+    const response = await fetch('https://api.anthropic.com/v1/models?limit=100', {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      }
+    })
+    if (!response.ok) return []
+    const data: ModelList = await response.json()
+    return (data.data || []).map(model => model.id)
+  } catch {
+    return []
+  }
 }
 
 export async function validateOpenAIKey(apiKey: string): Promise<ValidationResult> {
@@ -16,12 +67,13 @@ export async function validateOpenAIKey(apiKey: string): Promise<ValidationResul
     })
 
     if (response.ok) {
-      const data = await response.json()
-      const hasGPT4 = data.data.some((model: any) => model.id.includes('gpt-4'))
+      const data: ModelList = await response.json()
+      const hasGPT4 = data.data.some(model => model.id.includes('gpt-4'))
       return {
         isValid: true,
         model: hasGPT4 ? 'GPT-4' : 'GPT-3.5',
-        estimatedCost: hasGPT4 ? 0.15 : 0.05
+        estimatedCost: typicalResumeCost('openai'),
+        availableModels: data.data.map(model => model.id).filter(isOpenAIChatModel).sort()
       }
     } else {
       const errorData = await response.json().catch(() => ({}))
@@ -64,7 +116,8 @@ export async function validateAnthropicKey(apiKey: string): Promise<ValidationRe
       return {
         isValid: true,
         model: 'Claude-3',
-        estimatedCost: 0.12
+        estimatedCost: typicalResumeCost('anthropic'),
+        availableModels: await fetchAnthropicModels(apiKey)
       }
     } else {
       const errorText = await response.text().catch(() => '')
@@ -86,7 +139,8 @@ export async function validateAnthropicKey(apiKey: string): Promise<ValidationRe
             return {
               isValid: true,
               model: 'Claude-3',
-              estimatedCost: 0.12
+              estimatedCost: typicalResumeCost('anthropic'),
+              availableModels: await fetchAnthropicModels(apiKey)
             }
           }
         } catch {
@@ -107,20 +161,252 @@ export async function validateAnthropicKey(apiKey: string): Promise<ValidationRe
   }
 }
 
+export async function validateGeminiKey(apiKey: string): Promise<ValidationResult> {
+  try {
+    const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000', {
+      method: 'GET',
+      headers: {
+        'x-goog-api-key': apiKey
+      }
+    })
+
+    if (response.ok) {
+      // Names come as "models/gemini-1.5-pro"; the edge function adds the prefix back
+      const data: GeminiModelList = await response.json()
+      return {
+        isValid: true,
+        model: 'Gemini 1.5 Pro',
+        estimatedCost: typicalResumeCost('gemini'),
+        availableModels: (data.models || [])
+          .filter(model => (model.supportedGenerationMethods || []).includes('generateContent'))
+          .map(model => model.name.replace(/^models\//, ''))
+      }
+    }
+
+    // Google answers a bad key with 400 API_KEY_INVALID rather than 401
+    const errorData = await response.json().catch(() => ({}))
+    const keyRejected = response.status === 400 || response.status === 401 || response.status === 403
+    return {
+      isValid: false,
+      error: keyRejected
+        ? 'Invalid API key - please check your key'
+        : errorData.error?.message || `Validation error (${response.status})`
+    }
+  } catch {
+    return {
+      isValid: false,
+      error: 'Network error - please check your connection'
+    }
+  }
+}
+
+export async function validateMistralKey(apiKey: string): Promise<ValidationResult> {
+  try {
+    const response = await fetch('https://api.mistral.ai/v1/models', {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`
+      }
+    })
+
+    if (response.ok) {
+      const data: MistralModelList = await response.json()
+      return {
+        isValid: true,
+        model: 'Mistral Large',
+        estimatedCost: typicalResumeCost('mistral'),
+        availableModels: (data.data || [])
+          .filter(model => model.capabilities?.completion_chat !== false)
+          .map(model => model.id)
+          .sort()
+      }
+    }
+
+    return {
+      isValid: false,
+      error: response.status === 401
+        ? 'Invalid API key - please check your key'
+        : response.status === 429
+          ? 'Rate limit exceeded - key is valid but quota reached'
+          : `Validation error (${response.status})`
+    }
+  } catch {
+    return {
+      isValid: false,
+      error: 'Network error - please check your connection'
+    }
+  }
+}
+
+// Azure has no cheap key check that also proves the deployment exists, so this
+// sends a one-token completion to the deployment itself
+export async function validateAzureOpenAI(
+  endpoint: string,
+  deployment: string,
+  apiVersion: string,
+  apiKey: string
+): Promise<ValidationResult> {
+  const normalizedEndpoint = normalizeBaseUrl(endpoint)
+  if (!/^https:\/\/[^/]+/i.test(normalizedEndpoint)) {
+    return {
+      isValid: false,
+      error: 'Endpoint must start with https://, e.g. https://my-resource.openai.azure.com'
+    }
+  }
+
+  const version = apiVersion.trim() || DEFAULT_AZURE_API_VERSION
+  try {
+    const response = await fetch(
+      `${normalizedEndpoint}/openai/deployments/${encodeURIComponent(deployment.trim())}/chat/completions?api-version=${encodeURIComponent(version)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'api-key': apiKey
+        },
+        body: JSON.stringify({
+          messages: [{ role: 'user', content: 'Hi' }],
+          max_tokens: 1
+        })
+      }
+    )
+
+    if (response.ok) {
+      const data = await response.json().catch(() => ({}))
+      return {
+        isValid: true,
+        model: data.model || deployment.trim(),
+        estimatedCost: typicalResumeCost('azure_openai')
+      }
+    }
+
+    const errorData = await response.json().catch(() => ({}))
+    let errorMessage = errorData.error?.message || `Validation error (${response.status})`
+    if (response.status === 401) {
+      errorMessage = 'Invalid API key - please check your key'
+    } else if (response.status === 404) {
+      errorMessage = `Deployment "${deployment.trim()}" was not found on this resource`
+    } else if (response.status === 429) {
+      errorMessage = 'Rate limit exceeded - key is valid but quota reached'
+    }
+
+    return {
+      isValid: false,
+      error: errorMessage
+    }
+  } catch {
+    return {
+      isValid: false,
+      error: 'Network error - please check the endpoint and your connection'
+    }
+  }
+}
+
+// Self-hosted servers list their models at {baseUrl}/models the same way
+// OpenAI does. The generate-resume edge function makes the request, because it
+// is what has to reach the server during generation; a URL that only works
+// from this browser, such as localhost, would pass a browser check and then
+// fail every generation.
+export async function validateOpenAICompatibleEndpoint(
+  baseUrl: string,
+  model: string,
+  apiKey?: string
+): Promise<ValidationResult> {
+  const normalizedUrl = normalizeBaseUrl(baseUrl)
+  if (!/^https?:\/\/[^/]+/i.test(normalizedUrl)) {
+    return {
+      isValid: false,
+      error: 'Base URL must start with http:// or https://, e.g. https://llm.example.com/v1'
+    }
+  }
+
+  if (!model.trim()) {
+    return {
+      isValid: false,
+      error: 'Model name is required'
+    }
+  }
+
+  const { data, error } = await supabase.functions.invoke<EndpointCheck>('generate-resume', {
+    body: { mode: 'check-endpoint', baseUrl: normalizedUrl, apiKey: apiKey || undefined }
+  })
+
+  if (error || !data) {
+    return {
+      isValid: false,
+      error: 'Could not run the endpoint check - please try again'
+    }
+  }
+
+  if (data.status === null) {
+    return {
+      isValid: false,
+      error: `The resume generator could not reach ${normalizedUrl}. It runs on the hosted server, not on this computer, so localhost and private network addresses do not work.`
+    }
+  }
+
+  if (data.status < 200 || data.status >= 300) {
+    return {
+      isValid: false,
+      error: data.status === 401 || data.status === 403
+        ? 'The server rejected the API key'
+        : `Endpoint returned ${data.status} - the base URL usually ends in /v1`
+    }
+  }
+
+  if (data.models.length > 0 && !data.models.includes(model.trim())) {
+    return {
+      isValid: false,
+      error: `Model "${model.trim()}" is not served here. Available: ${data.models.slice(0, 5).join(', ')}`
+    }
+  }
+
+  return {
+    isValid: true,
+    model: model.trim(),
+    estimatedCost: 0,
+    availableModels: data.models
+  }
+}
+
+export function validateProviderSettings(
+  provider: AIProviderId,
+  settings: Partial<AIProviderSettings>
+): Promise<ValidationResult> {
+  switch (provider) {
+    case 'openai':
+      return validateOpenAIKey(settings.openai_key || '')
+    case 'anthropic':
+      return validateAnthropicKey(settings.anthropic_key || '')
+    case 'gemini':
+      return validateGeminiKey(settings.gemini_key || '')
+    case 'mistral':
+      return validateMistralKey(settings.mistral_key || '')
+    case 'azure_openai':
+      return validateAzureOpenAI(
+        settings.azure_openai_endpoint || '',
+        settings.azure_openai_deployment || '',
+        settings.azure_openai_api_version || '',
+        settings.azure_openai_key || ''
+      )
+    case 'openai_compatible':
+      return validateOpenAICompatibleEndpoint(
+        settings.openai_compatible_base_url || '',
+        settings.openai_compatible_model || '',
+        settings.openai_compatible_key || undefined
+      )
+  }
+}
+
 export function calculateEstimatedCost(
   jobDescriptionLength: number,
   profileComplexity: number,
-  aiProvider: 'openai' | 'anthropic'
+  aiProvider: AIProviderId
 ): number {
-  const baseCosts = {
-    openai: 0.15,
-    anthropic: 0.12
-  }
-
   const lengthMultiplier = Math.max(1, jobDescriptionLength / 1000)
   const complexityMultiplier = Math.max(1, profileComplexity / 5)
 
-  const baseCost = baseCosts[aiProvider]
+  const baseCost = typicalResumeCost(aiProvider)
   const estimatedCost = baseCost * lengthMultiplier * complexityMultiplier
 
   return Math.round(estimatedCost * 100) / 100
@@ -1,6 +1,13 @@
 import jsPDF from 'jspdf'
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, BorderStyle, TabStopPosition, TabStopType } from 'docx'
+import { Document, Packer, Paragraph, TextRun, ExternalHyperlink, HeadingLevel, AlignmentType, BorderStyle, TabStopPosition, TabStopType } from 'docx'
 import { saveAs } from 'file-saver'
+import { groupWorkExperiences } from './workGroups'
+import { isWebUrl } from './profileLinks'
+
+interface ClaimVerification {
+  support: 'supported' | 'partial' | 'unsupported'
+  unmatchedMetrics: string[]
+}
 
 interface GeneratedResume {
   professionalTitle: string
@@ -15,6 +22,7 @@ interface GeneratedResume {
       description: string
       details: string[]
     }>
+    verification?: Array<ClaimVerification | null>
   }>
   technicalSkills: string[]
   personalInfo: {
@@ -22,6 +30,7 @@ interface GeneratedResume {
     email: string
     phone: string
     location: string
+    links?: Array<{ label: string; url: string }>
   }
   educations: Array<{
     university: string
@@ -29,9 +38,140 @@ interface GeneratedResume {
     startDate: string
     endDate: string
   }>
+  certifications?: Array<{
+    name: string
+    issuer: string
+    issueDate: string | null
+    expirationDate: string | null
+    credentialUrl: string | null
+  }>
+  projects?: Array<{
+    name: string
+    description: string
+    role: string | null
+    techStack: string[]
+    url: string | null
+    startDate: string | null
+    endDate: string | null
+  }>
+  publications?: Array<{
+    title: string
+    publisher: string | null
+    publishedDate: string | null
+    url: string | null
+    description: string | null
+  }>
+  languages?: Array<{
+    name: string
+    proficiency: string
+  }>
+  volunteering?: Array<{
+    organization: string
+    role: string
+    startDate: string | null
+    endDate: string | null
+    description: string | null
+  }>
+}
+
+// Asks the user to confirm before exporting bullets that the claim verifier
+// could not back with their stored achievements
+function confirmUnsupportedClaims(resume: GeneratedResume): boolean {
+  const unsupportedCount = resume.workExperiences.reduce((count, work) =>
+    count + (work.verification || []).filter(check => check?.support === 'unsupported').length, 0)
+
+  if (unsupportedCount === 0) return true
+
+  return window.confirm(
+    `This resume contains ${unsupportedCount} achievement(s) that could not be backed by your profile data. ` +
+    'Make sure you can speak to every claim before sending it. Export anyway?'
+  )
+}
+
+interface AdditionalSectionEntry {
+  heading: string
+  subheading?: string
+  dateRange?: string
+  body?: string
+}
+
+interface AdditionalSection {
+  title: string
+  entries: AdditionalSectionEntry[]
+}
+
+const formatMonthYear = (dateString: string | null) => {
+  if (!dateString) return ''
+  const date = new Date(dateString)
+  return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+}
+
+const formatOptionalRange = (startDate: string | null, endDate: string | null) => {
+  if (!startDate) return formatMonthYear(endDate)
+  return `${formatMonthYear(startDate)} - ${endDate ? formatMonthYear(endDate) : 'Present'}`
+}
+
+// Flattens the optional profile sections into a shape both exporters can
+// render with the same heading/entry layout; empty sections are dropped
+function buildAdditionalSections(resume: GeneratedResume): AdditionalSection[] {
+  const sections: AdditionalSection[] = [
+    {
+      title: 'PROJECTS',
+      entries: (resume.projects || []).map(project => ({
+        heading: project.name,
+        subheading: [project.role, project.url].filter(Boolean).join(' | '),
+        dateRange: formatOptionalRange(project.startDate, project.endDate),
+        body: project.techStack?.length
+          ? `${project.description}\nTech: ${project.techStack.join(', ')}`
+          : project.description
+      }))
+    },
+    {
+      title: 'CERTIFICATIONS',
+      entries: (resume.certifications || []).map(cert => ({
+        heading: cert.name,
+        subheading: cert.issuer,
+        dateRange: formatMonthYear(cert.issueDate)
+      }))
+    },
+    {
+      title: 'PUBLICATIONS',
+      entries: (resume.publications || []).map(publication => ({
+        heading: publication.title,
+        subheading: publication.publisher || undefined,
+        dateRange: formatMonthYear(publication.publishedDate),
+        body: publication.description || undefined
+      }))
+    },
+    {
+      title: 'VOLUNTEER EXPERIENCE',
+      entries: (resume.volunteering || []).map(volunteer => ({
+        heading: volunteer.role,
+        subheading: volunteer.organization,
+        dateRange: formatOptionalRange(volunteer.startDate, volunteer.endDate),
+        body: volunteer.description || undefined
+      }))
+    },
+    {
+      title: 'LANGUAGES',
+      entries: (resume.languages || []).map(language => ({
+        heading: `${language.name} - ${language.proficiency}`
+      }))
+    }
+  ]
+
+  return sections.filter(section => section.entries.length > 0)
+}
+
+// Profile links that are safe to write as link annotations; resumes saved
+// before links were checked may hold other schemes
+function webLinks(resume: GeneratedResume) {
+  return (resume.personalInfo.links || []).filter(link => isWebUrl(link.url))
 }
 
 export async function downloadPDF(resume: GeneratedResume) {
+  if (!confirmUnsupportedClaims(resume)) return
+
   const pdf = new jsPDF({
     orientation: 'portrait',
     unit: 'mm',
@@ -85,6 +225,27 @@ export async function downloadPDF(resume: GeneratedResume) {
   pdf.setTextColor(100, 100, 100)
   const contactInfo = `${resume.personalInfo.email} | ${resume.personalInfo.phone} | ${resume.personalInfo.location}`
   pdf.text(contactInfo, pageWidth / 2, yPosition, { align: 'center' })
+
+  // Profile links: laid out by hand so each label gets its own link annotation
+  const links = webLinks(resume)
+  if (links.length > 0) {
+    yPosition += 6
+    const separator = '  |  '
+    const totalWidth = links.reduce((width, link, index) =>
+      width + pdf.getTextWidth(link.label) + (index > 0 ? pdf.getTextWidth(separator) : 0), 0)
+    let xPosition = (pageWidth - totalWidth) / 2
+
+    links.forEach((link, index) => {
+      if (index > 0) {
+        pdf.setTextColor(100, 100, 100)
+        pdf.text(separator, xPosition, yPosition)
+        xPosition += pdf.getTextWidth(separator)
+      }
+      pdf.setTextColor(0, 100, 200)
+      pdf.textWithLink(link.label, xPosition, yPosition, { url: link.url })
+      xPosition += pdf.getTextWidth(link.label)
+    })
+  }
   yPosition += 12
 
   // Professional Summary
@@ -116,36 +277,52 @@ export async function downloadPDF(resume: GeneratedResume) {
   pdf.line(margin, yPosition, margin + 65, yPosition)
   yPosition += 6
 
-  resume.workExperiences.forEach(work => {
+  groupWorkExperiences(resume.workExperiences).forEach(group => {
     // Check if we need a new page
     if (yPosition > 250) {
       pdf.addPage()
       yPosition = margin
     }
 
-    // Company Name (More prominent)
+    // Company Name (More prominent); roles at the same employer share it
     pdf.setFontSize(12)
     pdf.setFont(undefined, 'bold')
     pdf.setTextColor(0, 0, 0)
-    pdf.text(`  ${work.company.toUpperCase()}`, margin, yPosition)
+    pdf.text(`  ${group.company.toUpperCase()}`, margin, yPosition)
+    if (group.roles.length > 1) {
+      const groupRange = `${formatDate(group.startDate)} - ${group.isCurrent ? 'Present' : formatDate(group.endDate)}`
+      pdf.setFont(undefined, 'italic')
+      pdf.text(groupRange, pageWidth - margin - 2, yPosition, { align: 'right' })
+    }
     yPosition += 6
 
-    // Position and Date
-    pdf.setFontSize(11)
-    pdf.text(`    ${work.position}`, margin, yPosition)
-    
-    const dateRange = `${formatDate(work.startDate)} - ${work.isCurrent ? 'Present' : formatDate(work.endDate)}`
-    pdf.setFont(undefined, 'italic')
-    pdf.text(dateRange, pageWidth - margin - 2, yPosition, { align: 'right' })
-    pdf.setFont(undefined, 'normal')
-    yPosition += 6
+    group.roles.forEach(({ work }, roleIndex) => {
+      if (roleIndex > 0 && yPosition > 260) {
+        pdf.addPage()
+        yPosition = margin
+      }
 
-    // Achievements
-    pdf.setFontSize(10)
-    pdf.setTextColor(0, 0, 0)
-    pdf.setFont(undefined, 'normal')
-    work.achievements.forEach(achievement => {
-      renderAchievement(achievement)
+      // Position and Date
+      pdf.setFontSize(11)
+      pdf.setFont(undefined, 'bold')
+      pdf.text(`    ${work.position}`, margin, yPosition)
+
+      const dateRange = `${formatDate(work.startDate)} - ${work.isCurrent ? 'Present' : formatDate(work.endDate)}`
+      pdf.setFont(undefined, 'italic')
+      pdf.text(dateRange, pageWidth - margin - 2, yPosition, { align: 'right' })
+      pdf.setFont(undefined, 'normal')
+      yPosition += 6
+
+      // Achievements
+      pdf.setFontSize(10)
+      pdf.setTextColor(0, 0, 0)
+      pdf.setFont(undefined, 'normal')
+      work.achievements.forEach(achievement => {
+        renderAchievement(achievement)
+      })
+      if (roleIndex < group.roles.length - 1) {
+        yPosition += 3
+      }
     })
     yPosition += 8
   })
@@ -212,10 +389,69 @@ export async function downloadPDF(resume: GeneratedResume) {
     yPosition += 8
   })
 
+  // Projects, certifications and the other optional sections
+  buildAdditionalSections(resume).forEach(section => {
+    if (yPosition > 230) {
+      pdf.addPage()
+      yPosition = margin
+    }
+
+    pdf.setFontSize(14)
+    pdf.setFont(undefined, 'bold')
+    pdf.setTextColor(0, 0, 0)
+    pdf.text(section.title, margin, yPosition)
+    yPosition += 2
+
+    pdf.setDrawColor(0, 100, 200)
+    pdf.line(margin, yPosition, margin + pdf.getTextWidth(section.title) + 5, yPosition)
+    yPosition += 6
+
+    section.entries.forEach(entry => {
+      if (yPosition > 260) {
+        pdf.addPage()
+        yPosition = margin
+      }
+
+      pdf.setFontSize(11)
+      pdf.setFont(undefined, 'bold')
+      pdf.setTextColor(0, 0, 0)
+      pdf.text(entry.heading, margin, yPosition)
+
+      if (entry.dateRange) {
+        pdf.setFont(undefined, 'italic')
+        pdf.text(entry.dateRange, pageWidth - margin, yPosition, { align: 'right' })
+      }
+      yPosition += 5
+
+      if (entry.subheading) {
+        pdf.setFontSize(10)
+        pdf.setTextColor(0, 100, 200)
+        pdf.setFont(undefined, 'bold')
+        pdf.text(entry.subheading, margin, yPosition)
+        yPosition += 5
+      }
+
+      if (entry.body) {
+        pdf.setFontSize(10)
+        pdf.setTextColor(0, 0, 0)
+        pdf.setFont(undefined, 'normal')
+        const bodyLines = pdf.splitTextToSize(entry.body, contentWidth)
+        pdf.text(bodyLines, margin, yPosition)
+        yPosition += bodyLines.length * 4
+      }
+      yPosition += 3
+    })
+    yPosition += 5
+  })
+
   pdf.save(`${resume.personalInfo.name}_Resume.pdf`)
 }
 
 export async function downloadDocx(resume: GeneratedResume) {
+  if (!confirmUnsupportedClaims(resume)) return
+
+  const links = webLinks(resume)
+
   const formatDate = (dateString: string) => {
     if (!dateString) return ''
     const date = new Date(dateString)
@@ -352,9 +588,34 @@ export async function downloadDocx(resume: GeneratedResume) {
           ],
           alignment: AlignmentType.CENTER,
           spacing: {
-            after: 240, // 12pt spacing after
+            after: links.length > 0 ? 60 : 240,
           },
         }),
+
+        // Profile Links
+        ...(links.length > 0 ? [
+          new Paragraph({
+            children: links.flatMap((link, index) => [
+              ...(index > 0 ? [new TextRun({ text: '  |  ', size: 22, color: '666666', font: 'Calibri' })] : []),
+              new ExternalHyperlink({
+                link: link.url,
+                children: [
+                  new TextRun({
+                    text: link.label,
+                    size: 22, // 11pt
+                    color: '0066CC',
+                    underline: {},
+                    font: 'Calibri',
+                  }),
+                ],
+              }),
+            ]),
+            alignment: AlignmentType.CENTER,
+            spacing: {
+              after: 240, // 12pt spacing after
+            },
+          }),
+        ] : []),
         
         // Professional Summary Section
         new Paragraph({
@@ -418,39 +679,25 @@ export async function downloadDocx(resume: GeneratedResume) {
           },
         }),
         
-        ...resume.workExperiences.flatMap(work => [
-          // Company Name (More prominent)
+        ...groupWorkExperiences(resume.workExperiences).flatMap(group => [
+          // Company Name (More prominent); roles at the same employer share it
           new Paragraph({
             children: [
               new TextRun({
-                text: `    ${work.company}`,
+                text: `    ${group.company}`,
                 bold: true,
                 size: 24, // 12pt
                 color: '000000',
                 font: 'Calibri',
               }),
-            ],
-            spacing: {
-              before: 240, // 12pt before
-              after: 60,   // 3pt after
-            },
-          }),
-          
-          // Job Title and Date (with right-aligned date)
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: `    ${work.position}`,
-                bold: true,
-                size: 24, // 12pt
-                font: 'Calibri',
-              }),
-              new TextRun({
-                text: `\t${formatDate(work.startDate)} - ${work.isCurrent ? 'Present' : formatDate(work.endDate)}`,
-                size: 22, // 11pt
-                font: 'Calibri',
-                italics: true,
-              }),
+              ...(group.roles.length > 1 ? [
+                new TextRun({
+                  text: `\t${formatDate(group.startDate)} - ${group.isCurrent ? 'Present' : formatDate(group.endDate)}`,
+                  size: 22, // 11pt
+                  font: 'Calibri',
+                  italics: true,
+                }),
+              ] : []),
             ],
             tabStops: [
               {
@@ -459,12 +706,43 @@ export async function downloadDocx(resume: GeneratedResume) {
               },
             ],
             spacing: {
-              after: 120, // 6pt after
+              before: 240, // 12pt before
+              after: 60,   // 3pt after
             },
           }),
-          
-          // Achievements with improved formatting
-          ...work.achievements.flatMap(achievement => createAchievementParagraphs(achievement)),
+
+          ...group.roles.flatMap(({ work }, roleIndex) => [
+            // Job Title and Date (with right-aligned date)
+            new Paragraph({
+              children: [
+                new TextRun({
+                  text: `    ${work.position}`,
+                  bold: true,
+                  size: 24, // 12pt
+                  font: 'Calibri',
+                }),
+                new TextRun({
+                  text: `\t${formatDate(work.startDate)} - ${work.isCurrent ? 'Present' : formatDate(work.endDate)}`,
+                  size: 22, // 11pt
+                  font: 'Calibri',
+                  italics: true,
+                }),
+              ],
+              tabStops: [
+                {
+                  type: TabStopType.RIGHT,
+                  position: 9360, // Right align at page margin
+                },
+              ],
+              spacing: {
+                before: roleIndex > 0 ? 120 : 0, // 6pt between roles at one employer
+                after: 120, // 6pt after
+              },
+            }),
+
+            // Achievements with improved formatting
+            ...work.achievements.flatMap(achievement => createAchievementParagraphs(achievement)),
+          ]),
         ]),
         
         // Technical Skills Section
@@ -580,6 +858,95 @@ export async function downloadDocx(resume: GeneratedResume) {
             },
           }),
         ]),
+
+        // Projects, certifications and the other optional sections
+        ...buildAdditionalSections(resume).flatMap(section => [
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: section.title,
+                bold: true,
+                size: 28, // 14pt
+                font: 'Calibri',
+              }),
+            ],
+            border: {
+              bottom: {
+                color: '0066CC',
+                space: 1,
+                style: BorderStyle.SINGLE,
+                size: 8,
+              },
+            },
+            spacing: {
+              before: 240, // 12pt before
+              after: 180,  // 9pt after
+            },
+          }),
+
+          ...section.entries.flatMap(entry => [
+            new Paragraph({
+              children: [
+                new TextRun({
+                  text: entry.heading,
+                  bold: true,
+                  size: 22, // 11pt
+                  font: 'Calibri',
+                }),
+                ...(entry.dateRange ? [
+                  new TextRun({
+                    text: `\t${entry.dateRange}`,
+                    size: 22, // 11pt
+                    font: 'Calibri',
+                    italics: true,
+                  }),
+                ] : []),
+              ],
+              tabStops: [
+                {
+                  type: TabStopType.RIGHT,
+                  position: 9360, // Right align at page margin
+                },
+              ],
+              spacing: {
+                before: 120, // 6pt before
+                after: 60,   // 3pt after
+              },
+            }),
+
+            ...(entry.subheading ? [
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: entry.subheading,
+                    size: 22, // 11pt
+                    color: '0066CC',
+                    font: 'Calibri',
+                  }),
+                ],
+                spacing: {
+                  after: 60, // 3pt after
+                },
+              }),
+            ] : []),
+
+            ...(entry.body ? entry.body.split('\n') : []).map(line =>
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: line,
+                    size: 22, // 11pt
+                    font: 'Calibri',
+                  }),
+                ],
+                spacing: {
+                  line: 276, // 1.15 line spacing
+                  after: 60, // 3pt after
+                },
+              })
+            ),
+          ]),
+        ]),
       ],
     }],
   })
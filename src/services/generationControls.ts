@@ -0,0 +1,51 @@
+// Options for the Generate page's generation controls. The generate-resume
+// edge function applies them (see
+// supabase/functions/generate-resume/generationControls.ts) and falls back to
+// the defaults for anything missing or out of range.
+
+export type Seniority = 'auto' | 'junior' | 'mid' | 'senior' | 'lead'
+export type Tone = 'conservative' | 'confident' | 'technical'
+export type SummaryLength = 'short' | 'standard' | 'detailed'
+
+export interface GenerationControls {
+  seniority: Seniority
+  tone: Tone
+  pageCount: number
+  // Achievements for each of the two most recent roles
+  recentRoleBullets: number
+  // Achievements for every older role
+  olderRoleBullets: number
+  summaryLength: SummaryLength
+}
+
+export const DEFAULT_GENERATION_CONTROLS: GenerationControls = {
+  seniority: 'auto',
+  tone: 'confident',
+  pageCount: 2,
+  recentRoleBullets: 5,
+  olderRoleBullets: 5,
+  summaryLength: 'standard'
+}
+
+export const BULLETS_PER_ROLE_RANGE = { min: 1, max: 8 }
+export const PAGE_COUNT_RANGE = { min: 1, max: 3 }
+
+export const SENIORITY_OPTIONS: Array<{ value: Seniority; label: string }> = [
+  { value: 'auto', label: 'Auto-detect from job description' },
+  { value: 'junior', label: 'Junior' },
+  { value: 'mid', label: 'Mid-level' },
+  { value: 'senior', label: 'Senior' },
+  { value: 'lead', label: 'Lead / Staff' }
+]
+
+export const TONE_OPTIONS: Array<{ value: Tone; label: string }> = [
+  { value: 'conservative', label: 'Conservative' },
+  { value: 'confident', label: 'Confident' },
+  { value: 'technical', label: 'Technical' }
+]
+
+export const SUMMARY_LENGTH_OPTIONS: Array<{ value: SummaryLength; label: string }> = [
+  { value: 'short', label: 'Short (2-3 sentences)' },
+  { value: 'standard', label: 'Standard (6-7 sentences)' },
+  { value: 'detailed', label: 'Detailed (8-9 sentences)' }
+]
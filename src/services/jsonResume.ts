@@ -0,0 +1,370 @@
+import { saveAs } from 'file-saver'
+import { ParsedResume } from './resumeImporter'
+import { PROFILE_LINK_TYPES, detectLinkType, defaultLinkLabel } from './profileLinks'
+
+// Subset of the JSON Resume schema (https://jsonresume.org/schema) that maps
+// onto our profile tables. Unknown fields are ignored on import.
+export interface JsonResume {
+  $schema?: string
+  basics?: {
+    name?: string
+    label?: string
+    email?: string
+    phone?: string
+    url?: string
+    summary?: string
+    location?: { address?: string; postalCode?: string; city?: string; countryCode?: string; region?: string }
+    profiles?: Array<{ network?: string; username?: string; url?: string }>
+  }
+  work?: Array<{
+    name?: string
+    position?: string
+    url?: string
+    startDate?: string
+    endDate?: string
+    summary?: string
+    highlights?: string[]
+  }>
+  volunteer?: Array<{
+    organization?: string
+    position?: string
+    url?: string
+    startDate?: string
+    endDate?: string
+    summary?: string
+    highlights?: string[]
+  }>
+  education?: Array<{
+    institution?: string
+    url?: string
+    area?: string
+    studyType?: string
+    startDate?: string
+    endDate?: string
+    score?: string
+    courses?: string[]
+  }>
+  certificates?: Array<{ name?: string; date?: string; issuer?: string; url?: string }>
+  publications?: Array<{ name?: string; publisher?: string; releaseDate?: string; url?: string; summary?: string }>
+  skills?: Array<{ name?: string; level?: string; keywords?: string[] }>
+  languages?: Array<{ language?: string; fluency?: string }>
+  projects?: Array<{
+    name?: string
+    description?: string
+    highlights?: string[]
+    keywords?: string[]
+    startDate?: string
+    endDate?: string
+    url?: string
+    roles?: string[]
+  }>
+}
+
+const JSON_RESUME_SCHEMA = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json'
+
+// Profile rows as loaded on the Profile page (empty strings instead of nulls)
+export interface ProfileExportData {
+  profile: { name: string; email: string; phone: string; location: string }
+  workExperiences: Array<{
+    company: string
+    position: string
+    start_date: string
+    end_date: string
+    is_current: boolean
+    achievements: Array<{ description: string }>
+  }>
+  educations: Array<{ university: string; degree: string; start_date: string; end_date: string }>
+  skills: Array<{ name: string; category: string; proficiency: string }>
+  certifications: Array<{ name: string; issuer: string; issue_date: string; credential_url: string }>
+  projects: Array<{ name: string; description: string; role: string; tech_stack: string[]; url: string; start_date: string; end_date: string }>
+  publications: Array<{ title: string; publisher: string; published_date: string; url: string; description: string }>
+  languages: Array<{ name: string; proficiency: string }>
+  volunteerExperiences: Array<{ organization: string; role: string; start_date: string; end_date: string; description: string }>
+  links: Array<{ link_type: string; label: string; url: string }>
+}
+
+// The parts of a stored resume_history.resume_data entry we can express
+interface GeneratedResumeData {
+  professionalTitle: string
+  professionalSummary: string
+  workExperiences: Array<{
+    company: string
+    position: string
+    startDate: string
+    endDate: string
+    isCurrent: boolean
+    achievements: Array<string | { description: string; details: string[] }>
+  }>
+  technicalSkills: string[]
+  personalInfo: { name: string; email: string; phone: string; location: string; links?: Array<{ label: string; url: string }> }
+  educations: Array<{ university: string; degree: string; startDate: string; endDate: string }>
+  certifications?: Array<{ name: string; issuer: string; issueDate: string | null; credentialUrl: string | null }>
+  projects?: Array<{ name: string; description: string; role: string | null; techStack: string[]; url: string | null; startDate: string | null; endDate: string | null }>
+  publications?: Array<{ title: string; publisher: string | null; publishedDate: string | null; url: string | null; description: string | null }>
+  languages?: Array<{ name: string; proficiency: string }>
+  volunteering?: Array<{ organization: string; role: string; startDate: string | null; endDate: string | null; description: string | null }>
+}
+
+const FLUENCY_BY_PROFICIENCY: Record<string, string> = {
+  elementary: 'Elementary proficiency',
+  limited_working: 'Limited working proficiency',
+  professional_working: 'Professional working proficiency',
+  full_professional: 'Full professional proficiency',
+  native: 'Native or bilingual proficiency'
+}
+
+// basics.profiles entries carry a network name; the username is the last path segment
+function toJsonResumeProfile(link: { label: string; url: string; link_type?: string }) {
+  const linkType = link.link_type || detectLinkType(link.url)
+  return {
+    network: PROFILE_LINK_TYPES.find(type => type.value === linkType)?.label || link.label,
+    username: defaultLinkLabel(link.url).split('/').filter(Boolean).slice(1).pop(),
+    url: link.url
+  }
+}
+
+// JSON Resume dates are ISO 8601 with optional month and day
+function toJsonResumeDate(date: string | null | undefined): string | undefined {
+  return date ? date.slice(0, 10) : undefined
+}
+
+function fromJsonResumeDate(date: string | undefined): string {
+  if (!date) return ''
+  const match = date.trim().match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/)
+  return match ? `${match[1]}-${match[2] || '01'}-${match[3] || '01'}` : ''
+}
+
+function splitLocation(location: string): { city?: string; region?: string } {
+  const [city, ...rest] = location.split(',').map(part => part.trim())
+  return { city: city || undefined, region: rest.join(', ') || undefined }
+}
+
+// Drops undefined values and empty arrays so the exported file stays readable
+function compact<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value, (_, v) => (Array.isArray(v) && v.length === 0 ? undefined : v)))
+}
+
+export function profileToJsonResume(data: ProfileExportData): JsonResume {
+  const skillsByCategory = new Map<string, string[]>()
+  data.skills.forEach(skill => {
+    const category = skill.category || 'Other'
+    skillsByCategory.set(category, [...(skillsByCategory.get(category) || []), skill.name])
+  })
+
+  return compact({
+    $schema: JSON_RESUME_SCHEMA,
+    basics: {
+      name: data.profile.name,
+      email: data.profile.email,
+      phone: data.profile.phone,
+      location: splitLocation(data.profile.location),
+      profiles: data.links.filter(link => link.url).map(toJsonResumeProfile)
+    },
+    work: data.workExperiences.map(work => ({
+      name: work.company,
+      position: work.position,
+      startDate: toJsonResumeDate(work.start_date),
+      endDate: work.is_current ? undefined : toJsonResumeDate(work.end_date),
+      highlights: work.achievements.map(achievement => achievement.description).filter(Boolean)
+    })),
+    volunteer: data.volunteerExperiences.map(volunteer => ({
+      organization: volunteer.organization,
+      position: volunteer.role,
+      startDate: toJsonResumeDate(volunteer.start_date),
+      endDate: toJsonResumeDate(volunteer.end_date),
+      summary: volunteer.description || undefined
+    })),
+    education: data.educations.map(edu => ({
+      institution: edu.university,
+      studyType: edu.degree,
+      startDate: toJsonResumeDate(edu.start_date),
+      endDate: toJsonResumeDate(edu.end_date)
+    })),
+    certificates: data.certifications.map(cert => ({
+      name: cert.name,
+      issuer: cert.issuer,
+      date: toJsonResumeDate(cert.issue_date),
+      url: cert.credential_url || undefined
+    })),
+    publications: data.publications.map(publication => ({
+      name: publication.title,
+      publisher: publication.publisher || undefined,
+      releaseDate: toJsonResumeDate(publication.published_date),
+      url: publication.url || undefined,
+      summary: publication.description || undefined
+    })),
+    skills: Array.from(skillsByCategory, ([name, keywords]) => ({ name, keywords })),
+    languages: data.languages.map(language => ({
+      language: language.name,
+      fluency: FLUENCY_BY_PROFICIENCY[language.proficiency] || language.proficiency
+    })),
+    projects: data.projects.map(project => ({
+      name: project.name,
+      description: project.description,
+      keywords: project.tech_stack,
+      roles: project.role ? [project.role] : undefined,
+      startDate: toJsonResumeDate(project.start_date),
+      endDate: toJsonResumeDate(project.end_date),
+      url: project.url || undefined
+    }))
+  })
+}
+
+export function generatedResumeToJsonResume(resume: GeneratedResumeData): JsonResume {
+  return compact({
+    $schema: JSON_RESUME_SCHEMA,
+    basics: {
+      name: resume.personalInfo.name,
+      label: resume.professionalTitle,
+      email: resume.personalInfo.email,
+      phone: resume.personalInfo.phone,
+      summary: resume.professionalSummary,
+      location: splitLocation(resume.personalInfo.location),
+      profiles: (resume.personalInfo.links || []).map(toJsonResumeProfile)
+    },
+    work: resume.workExperiences.map(work => ({
+      name: work.company,
+      position: work.position,
+      startDate: toJsonResumeDate(work.startDate),
+      endDate: work.isCurrent ? undefined : toJsonResumeDate(work.endDate),
+      // Structured achievements flatten to their headline followed by the details
+      highlights: work.achievements.flatMap(achievement =>
+        typeof achievement === 'string' ? [achievement] : [achievement.description, ...achievement.details]
+      )
+    })),
+    volunteer: (resume.volunteering || []).map(volunteer => ({
+      organization: volunteer.organization,
+      position: volunteer.role,
+      startDate: toJsonResumeDate(volunteer.startDate),
+      endDate: toJsonResumeDate(volunteer.endDate),
+      summary: volunteer.description || undefined
+    })),
+    education: resume.educations.map(edu => ({
+      institution: edu.university,
+      studyType: edu.degree,
+      startDate: toJsonResumeDate(edu.startDate),
+      endDate: toJsonResumeDate(edu.endDate)
+    })),
+    certificates: (resume.certifications || []).map(cert => ({
+      name: cert.name,
+      issuer: cert.issuer,
+      date: toJsonResumeDate(cert.issueDate),
+      url: cert.credentialUrl || undefined
+    })),
+    publications: (resume.publications || []).map(publication => ({
+      name: publication.title,
+      publisher: publication.publisher || undefined,
+      releaseDate: toJsonResumeDate(publication.publishedDate),
+      url: publication.url || undefined,
+      summary: publication.description || undefined
+    })),
+    // Generated skills are "Category: a, b, c" lines
+    skills: resume.technicalSkills.map(line => {
+      const [name, keywords] = line.includes(':') ? [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 1)] : [line, '']
+      return { name: name.trim(), keywords: keywords.split(',').map(keyword => keyword.trim()).filter(Boolean) }
+    }),
+    languages: (resume.languages || []).map(language => ({ language: language.name, fluency: language.proficiency })),
+    projects: (resume.projects || []).map(project => ({
+      name: project.name,
+      description: project.description,
+      keywords: project.techStack,
+      roles: project.role ? [project.role] : undefined,
+      startDate: toJsonResumeDate(project.startDate),
+      endDate: toJsonResumeDate(project.endDate),
+      url: project.url || undefined
+    }))
+  })
+}
+
+// Maps a resume.json onto the import shape so it goes through the same review
+// and merge flow as the other importers
+export function jsonResumeToParsedResume(json: JsonResume): ParsedResume {
+  if (!json || typeof json !== 'object' || (!json.basics && !json.work && !json.education)) {
+    throw new Error('This file is not a JSON Resume document (expected "basics", "work" or "education")')
+  }
+
+  const location = json.basics?.location
+  const fluencyToProficiency = (fluency = '') => {
+    const value = fluency.toLowerCase()
+    if (/native|bilingual|mother/.test(value)) return 'native'
+    if (/full|fluent/.test(value)) return 'full_professional'
+    if (/limited/.test(value)) return 'limited_working'
+    if (/elementary|basic|beginner/.test(value)) return 'elementary'
+    return 'professional_working'
+  }
+
+  return {
+    name: json.basics?.name || '',
+    email: json.basics?.email || '',
+    phone: json.basics?.phone || '',
+    location: [location?.city, location?.region || location?.countryCode].filter(Boolean).join(', '),
+    links: [
+      ...(json.basics?.url ? [{ link_type: 'website' as const, label: defaultLinkLabel(json.basics.url), url: json.basics.url }] : []),
+      ...(json.basics?.profiles || []).filter(profile => profile.url).map(profile => ({
+        link_type: detectLinkType(profile.url!),
+        label: defaultLinkLabel(profile.url!),
+        url: profile.url!
+      }))
+    ],
+    workExperiences: (json.work || []).map(work => ({
+      company: work.name || '',
+      position: work.position || '',
+      start_date: fromJsonResumeDate(work.startDate),
+      end_date: fromJsonResumeDate(work.endDate),
+      is_current: !work.endDate,
+      achievements: [...(work.summary ? [work.summary] : []), ...(work.highlights || [])]
+    })),
+    educations: (json.education || []).map(edu => ({
+      university: edu.institution || '',
+      degree: [edu.studyType, edu.area].filter(Boolean).join(', '),
+      start_date: fromJsonResumeDate(edu.startDate),
+      end_date: fromJsonResumeDate(edu.endDate)
+    })),
+    // A skill entry with keywords is a category; without keywords it is a single skill
+    skills: (json.skills || []).flatMap(skill =>
+      skill.keywords && skill.keywords.length > 0
+        ? skill.keywords.map(keyword => ({ name: keyword, category: skill.name || '' }))
+        : [{ name: skill.name || '', category: '' }]
+    ).filter(skill => skill.name),
+    certifications: (json.certificates || []).map(cert => ({
+      name: cert.name || '',
+      issuer: cert.issuer || '',
+      issue_date: fromJsonResumeDate(cert.date),
+      expiration_date: '',
+      credential_id: '',
+      credential_url: cert.url || ''
+    })),
+    projects: (json.projects || []).map(project => ({
+      name: project.name || '',
+      description: [project.description, ...(project.highlights || [])].filter(Boolean).join('\n'),
+      role: (project.roles || []).join(', '),
+      tech_stack: project.keywords || [],
+      url: project.url || '',
+      start_date: fromJsonResumeDate(project.startDate),
+      end_date: fromJsonResumeDate(project.endDate)
+    })),
+    publications: (json.publications || []).map(publication => ({
+      title: publication.name || '',
+      publisher: publication.publisher || '',
+      published_date: fromJsonResumeDate(publication.releaseDate),
+      url: publication.url || '',
+      description: publication.summary || ''
+    })),
+    languages: (json.languages || []).map(language => ({
+      name: language.language || '',
+      proficiency: fluencyToProficiency(language.fluency)
+    })),
+    volunteerExperiences: (json.volunteer || []).map(volunteer => ({
+      organization: volunteer.organization || '',
+      role: volunteer.position || '',
+      start_date: fromJsonResumeDate(volunteer.startDate),
+      end_date: fromJsonResumeDate(volunteer.endDate),
+      description: [volunteer.summary, ...(volunteer.highlights || [])].filter(Boolean).join('\n')
+    }))
+  }
+}
+
+export function downloadJsonResume(resume: JsonResume, fileName: string) {
+  const blob = new Blob([JSON.stringify(resume, null, 2)], { type: 'application/json' })
+  saveAs(blob, fileName)
+}
@@ -0,0 +1,133 @@
+import JSZip from 'jszip'
+import { ParsedResume, toIsoDate } from './resumeImporter'
+
+type CsvRecord = Record<string, string>
+
+// Minimal RFC 4180 reader: quoted fields may contain commas, quotes and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+// Reads one CSV from the archive as records keyed by column name. Some LinkedIn
+// exports start with a "Notes:" preamble, so the header is the first row that
+// contains the expected column.
+async function readCsv(zip: JSZip, fileName: string, headerColumn: string): Promise<CsvRecord[]> {
+  const entry = zip.file(new RegExp(`(^|/)${fileName.replace('.', '\\.')}$`, 'i'))[0]
+  if (!entry) return []
+
+  const rows = parseCsv((await entry.async('string')).replace(/^\uFEFF/, ''))
+  const headerIndex = rows.findIndex(cells => cells.some(cell => cell.trim() === headerColumn))
+  if (headerIndex === -1) return []
+
+  const header = rows[headerIndex].map(cell => cell.trim())
+  return rows.slice(headerIndex + 1).map(cells =>
+    Object.fromEntries(header.map((column, i) => [column, (cells[i] || '').trim()]))
+  )
+}
+
+// Position descriptions are free text; each line or bullet becomes an achievement
+function splitDescription(description: string): string[] {
+  return description
+    .split(/\r?\n|(?:^|\s)[•●▪]\s+/)
+    .map(line => line.replace(/^\s*[-*]\s+/, '').trim())
+    .filter(Boolean)
+}
+
+// Maps LinkedIn's "Get a copy of your data" archive onto the same shape the
+// resume parsers produce, so it goes through the same review and merge flow
+export async function parseLinkedInExport(data: ArrayBuffer): Promise<ParsedResume> {
+  const zip = await JSZip.loadAsync(data)
+
+  const [profileRows, emailRows, phoneRows, positionRows, educationRows, skillRows, certificationRows] = await Promise.all([
+    readCsv(zip, 'Profile.csv', 'First Name'),
+    readCsv(zip, 'Email Addresses.csv', 'Email Address'),
+    readCsv(zip, 'PhoneNumbers.csv', 'Number'),
+    readCsv(zip, 'Positions.csv', 'Company Name'),
+    readCsv(zip, 'Education.csv', 'School Name'),
+    readCsv(zip, 'Skills.csv', 'Name'),
+    readCsv(zip, 'Certifications.csv', 'Name')
+  ])
+
+  if (profileRows.length === 0 && positionRows.length === 0 && educationRows.length === 0) {
+    throw new Error('This does not look like a LinkedIn data export. Expected Profile.csv, Positions.csv or Education.csv in the ZIP.')
+  }
+
+  const profile = profileRows[0] || {}
+  const primaryEmail = emailRows.find(row => row['Primary'] === 'Yes') || emailRows[0]
+
+  return {
+    name: [profile['First Name'], profile['Last Name']].filter(Boolean).join(' '),
+    email: primaryEmail?.['Email Address'] || '',
+    phone: phoneRows[0]?.['Number'] || '',
+    location: profile['Geo Location'] || profile['Location'] || '',
+    workExperiences: positionRows
+      .filter(row => row['Company Name'] || row['Title'])
+      .map(row => ({
+        company: row['Company Name'] || '',
+        position: row['Title'] || '',
+        start_date: toIsoDate(row['Started On'] || ''),
+        end_date: toIsoDate(row['Finished On'] || ''),
+        is_current: !row['Finished On'],
+        achievements: splitDescription(row['Description'] || '')
+      })),
+    educations: educationRows
+      .filter(row => row['School Name'])
+      .map(row => ({
+        university: row['School Name'],
+        degree: [row['Degree Name'], row['Field Of Study']].filter(Boolean).join(', '),
+        start_date: toIsoDate(row['Start Date'] || ''),
+        end_date: toIsoDate(row['End Date'] || '')
+      })),
+    skills: skillRows
+      .filter(row => row['Name'])
+      .map(row => ({ name: row['Name'], category: '' })),
+    certifications: certificationRows
+      .filter(row => row['Name'])
+      .map(row => ({
+        name: row['Name'],
+        issuer: row['Authority'] || '',
+        issue_date: toIsoDate(row['Started On'] || ''),
+        expiration_date: toIsoDate(row['Finished On'] || ''),
+        credential_id: row['License Number'] || '',
+        credential_url: row['Url'] || ''
+      }))
+  }
+}
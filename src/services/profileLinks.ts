@@ -0,0 +1,50 @@
+export type ProfileLinkType = 'linkedin' | 'github' | 'portfolio' | 'website' | 'stackoverflow' | 'other'
+
+export const PROFILE_LINK_TYPES: Array<{ value: ProfileLinkType; label: string }> = [
+  { value: 'linkedin', label: 'LinkedIn' },
+  { value: 'github', label: 'GitHub' },
+  { value: 'portfolio', label: 'Portfolio' },
+  { value: 'website', label: 'Personal site' },
+  { value: 'stackoverflow', label: 'Stack Overflow' },
+  { value: 'other', label: 'Other' }
+]
+
+const HOST_LINK_TYPES: Array<{ pattern: RegExp; type: ProfileLinkType }> = [
+  { pattern: /(^|\.)linkedin\.com$/i, type: 'linkedin' },
+  { pattern: /(^|\.)github\.(com|io)$/i, type: 'github' },
+  { pattern: /(^|\.)stackoverflow\.com$/i, type: 'stackoverflow' }
+]
+
+// Links end up as hrefs in the preview and as PDF and DOCX link annotations, so
+// only http and https are allowed; anything else, javascript: included, is
+// normalized to ''. A bare host ("github.com/jdoe", "localhost:3000") gets https.
+export function normalizeLinkUrl(url: string): string {
+  const trimmed = url.trim()
+  if (!trimmed) return ''
+  const withScheme = /^[a-z][a-z0-9+.-]*:(?!\d)/i.test(trimmed) ? trimmed : `https://${trimmed}`
+  return isWebUrl(withScheme) ? withScheme : ''
+}
+
+export function isWebUrl(url: string | null | undefined): url is string {
+  if (!url) return false
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+export function detectLinkType(url: string): ProfileLinkType {
+  try {
+    const host = new URL(normalizeLinkUrl(url)).hostname
+    return HOST_LINK_TYPES.find(entry => entry.pattern.test(host))?.type || 'website'
+  } catch {
+    return 'website'
+  }
+}
+
+// Resume headers read better with "github.com/jdoe" than the full URL
+export function defaultLinkLabel(url: string): string {
+  return url.trim().replace(/^[a-z]+:\/\//i, '').replace(/^www\./i, '').replace(/\/$/, '')
+}
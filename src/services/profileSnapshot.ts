@@ -0,0 +1,203 @@
+import { supabase, Database } from '../lib/supabase'
+
+type Tables = Database['public']['Tables']
+
+// Any snapshot row, for the diff which compares rows column by column
+type Row = Record<string, unknown>
+
+// Shape written by the generate-resume edge function into profile_snapshots.snapshot.
+// Rows are stored as loaded from the database (snake_case, nulls kept). The
+// profile is empty when a snapshot is missing it.
+export interface ProfileSnapshotData {
+  profile: Partial<Tables['profiles']['Row']>
+  persona: Tables['personas']['Row'] | null
+  workExperiences: Array<Tables['work_experiences']['Row'] & { achievements: Tables['achievements']['Row'][] }>
+  educations: Tables['educations']['Row'][]
+  skills: Tables['skills']['Row'][]
+  certifications: Tables['certifications']['Row'][]
+  projects: Tables['projects']['Row'][]
+  publications: Tables['publications']['Row'][]
+  languages: Tables['languages']['Row'][]
+  volunteering: Tables['volunteer_experiences']['Row'][]
+  links: Tables['profile_links']['Row'][]
+}
+
+export interface FieldChange {
+  field: string
+  before: string
+  after: string
+}
+
+export interface SectionDiff {
+  title: string
+  added: string[]
+  removed: string[]
+  changed: Array<{ label: string; changes: FieldChange[] }>
+}
+
+export interface ProfileDiff {
+  profile: FieldChange[]
+  sections: SectionDiff[]
+}
+
+type CollectionKey = Exclude<keyof ProfileSnapshotData, 'profile' | 'persona'>
+
+const SECTIONS: Array<{ key: CollectionKey; title: string; label: (row: Row) => string }> = [
+  { key: 'workExperiences', title: 'Work Experience', label: row => `${row.position} at ${row.company}` },
+  { key: 'educations', title: 'Education', label: row => `${row.degree}, ${row.university}` },
+  { key: 'skills', title: 'Skills', label: row => String(row.name) },
+  { key: 'projects', title: 'Projects', label: row => String(row.name) },
+  { key: 'certifications', title: 'Certifications', label: row => String(row.name) },
+  { key: 'publications', title: 'Publications', label: row => String(row.title) },
+  { key: 'volunteering', title: 'Volunteer Experience', label: row => `${row.role} at ${row.organization}` },
+  { key: 'languages', title: 'Languages', label: row => String(row.name) },
+  { key: 'links', title: 'Online Presence', label: row => String(row.url) }
+]
+
+// Bookkeeping columns that change on every save and say nothing about content
+const IGNORED_FIELDS = new Set(['id', 'user_id', 'profile_id', 'work_experience_id', 'created_at', 'updated_at', 'achievements'])
+
+export async function loadProfileSnapshot(snapshotId: string): Promise<ProfileSnapshotData> {
+  const { data, error } = await supabase
+    .from('profile_snapshots')
+    .select('snapshot')
+    .eq('id', snapshotId)
+    .single()
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Profile snapshot not found')
+  }
+
+  const snapshot: Partial<ProfileSnapshotData> = data.snapshot || {}
+  return {
+    profile: snapshot.profile || {},
+    persona: snapshot.persona || null,
+    workExperiences: snapshot.workExperiences || [],
+    educations: snapshot.educations || [],
+    skills: snapshot.skills || [],
+    certifications: snapshot.certifications || [],
+    projects: snapshot.projects || [],
+    publications: snapshot.publications || [],
+    languages: snapshot.languages || [],
+    volunteering: snapshot.volunteering || [],
+    links: snapshot.links || []
+  }
+}
+
+// Loads the live profile in snapshot shape. When the snapshot was taken through
+// a persona that still exists, the persona's current selection is applied so the
+// diff compares like with like.
+export async function loadCurrentProfileData(userId: string, personaId: string | null): Promise<ProfileSnapshotData> {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .single()
+
+  if (profileError || !profile) {
+    throw new Error(profileError?.message || 'Profile not found')
+  }
+
+  const byProfile = (table: string) => supabase.from(table).select('*').eq('profile_id', profile.id)
+  const [work, educations, skills, certifications, projects, publications, languages, volunteering, links, persona] = await Promise.all([
+    supabase
+      .from('work_experiences')
+      .select('*, achievements(*)')
+      .eq('profile_id', profile.id)
+      .order('sort_order', { ascending: true })
+      .order('start_date', { ascending: false })
+      .order('created_at', { referencedTable: 'achievements', ascending: true }),
+    byProfile('educations').order('start_date', { ascending: false }),
+    byProfile('skills'),
+    byProfile('certifications'),
+    byProfile('projects'),
+    byProfile('publications'),
+    byProfile('languages'),
+    byProfile('volunteer_experiences'),
+    byProfile('profile_links').order('sort_order', { ascending: true }),
+    personaId
+      ? supabase.from('personas').select('*').eq('id', personaId).maybeSingle()
+      : Promise.resolve({ data: null })
+  ])
+
+  const selected = <T extends { id: string }>(rows: T[] | null, ids: string[] | undefined) =>
+    (rows || []).filter(row => !persona.data || (ids || []).includes(row.id))
+
+  return {
+    profile,
+    persona: persona.data,
+    workExperiences: selected(work.data, persona.data?.work_experience_ids),
+    educations: selected(educations.data, persona.data?.education_ids),
+    skills: selected(skills.data, persona.data?.skill_ids),
+    certifications: certifications.data || [],
+    projects: projects.data || [],
+    publications: publications.data || [],
+    languages: languages.data || [],
+    volunteering: volunteering.data || [],
+    links: links.data || []
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.join(', ') || '—'
+  return String(value)
+}
+
+function diffFields(before: Row, after: Row): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => formatValue(before[field]) !== formatValue(after[field]))
+    .map(field => ({ field, before: formatValue(before[field]), after: formatValue(after[field]) }))
+}
+
+function achievementTexts(work: Row): string[] {
+  return Array.isArray(work.achievements) ? work.achievements.map((achievement: Row) => String(achievement.description)) : []
+}
+
+function diffAchievements(before: Row, after: Row): FieldChange[] {
+  const beforeText = achievementTexts(before)
+  const afterText = achievementTexts(after)
+  return [
+    ...beforeText.filter(text => !afterText.includes(text)).map(text => ({ field: 'achievement removed', before: text, after: '—' })),
+    ...afterText.filter(text => !beforeText.includes(text)).map(text => ({ field: 'achievement added', before: '—', after: text }))
+  ]
+}
+
+// Compares a snapshot with the current profile. Rows are matched by id first and
+// by their display label second, so re-created rows still pair up.
+export function diffProfileSnapshots(before: ProfileSnapshotData, after: ProfileSnapshotData): ProfileDiff {
+  const sections = SECTIONS.map(({ key, title, label }) => {
+    const unmatchedAfter: Row[] = [...after[key]]
+    const diff: SectionDiff = { title, added: [], removed: [], changed: [] }
+
+    const beforeRows: Row[] = before[key]
+    beforeRows.forEach(beforeRow => {
+      const idIndex = unmatchedAfter.findIndex(row => row.id === beforeRow.id)
+      const index = idIndex !== -1 ? idIndex : unmatchedAfter.findIndex(row => label(row) === label(beforeRow))
+
+      if (index === -1) {
+        diff.removed.push(label(beforeRow))
+        return
+      }
+
+      const [afterRow] = unmatchedAfter.splice(index, 1)
+      const changes = [
+        ...diffFields(beforeRow, afterRow),
+        ...(key === 'workExperiences' ? diffAchievements(beforeRow, afterRow) : [])
+      ]
+      if (changes.length > 0) {
+        diff.changed.push({ label: label(afterRow), changes })
+      }
+    })
+
+    diff.added = unmatchedAfter.map(label)
+    return diff
+  })
+
+  return {
+    profile: diffFields(before.profile, after.profile),
+    sections: sections.filter(section => section.added.length + section.removed.length + section.changed.length > 0)
+  }
+}
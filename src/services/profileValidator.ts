@@ -0,0 +1,210 @@
+export type ValidationSection = 'profile' | 'workExperiences' | 'educations'
+
+export interface ValidationIssue {
+  section: ValidationSection
+  // Row index within the section; undefined for profile-level issues
+  index?: number
+  field: string
+  // Errors block generation, warnings are only reported
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface CompletenessItem {
+  label: string
+  complete: boolean
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[]
+  blockingIssues: ValidationIssue[]
+  completeness: CompletenessItem[]
+  score: number
+}
+
+export interface ValidationOptions {
+  // Gaps between consecutive roles longer than this are reported
+  gapThresholdMonths?: number
+  today?: Date
+}
+
+// Only the fields the checks look at, so both the Profile form state (empty
+// strings) and rows loaded from Supabase (nulls) can be validated
+export interface ValidationInput {
+  profile: {
+    name: string | null
+    email: string | null
+    phone: string | null
+    location: string | null
+  }
+  workExperiences: Array<{
+    company: string
+    position: string
+    start_date: string | null
+    end_date: string | null
+    is_current: boolean
+    achievements?: Array<unknown>
+  }>
+  educations: Array<{
+    university: string
+    degree: string
+    start_date: string | null
+    end_date: string | null
+  }>
+  skills?: Array<unknown>
+}
+
+export const DEFAULT_GAP_THRESHOLD_MONTHS = 6
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Dates are stored as YYYY-MM-DD; anything else is treated as unparseable
+function parseDate(value: string | null): Date | null {
+  if (!value) return null
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return isNaN(date.getTime()) ? null : date
+}
+
+function monthIndex(date: Date): number {
+  return date.getFullYear() * 12 + date.getMonth()
+}
+
+function checkDateRange(
+  issues: ValidationIssue[],
+  section: ValidationSection,
+  index: number,
+  label: string,
+  startDate: string | null,
+  endDate: string | null,
+  today: Date,
+  allowFutureEnd: boolean
+) {
+  const start = parseDate(startDate)
+  const end = parseDate(endDate)
+
+  if (!start) {
+    issues.push({
+      section,
+      index,
+      field: 'start_date',
+      severity: 'error',
+      message: startDate ? `${label}: start date "${startDate}" is not a valid date` : `${label}: start date is missing`
+    })
+  } else if (start > today) {
+    // A signed offer can start later, so this is worth a look but not impossible
+    issues.push({ section, index, field: 'start_date', severity: 'warning', message: `${label}: start date is in the future` })
+  }
+
+  if (endDate && !end) {
+    issues.push({ section, index, field: 'end_date', severity: 'error', message: `${label}: end date "${endDate}" is not a valid date` })
+  } else if (start && end && end < start) {
+    issues.push({ section, index, field: 'end_date', severity: 'error', message: `${label}: end date is before the start date` })
+  } else if (end && end > today && !allowFutureEnd) {
+    // Fixed-term contracts have a known end date
+    issues.push({ section, index, field: 'end_date', severity: 'warning', message: `${label}: end date is in the future; mark the role as current unless it is a fixed-term contract` })
+  }
+}
+
+export function validateProfile(input: ValidationInput, options: ValidationOptions = {}): ValidationReport {
+  const today = options.today || new Date()
+  const gapThreshold = options.gapThresholdMonths ?? DEFAULT_GAP_THRESHOLD_MONTHS
+  const issues: ValidationIssue[] = []
+
+  // Contact fields: name and email are needed for the resume header, the rest is recommended
+  if (!input.profile.name?.trim()) {
+    issues.push({ section: 'profile', field: 'name', severity: 'error', message: 'Full name is missing' })
+  }
+  if (!input.profile.email?.trim()) {
+    issues.push({ section: 'profile', field: 'email', severity: 'error', message: 'Email is missing' })
+  } else if (!EMAIL_PATTERN.test(input.profile.email.trim())) {
+    issues.push({ section: 'profile', field: 'email', severity: 'error', message: 'Email is not a valid address' })
+  }
+  if (!input.profile.phone?.trim()) {
+    issues.push({ section: 'profile', field: 'phone', severity: 'warning', message: 'Phone number is missing' })
+  }
+  if (!input.profile.location?.trim()) {
+    issues.push({ section: 'profile', field: 'location', severity: 'warning', message: 'Location is missing' })
+  }
+
+  input.workExperiences.forEach((work, index) => {
+    const label = work.company || work.position ? `${work.position || 'Role'} at ${work.company || 'unknown company'}` : `Experience ${index + 1}`
+
+    checkDateRange(issues, 'workExperiences', index, label, work.start_date, work.end_date, today, false)
+
+    if (work.is_current && work.end_date) {
+      issues.push({ section: 'workExperiences', index, field: 'end_date', severity: 'error', message: `${label}: marked as current but has an end date` })
+    } else if (!work.is_current && !work.end_date) {
+      issues.push({ section: 'workExperiences', index, field: 'end_date', severity: 'error', message: `${label}: end date is missing; mark the role as current if you still work there` })
+    }
+  })
+
+  input.educations.forEach((education, index) => {
+    const label = education.university || `Education ${index + 1}`
+    // Expected graduation dates are legitimately in the future
+    checkDateRange(issues, 'educations', index, label, education.start_date, education.end_date, today, true)
+  })
+
+  // Overlaps and gaps only make sense between roles whose dates are usable
+  const timeline = input.workExperiences
+    .map((work, index) => {
+      const start = parseDate(work.start_date)
+      const end = work.is_current ? today : parseDate(work.end_date)
+      return { work, index, start, end }
+    })
+    .filter((entry): entry is typeof entry & { start: Date; end: Date } => !!entry.start && !!entry.end && entry.end >= entry.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  let latestEnd: { index: number; end: Date } | null = null
+  timeline.forEach(entry => {
+    if (latestEnd) {
+      const gapMonths = monthIndex(entry.start) - monthIndex(latestEnd.end)
+      // A hand-over within the same month is a normal job change, not an overlap
+      if (gapMonths < 0) {
+        const previous = input.workExperiences[latestEnd.index]
+        issues.push({
+          section: 'workExperiences',
+          index: entry.index,
+          field: 'start_date',
+          severity: 'warning',
+          message: `${entry.work.position} at ${entry.work.company} overlaps with ${previous.position} at ${previous.company}`
+        })
+      } else if (gapMonths > gapThreshold) {
+        issues.push({
+          section: 'workExperiences',
+          index: entry.index,
+          field: 'start_date',
+          severity: 'warning',
+          message: `${gapMonths}-month gap before ${entry.work.position} at ${entry.work.company}`
+        })
+      }
+    }
+
+    if (!latestEnd || entry.end > latestEnd.end) {
+      latestEnd = { index: entry.index, end: entry.end }
+    }
+  })
+
+  const completeness: CompletenessItem[] = [
+    { label: 'Full name', complete: !!input.profile.name?.trim() },
+    { label: 'Email', complete: !!input.profile.email?.trim() },
+    { label: 'Phone number', complete: !!input.profile.phone?.trim() },
+    { label: 'Location', complete: !!input.profile.location?.trim() },
+    { label: 'At least one work experience', complete: input.workExperiences.length > 0 },
+    {
+      label: 'Achievements for every work experience',
+      complete: input.workExperiences.length > 0 && input.workExperiences.every(work => (work.achievements || []).length > 0)
+    },
+    { label: 'At least one education', complete: input.educations.length > 0 },
+    { label: 'At least five skills', complete: (input.skills || []).length >= 5 },
+    { label: 'No date errors', complete: !issues.some(issue => issue.severity === 'error' && issue.section !== 'profile') }
+  ]
+
+  return {
+    issues,
+    blockingIssues: issues.filter(issue => issue.severity === 'error'),
+    completeness,
+    score: Math.round((completeness.filter(item => item.complete).length / completeness.length) * 100)
+  }
+}
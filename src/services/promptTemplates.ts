@@ -0,0 +1,61 @@
+import { supabase } from '../lib/supabase'
+
+// Placeholders the generate-resume edge function fills in (see
+// supabase/functions/generate-resume/promptTemplate.ts)
+export const PROMPT_PLACEHOLDERS: Array<{ name: string; description: string }> = [
+  { name: 'jobDescription', description: 'The job description pasted on the Generate page' },
+  { name: 'candidate', description: 'Name, email, phone and location' },
+  { name: 'workHistory', description: 'Every role with its context and verified achievements' },
+  { name: 'education', description: 'Degrees and universities' },
+  { name: 'skills', description: 'The skills inventory, or a note that there is none' },
+  { name: 'background', description: 'Projects, certifications, publications, volunteering and languages' },
+  { name: 'skillsInstructions', description: 'How to fill technicalSkills, depending on whether a skills inventory exists' },
+  { name: 'firstCompany', description: 'Company of the most recent role' },
+  { name: 'secondCompany', description: 'Company of the second role' },
+  { name: 'otherCompanies', description: 'Companies of the remaining roles' },
+  { name: 'generationSettings', description: 'Seniority, tone, length and counts chosen on the Generate page; added at the end when left out' },
+  { name: 'recentRoleBullets', description: 'Achievements to write for each of the two most recent roles' },
+  { name: 'olderRoleBullets', description: 'Achievements to write for each older role' },
+  { name: 'recentBulletWords', description: 'Word range for achievements of recent roles, e.g. 60-80' },
+  { name: 'olderBulletWords', description: 'Word range for achievements of older roles' },
+  { name: 'summaryLength', description: 'Requested professional summary length, e.g. 6-7 comprehensive sentences (60-80 words)' },
+  { name: 'answerFormat', description: 'The JSON the model must return; added at the end when left out' }
+]
+
+export interface PromptTemplate {
+  id: string
+  name: string
+  description: string | null
+  current_version: number
+}
+
+export interface PromptPreview {
+  // The template that was rendered: the built-in one when none was sent
+  template: string
+  prompt: string
+}
+
+// Placeholders written in the template that the edge function will not fill
+export function findUnknownPlaceholders(body: string): string[] {
+  const names = Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g)).map(match => match[1])
+  return Array.from(new Set(names.filter(name => !PROMPT_PLACEHOLDERS.some(placeholder => placeholder.name === name))))
+}
+
+// Renders a template with the user's profile; without a body the built-in
+// template is rendered and returned
+export async function previewPrompt(jobDescription: string, templateBody?: string, personaId?: string | null): Promise<PromptPreview> {
+  const { data, error } = await supabase.functions.invoke('generate-resume', {
+    body: { mode: 'preview-prompt', jobDescription, templateBody, personaId: personaId || null }
+  })
+
+  if (error) {
+    console.error('Edge function error:', error)
+    throw new Error(error.message || 'Failed to preview prompt')
+  }
+
+  if (!data) {
+    throw new Error('No data returned from prompt preview')
+  }
+
+  return data as PromptPreview
+}
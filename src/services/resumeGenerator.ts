@@ -1,19 +1,248 @@
-import { supabase } from '../lib/supabase'
+import { supabase, supabaseUrl, supabaseAnonKey } from '../lib/supabase'
+import { GenerationControls } from './generationControls'
 
-export async function generateResume(jobDescription: string, userId: string) {
-  // Call the Supabase Edge Function instead of making direct API calls
-  const { data, error } = await supabase.functions.invoke('generate-resume', {
-    body: { jobDescription }
+export interface GenerationMeta {
+  profileSnapshotId: string | null
+  // Provider id and exact model that wrote the resume
+  aiProvider?: string
+  aiModel?: string
+  // As reported by the provider; null when it reported no usage
+  inputTokens?: number | null
+  outputTokens?: number | null
+  // USD, null when the model is missing from the edge function's price table
+  cost?: number | null
+  // Saved prompt template and version the resume was written from; null for the built-in prompt
+  promptTemplateId?: string | null
+  promptTemplateVersion?: number | null
+}
+
+// A field of the AI's answer that failed the edge function's resume schema,
+// e.g. { path: 'workExperiences[1].achievements', message: 'expected 1-5 achievements, got 0' }
+export interface ResumeFieldError {
+  path: string
+  message: string
+}
+
+// Failure reported by generate-resume; validationErrors is filled in when the
+// AI's answer still failed validation after the repair and retry
+export class GenerationError extends Error {
+  validationErrors: ResumeFieldError[]
+
+  constructor(message: string, validationErrors: ResumeFieldError[] = []) {
+    super(message)
+    this.name = 'GenerationError'
+    this.validationErrors = validationErrors
+  }
+}
+
+type GeneratedAchievement = string | { description: string; details: string[] }
+
+interface ClaimVerification {
+  support: 'supported' | 'partial' | 'unsupported'
+  unmatchedMetrics: string[]
+}
+
+// The fields of a generated resume that section regeneration sends back as
+// context; the pages' own resume types carry these and more
+interface GeneratedResume {
+  professionalTitle: string
+  professionalSummary: string
+  workExperiences: Array<{
+    company: string
+    position: string
+    startDate: string
+    endDate: string
+    isCurrent: boolean
+    achievements: GeneratedAchievement[]
+  }>
+  technicalSkills: string[]
+}
+
+// Progress sent by generate-resume while the AI provider is still writing.
+// Sections are resent with their full content so far, not as deltas.
+export type GenerationEvent =
+  // The whole resume with empty AI sections, in the shape of the final resume
+  | { type: 'skeleton'; resume: unknown }
+  | { type: 'summary'; professionalTitle: string; professionalSummary: string }
+  | { type: 'work'; index: number; position: string; achievements: GeneratedAchievement[] }
+  | { type: 'skills'; technicalSkills: string[] }
+  // The preferred provider kept failing and failover switched to another one
+  | { type: 'failover'; from: string; to: string }
+
+// Payloads of the stream's closing events
+interface ErrorPayload {
+  error?: string
+  validationErrors?: ResumeFieldError[]
+}
+
+interface CompletePayload {
+  generationMeta?: GenerationMeta
+  [field: string]: unknown
+}
+
+interface GenerateOptions {
+  // A template from the prompt library instead of the built-in prompt
+  promptTemplateId?: string | null
+  // Seniority, tone and length; the edge function's defaults apply when left out
+  controls?: GenerationControls
+  onEvent?: (event: GenerationEvent) => void
+  // Aborting closes the stream, which makes the edge function cancel the provider request
+  signal?: AbortSignal
+}
+
+export async function generateResume(
+  jobDescription: string,
+  userId: string,
+  personaId?: string | null,
+  options: GenerateOptions = {}
+) {
+  // functions.invoke cannot be aborted, so the edge function is called directly
+  const { data: { session } } = await supabase.auth.getSession()
+  const response = await fetch(`${supabaseUrl}/functions/v1/generate-resume`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: supabaseAnonKey,
+      Authorization: `Bearer ${session?.access_token || supabaseAnonKey}`
+    },
+    body: JSON.stringify({
+      jobDescription,
+      personaId: personaId || null,
+      promptTemplateId: options.promptTemplateId || null,
+      controls: options.controls,
+      stream: true
+    }),
+    signal: options.signal
   })
 
-  if (error) {
-    console.error('Edge function error:', error)
-    throw new Error(error.message || 'Failed to generate resume')
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error('Edge function error:', errorData)
+    throw new GenerationError(errorData.error || 'Failed to generate resume', errorData.validationErrors)
   }
 
+  let data: CompletePayload | null = null
+  await readEventStream(response.body, (event, payload) => {
+    if (event === 'error') {
+      const { error, validationErrors } = payload as ErrorPayload
+      throw new GenerationError(error || 'Failed to generate resume', validationErrors)
+    }
+    if (event === 'complete') {
+      data = payload as CompletePayload
+    } else if (event === 'skeleton') {
+      options.onEvent?.({ type: 'skeleton', resume: payload })
+    } else {
+      options.onEvent?.({ ...(payload as object), type: event } as GenerationEvent)
+    }
+  })
+
   if (!data) {
     throw new Error('No data returned from resume generation')
   }
 
-  return data
-}
\ No newline at end of file
+  // Bookkeeping about the run travels alongside the resume but is not part of it
+  const { generationMeta, ...resume } = data as CompletePayload
+  return { resume: resume as unknown, meta: (generationMeta || { profileSnapshotId: null }) as GenerationMeta }
+}
+
+// Which part of the resume regenerateSection rewrites; indexes refer to
+// resume.workExperiences and that role's achievements
+export type SectionTarget =
+  | { section: 'title' }
+  | { section: 'summary' }
+  | { section: 'work'; workIndex: number }
+  | { section: 'bullet'; workIndex: number; achievementIndex: number }
+  | { section: 'skills' }
+
+// The rewritten section, in the shape of the resume fields it replaces. Work
+// targets come back with one claim check per achievement, bullets with one.
+export interface RegeneratedSection {
+  professionalTitle?: string
+  professionalSummary?: string
+  achievements?: GeneratedAchievement[]
+  achievement?: GeneratedAchievement
+  verification?: ClaimVerification | ClaimVerification[]
+  technicalSkills?: string[]
+}
+
+// Revision note stored in resume_history, e.g. "Regenerated achievements at Acme"
+export function describeSectionTarget(resume: GeneratedResume, target: SectionTarget): string {
+  switch (target.section) {
+    case 'title':
+      return 'Regenerated professional title'
+    case 'summary':
+      return 'Regenerated professional summary'
+    case 'work':
+      return `Regenerated achievements at ${resume.workExperiences[target.workIndex]?.company}`
+    case 'bullet':
+      return `Regenerated achievement ${target.achievementIndex + 1} at ${resume.workExperiences[target.workIndex]?.company}`
+    case 'skills':
+      return 'Regenerated technical skills'
+  }
+}
+
+// Rewrites one section of an existing resume, with the rest of it as context
+export async function regenerateSection(
+  jobDescription: string,
+  resume: GeneratedResume,
+  target: SectionTarget,
+  personaId?: string | null,
+  controls?: GenerationControls,
+  // The template the resume being revised was written from
+  promptTemplateId?: string | null
+) {
+  const { data: { session } } = await supabase.auth.getSession()
+  const response = await fetch(`${supabaseUrl}/functions/v1/generate-resume`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: supabaseAnonKey,
+      Authorization: `Bearer ${session?.access_token || supabaseAnonKey}`
+    },
+    body: JSON.stringify({ mode: 'regenerate-section', jobDescription, personaId: personaId || null, promptTemplateId: promptTemplateId || null, resume, target, controls })
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    console.error('Edge function error:', data)
+    throw new GenerationError(data.error || 'Failed to regenerate section', data.validationErrors)
+  }
+
+  const { generationMeta, ...section } = data
+  return { section: section as RegeneratedSection, meta: (generationMeta || {}) as Omit<GenerationMeta, 'profileSnapshotId'> }
+}
+
+// Minimal Server-Sent Events reader: blocks are separated by a blank line and
+// carry one `event:` name and a JSON `data:` payload
+async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: string, payload: unknown) => void) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+
+        let event = 'message'
+        const dataLines: string[] = []
+        block.split('\n').forEach(line => {
+          if (line.startsWith('event:')) event = line.slice(6).trim()
+          else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim())
+        })
+        if (dataLines.length > 0) {
+          onEvent(event, JSON.parse(dataLines.join('\n')))
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {})
+  }
+}
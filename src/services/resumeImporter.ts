@@ -0,0 +1,449 @@
+import * as pdfjsLib from 'pdfjs-dist'
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+import JSZip from 'jszip'
+import { supabase } from '../lib/supabase'
+import { ProfileLinkType } from './profileLinks'
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+
+export interface ParsedWorkExperience {
+  company: string
+  position: string
+  start_date: string
+  end_date: string
+  is_current: boolean
+  achievements: string[]
+}
+
+export interface ParsedEducation {
+  university: string
+  degree: string
+  start_date: string
+  end_date: string
+}
+
+export interface ParsedSkill {
+  name: string
+  category: string
+}
+
+export interface ParsedCertification {
+  name: string
+  issuer: string
+  issue_date: string
+  expiration_date: string
+  credential_id: string
+  credential_url: string
+}
+
+export interface ParsedProject {
+  name: string
+  description: string
+  role: string
+  tech_stack: string[]
+  url: string
+  start_date: string
+  end_date: string
+}
+
+export interface ParsedPublication {
+  title: string
+  publisher: string
+  published_date: string
+  url: string
+  description: string
+}
+
+export interface ParsedLanguage {
+  name: string
+  proficiency: 'elementary' | 'limited_working' | 'professional_working' | 'full_professional' | 'native'
+}
+
+export interface ParsedVolunteerExperience {
+  organization: string
+  role: string
+  start_date: string
+  end_date: string
+  description: string
+}
+
+export interface ParsedLink {
+  link_type: ProfileLinkType
+  label: string
+  url: string
+}
+
+// The optional sections are only filled by structured sources (LinkedIn, JSON Resume)
+export interface ParsedResume {
+  name: string
+  email: string
+  phone: string
+  location: string
+  workExperiences: ParsedWorkExperience[]
+  educations: ParsedEducation[]
+  skills: ParsedSkill[]
+  certifications?: ParsedCertification[]
+  projects?: ParsedProject[]
+  publications?: ParsedPublication[]
+  languages?: ParsedLanguage[]
+  volunteerExperiences?: ParsedVolunteerExperience[]
+  links?: ParsedLink[]
+}
+
+export const SUPPORTED_RESUME_EXTENSIONS = ['.pdf', '.docx', '.txt']
+
+// Extracts plain text, one line per visual line, from an uploaded resume
+export async function extractResumeText(file: File): Promise<string> {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase()
+
+  if (extension === '.pdf') {
+    return extractPdfText(await file.arrayBuffer())
+  }
+  if (extension === '.docx') {
+    return extractDocxText(await file.arrayBuffer())
+  }
+  if (extension === '.txt') {
+    return file.text()
+  }
+
+  throw new Error(`Unsupported file type. Please upload one of: ${SUPPORTED_RESUME_EXTENSIONS.join(', ')}`)
+}
+
+async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const pdf = await pdfjsLib.getDocument({ data }).promise
+  const pages: string[] = []
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber)
+    const content = await page.getTextContent()
+    let pageText = ''
+
+    for (const item of content.items) {
+      if (!('str' in item)) continue
+      pageText += item.str
+      if (item.hasEOL) pageText += '\n'
+    }
+    pages.push(pageText)
+  }
+
+  return pages.join('\n')
+}
+
+async function extractDocxText(data: ArrayBuffer): Promise<string> {
+  const zip = await JSZip.loadAsync(data)
+  const documentXml = await zip.file('word/document.xml')?.async('string')
+
+  if (!documentXml) {
+    throw new Error('This DOCX file has no document body')
+  }
+
+  const xml = new DOMParser().parseFromString(documentXml, 'application/xml')
+  const paragraphs = Array.from(xml.getElementsByTagName('w:p'))
+
+  return paragraphs.map(paragraph => {
+    let text = ''
+    paragraph.querySelectorAll('*').forEach(node => {
+      if (node.nodeName === 'w:t') text += node.textContent || ''
+      else if (node.nodeName === 'w:tab') text += '\t'
+      else if (node.nodeName === 'w:br') text += '\n'
+    })
+    // Word list items carry their bullet in numbering properties, not the text
+    const isListItem = paragraph.getElementsByTagName('w:numPr').length > 0
+    return isListItem && text.trim() ? `• ${text}` : text
+  }).join('\n')
+}
+
+// Sends the extracted text through the generate-resume edge function, which
+// asks the user's configured AI provider to structure it
+export async function parseResumeWithAI(resumeText: string): Promise<ParsedResume> {
+  const { data, error } = await supabase.functions.invoke('generate-resume', {
+    body: { mode: 'parse-resume', resumeText }
+  })
+
+  if (error) {
+    console.error('Edge function error:', error)
+    throw new Error(error.message || 'Failed to parse resume')
+  }
+
+  if (!data) {
+    throw new Error('No data returned from resume parsing')
+  }
+
+  return normalizeParsedResume(data)
+}
+
+// Coerces loosely typed parser output into a ParsedResume with no missing fields
+export function normalizeParsedResume(raw: unknown): ParsedResume {
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+  const date = (value: unknown) => /^\d{4}-\d{2}-\d{2}$/.test(text(value)) ? text(value) : ''
+  const fields = (value: unknown): Record<string, unknown> => value && typeof value === 'object' ? value as Record<string, unknown> : {}
+  const list = (value: unknown): unknown[] => Array.isArray(value) ? value : []
+  const resume = fields(raw)
+
+  return {
+    name: text(resume.name),
+    email: text(resume.email),
+    phone: text(resume.phone),
+    location: text(resume.location),
+    workExperiences: list(resume.workExperiences).map(fields).map(work => ({
+      company: text(work.company),
+      position: text(work.position),
+      start_date: date(work.start_date),
+      end_date: work.is_current ? '' : date(work.end_date),
+      is_current: !!work.is_current,
+      achievements: list(work.achievements).map(text).filter(Boolean)
+    })),
+    educations: list(resume.educations).map(fields).map(edu => ({
+      university: text(edu.university),
+      degree: text(edu.degree),
+      start_date: date(edu.start_date),
+      end_date: date(edu.end_date)
+    })),
+    skills: list(resume.skills)
+      .map(skill => typeof skill === 'string'
+        ? { name: skill.trim(), category: '' }
+        : { name: text(fields(skill).name), category: text(fields(skill).category) })
+      .filter((skill: ParsedSkill) => skill.name)
+  }
+}
+
+type SectionKind = 'experience' | 'education' | 'skills' | 'other'
+
+const SECTION_HEADINGS: Array<[SectionKind, RegExp]> = [
+  ['experience', /^(work |professional |relevant )?(experience|employment( history)?|work history|career history)$/],
+  ['education', /^(education|academic background|education (and|&) training)$/],
+  ['skills', /^((technical |core |key )?skills|core competencies|technologies|skills (and|&) (tools|technologies))$/],
+  ['other', /^(summary|profile|professional summary|about me|objective|projects|certifications|publications|languages|volunteer(ing| experience)?|awards|interests|references)$/]
+]
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+}
+
+const DATE_TOKEN = String.raw`(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{4}|\d{1,2}/\d{4}|\d{4})`
+const DATE_RANGE = new RegExp(`(${DATE_TOKEN})\\s*(?:-|–|—|to|until)\\s*(${DATE_TOKEN}|present|current|now|today)`, 'i')
+const SINGLE_YEAR = /\b(19|20)\d{2}\b/
+
+const HEADER_SEPARATORS = /\s+[|–—]\s+|\s+-\s+|,\s+|\t+/
+
+// Runs of digits and phone punctuation; isPhoneNumber decides which are phones
+const PHONE_CANDIDATE = /\+?\(?\d[\d\s().-]{5,}\d/g
+const PHONE_LABEL = /\b(phone|tel|telephone|mobile|cell)\b/i
+
+const BULLET = /^\s*(?:[•●▪◦‣∙*·–-]|\d+[.)])\s+/
+
+const POSITION_WORDS = /\b(engineer|developer|manager|director|lead|analyst|designer|consultant|architect|intern|specialist|scientist|officer|head|vp|president|administrator|coordinator|associate|programmer|founder|owner|technician|researcher|assistant|advisor|executive|strategist|tester)\b/i
+const UNIVERSITY_WORDS = /\b(university|college|institute|school|academy|polytechnic)\b/i
+const DEGREE_WORDS = /\b(bachelor|master|ph\.?d|doctor|mba|associate|diploma|degree|b\.?sc?|m\.?sc?|b\.?a|m\.?a|b\.?eng|m\.?eng|certificate)\b/i
+
+// Turns "Mar 2021", "12 Mar 2021", "03/2021" or "2021" into an ISO date on the
+// first of the month
+export function toIsoDate(token: string): string {
+  const value = token.trim().toLowerCase().replace(/^\d{1,2}\s+(?=[a-z])/, '')
+  const monthYear = value.match(/^([a-z]{3})[a-z]*\.?\s+(\d{4})$/)
+  if (monthYear && MONTHS[monthYear[1]]) return `${monthYear[2]}-${MONTHS[monthYear[1]]}-01`
+
+  const numeric = value.match(/^(\d{1,2})\/(\d{4})$/)
+  if (numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12) return `${numeric[2]}-${numeric[1].padStart(2, '0')}-01`
+
+  if (/^\d{4}$/.test(value)) return `${value}-01-01`
+  return ''
+}
+
+function detectSection(line: string): SectionKind | null {
+  const heading = line.replace(/[:|]+$/, '').trim().toLowerCase()
+  if (heading.length > 40) return null
+  const match = SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading))
+  return match ? match[0] : null
+}
+
+function splitHeaderParts(line: string): string[] {
+  const atMatch = line.match(/^(.+?)\s+at\s+(.+)$/i)
+  if (atMatch) return [atMatch[1], atMatch[2]]
+  return line.split(HEADER_SEPARATORS).map(part => part.trim()).filter(Boolean)
+}
+
+// Assigns the header fragments of an entry to position and company, preferring
+// the fragment that reads like a job title for the position
+function assignPositionAndCompany(parts: string[]): { position: string; company: string } {
+  const fragments = parts.length === 1 ? splitHeaderParts(parts[0]) : parts
+  const positionIndex = fragments.findIndex(part => POSITION_WORDS.test(part))
+
+  if (positionIndex === -1) {
+    return { company: fragments[0] || '', position: fragments.slice(1).join(', ') }
+  }
+
+  return {
+    position: fragments[positionIndex],
+    company: fragments.filter((_, i) => i !== positionIndex).join(', ')
+  }
+}
+
+function parseExperienceSection(lines: string[]): ParsedWorkExperience[] {
+  const entries: ParsedWorkExperience[] = []
+  let current: ParsedWorkExperience | null = null
+  let headerParts: string[] = []
+  let sawBullet = false
+  let pending: string[] = []
+
+  const finishCurrent = () => {
+    if (current) entries.push({ ...current, ...assignPositionAndCompany(headerParts) })
+  }
+
+  for (const line of lines) {
+    const range = line.match(DATE_RANGE)
+
+    if (range) {
+      const remainder = line.replace(range[0], '').replace(/[\s|,–—()-]+$/, '').replace(/^[\s|,–—()-]+/, '').trim()
+      const headerCount = remainder ? 1 : 2
+      // Paragraph-style descriptions sit between the previous entry and this header
+      if (current) current.achievements.push(...pending.slice(0, -headerCount))
+      finishCurrent()
+
+      const isCurrent = /present|current|now|today/i.test(range[2])
+      current = {
+        company: '',
+        position: '',
+        start_date: toIsoDate(range[1]),
+        end_date: isCurrent ? '' : toIsoDate(range[2]),
+        is_current: isCurrent,
+        achievements: []
+      }
+      headerParts = remainder ? [...pending.slice(-headerCount), remainder] : pending.slice(-headerCount)
+      sawBullet = false
+      pending = []
+    } else if (BULLET.test(line)) {
+      if (!current) continue
+      current.achievements.push(line.replace(BULLET, '').trim())
+      sawBullet = true
+    } else if (current && !sawBullet && headerParts.length < 2) {
+      headerParts.push(line)
+    } else if (current && sawBullet && pending.length === 0 && /^[a-z]/.test(line)) {
+      // Wrapped bullet continuation
+      const last = current.achievements.length - 1
+      current.achievements[last] = `${current.achievements[last]} ${line}`
+    } else {
+      pending.push(line)
+    }
+  }
+
+  if (current) current.achievements.push(...pending)
+  finishCurrent()
+
+  return entries.filter(entry => entry.company || entry.position)
+}
+
+function parseEducationSection(lines: string[]): ParsedEducation[] {
+  const entries: ParsedEducation[] = []
+  let current: ParsedEducation | null = null
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(BULLET, '')
+    const range = line.match(DATE_RANGE)
+    const year = range ? null : line.match(SINGLE_YEAR)
+    const text = (range ? line.replace(range[0], '') : year ? line.replace(year[0], '') : line)
+      .replace(/[\s|,–—()-]+$/, '').replace(/^[\s|,–—()-]+/, '').trim()
+
+    // No "at" splitting here: "University of Texas at Austin" is one name
+    for (const part of text.split(HEADER_SEPARATORS).map(part => part.trim()).filter(Boolean)) {
+      if (UNIVERSITY_WORDS.test(part)) {
+        if (!current || current.university) {
+          current = { university: '', degree: '', start_date: '', end_date: '' }
+          entries.push(current)
+        }
+        current.university = part
+      } else if (DEGREE_WORDS.test(part) && (!current || current.degree)) {
+        current = { university: '', degree: part, start_date: '', end_date: '' }
+        entries.push(current)
+      } else if (current) {
+        // Field of study and honours read as part of the degree
+        current.degree = current.degree ? `${current.degree}, ${part}` : part
+      }
+    }
+
+    if (current && range) {
+      current.start_date = toIsoDate(range[1])
+      current.end_date = /present|current|now|today/i.test(range[2]) ? '' : toIsoDate(range[2])
+    } else if (current && year) {
+      current.end_date = toIsoDate(year[0])
+    }
+  }
+
+  return entries.filter(entry => entry.university || entry.degree)
+}
+
+function parseSkillsSection(lines: string[]): ParsedSkill[] {
+  const skills: ParsedSkill[] = []
+  const seen = new Set<string>()
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(BULLET, '')
+    const labelled = line.match(/^([^:]{2,40}):\s*(.+)$/)
+    const category = labelled ? labelled[1].trim() : ''
+
+    for (const name of (labelled ? labelled[2] : line).split(/\s*[,;|•·]\s*/)) {
+      const skill = name.replace(/\.$/, '').trim()
+      if (!skill || skill.length > 40 || skill.split(/\s+/).length > 4) continue
+      if (seen.has(skill.toLowerCase())) continue
+      seen.add(skill.toLowerCase())
+      skills.push({ name: skill, category })
+    }
+  }
+
+  return skills
+}
+
+function isPhoneNumber(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '').length
+  return digits >= 7 && digits <= 15 && !DATE_RANGE.test(candidate)
+}
+
+// A number on a line labelled as a phone wins; otherwise the first phone-shaped
+// number in the header, so date ranges and figures further down are never taken
+function findPhone(lines: string[], headerLines: string[]): string {
+  const numbers = (line: string) => (line.match(PHONE_CANDIDATE) || []).map(match => match.trim()).filter(isPhoneNumber)
+  const labelled = lines.find(line => PHONE_LABEL.test(line) && numbers(line).length > 0)
+  return (labelled ? numbers(labelled) : headerLines.flatMap(numbers))[0] || ''
+}
+
+// Deterministic, offline parser for conventionally laid out resumes. It reads
+// contact details from the header and splits the rest on common section headings.
+export function parseResumeText(text: string): ParsedResume {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean)
+
+  const email = text.match(/[\w.+-]+@[\w-]+\.[\w.-]+/)?.[0] || ''
+
+  const sections: Record<SectionKind, string[]> = { experience: [], education: [], skills: [], other: [] }
+  const headerLines: string[] = []
+  let section: SectionKind | null = null
+
+  for (const line of lines) {
+    const heading = detectSection(line)
+    if (heading) {
+      section = heading
+      continue
+    }
+    if (section) sections[section].push(line)
+    else headerLines.push(line)
+  }
+
+  const phone = findPhone(lines, headerLines)
+  const headerParts = headerLines.flatMap(line => line.split(/\s*[|•·]\s*/)).filter(Boolean)
+  const name = headerParts.find(part =>
+    !part.includes('@') && !/\d/.test(part) && part.split(' ').length >= 2 && part.split(' ').length <= 4
+  ) || ''
+  const location = headerParts.find(part =>
+    part !== name && !part.includes('@') && !/https?:|www\./i.test(part) && /^[A-Za-z .'-]+,\s*[A-Za-z .]+$/.test(part)
+  ) || ''
+
+  return {
+    name,
+    email,
+    phone,
+    location,
+    workExperiences: parseExperienceSection(sections.experience),
+    educations: parseEducationSection(sections.education),
+    skills: parseSkillsSection(sections.skills)
+  }
+}
@@ -0,0 +1,50 @@
+interface GroupableWork {
+  company: string
+  startDate: string
+  endDate: string
+  isCurrent: boolean
+}
+
+export interface WorkGroup<T extends GroupableWork> {
+  company: string
+  startDate: string
+  endDate: string
+  isCurrent: boolean
+  // Original position in resume.workExperiences is kept so edits still address the right entry
+  roles: Array<{ work: T; index: number }>
+}
+
+const sameCompany = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// Consecutive entries at the same company are several roles (e.g. promotions)
+// with one employer and render under a single company heading. Entries are
+// already in the order the user chose on the Profile page.
+export function groupWorkExperiences<T extends GroupableWork>(workExperiences: T[]): WorkGroup<T>[] {
+  const groups: WorkGroup<T>[] = []
+
+  workExperiences.forEach((work, index) => {
+    const current = groups[groups.length - 1]
+    if (current && sameCompany(current.company, work.company)) {
+      current.roles.push({ work, index })
+      if (work.startDate && (!current.startDate || work.startDate < current.startDate)) {
+        current.startDate = work.startDate
+      }
+      if (work.isCurrent) {
+        current.isCurrent = true
+      } else if (work.endDate && (!current.endDate || work.endDate > current.endDate)) {
+        current.endDate = work.endDate
+      }
+      return
+    }
+
+    groups.push({
+      company: work.company,
+      startDate: work.startDate,
+      endDate: work.endDate,
+      isCurrent: work.isCurrent,
+      roles: [{ work, index }]
+    })
+  })
+
+  return groups
+}
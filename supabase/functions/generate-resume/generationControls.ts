@@ -0,0 +1,124 @@
+/*
+  # Generation controls
+
+  Options the user sets on the Generate page: target seniority, tone, page
+  count, achievements per role and summary length. They shape the prompt
+  (counts, word ranges and a settings block the model must follow) and the
+  schema validation (achievements per role, summary length). Missing or
+  out-of-range values fall back to the defaults, which match the prompt as it
+  was before the controls existed.
+*/
+
+export type Seniority = 'auto' | 'junior' | 'mid' | 'senior' | 'lead'
+export type Tone = 'conservative' | 'confident' | 'technical'
+export type SummaryLength = 'short' | 'standard' | 'detailed'
+
+export interface GenerationControls {
+  // 'auto' lets the model infer the level from the job description
+  seniority: Seniority
+  tone: Tone
+  pageCount: number
+  // Achievements for each of the RECENT_ROLE_COUNT most recent roles
+  recentRoleBullets: number
+  // Achievements for every older role
+  olderRoleBullets: number
+  summaryLength: SummaryLength
+}
+
+export const DEFAULT_GENERATION_CONTROLS: GenerationControls = {
+  seniority: 'auto',
+  tone: 'confident',
+  pageCount: 2,
+  recentRoleBullets: 5,
+  olderRoleBullets: 5,
+  summaryLength: 'standard'
+}
+
+// Roles that count as recent, by position in the work history
+export const RECENT_ROLE_COUNT = 2
+
+export const BULLETS_PER_ROLE_RANGE = { min: 1, max: 8 }
+export const PAGE_COUNT_RANGE = { min: 1, max: 3 }
+
+export const SENIORITY_LABELS: Record<Exclude<Seniority, 'auto'>, string> = {
+  junior: 'Junior',
+  mid: 'Mid-level',
+  senior: 'Senior',
+  lead: 'Lead / Staff'
+}
+
+const TONE_INSTRUCTIONS: Record<Tone, string> = {
+  conservative: 'Conservative - measured, factual wording; understate rather than oversell',
+  confident: 'Confident - strong action verbs and clear ownership of results, without exaggeration',
+  technical: 'Technical - precise engineering detail (technologies, architecture, trade-offs) over business language'
+}
+
+// Word ranges per achievement for each target page count. recent and older
+// are plain achievements; headline and detail make up a structured one.
+export interface PageLayout {
+  recentWords: string
+  olderWords: string
+  headlineWords: string
+  detailWords: string
+}
+
+const PAGE_LAYOUTS: Record<number, PageLayout> = {
+  1: { recentWords: '30-45', olderWords: '25-35', headlineWords: '30-40', detailWords: '20-30' },
+  2: { recentWords: '60-80', olderWords: '50-70', headlineWords: '50-60', detailWords: '40-50' },
+  3: { recentWords: '80-100', olderWords: '60-80', headlineWords: '60-70', detailWords: '50-60' }
+}
+
+// maxWords leaves room over the requested range so validation only catches
+// summaries that ignored the length outright
+export const SUMMARY_LENGTHS: Record<SummaryLength, { description: string; maxWords: number }> = {
+  short: { description: '2-3 concise sentences (30-45 words)', maxWords: 60 },
+  standard: { description: '6-7 comprehensive sentences (60-80 words)', maxWords: 110 },
+  detailed: { description: '8-9 comprehensive sentences (90-120 words)', maxWords: 160 }
+}
+
+function clampCount(value: unknown, range: { min: number; max: number }, fallback: number): number {
+  const count = typeof value === 'number' ? Math.round(value) : NaN
+  return Number.isFinite(count) ? Math.min(Math.max(count, range.min), range.max) : fallback
+}
+
+function pickOption<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? value as T : fallback
+}
+
+// Controls as sent by the client, which may be missing or partial
+export function normalizeGenerationControls(raw: unknown): GenerationControls {
+  const defaults = DEFAULT_GENERATION_CONTROLS
+  const fields: Partial<Record<keyof GenerationControls, unknown>> = raw && typeof raw === 'object' ? raw : {}
+  return {
+    seniority: pickOption(fields.seniority, ['auto', 'junior', 'mid', 'senior', 'lead'], defaults.seniority),
+    tone: pickOption(fields.tone, ['conservative', 'confident', 'technical'], defaults.tone),
+    pageCount: clampCount(fields.pageCount, PAGE_COUNT_RANGE, defaults.pageCount),
+    recentRoleBullets: clampCount(fields.recentRoleBullets, BULLETS_PER_ROLE_RANGE, defaults.recentRoleBullets),
+    olderRoleBullets: clampCount(fields.olderRoleBullets, BULLETS_PER_ROLE_RANGE, defaults.olderRoleBullets),
+    summaryLength: pickOption(fields.summaryLength, ['short', 'standard', 'detailed'], defaults.summaryLength)
+  }
+}
+
+export function bulletsForRole(controls: GenerationControls, roleIndex: number): number {
+  return roleIndex < RECENT_ROLE_COUNT ? controls.recentRoleBullets : controls.olderRoleBullets
+}
+
+export function pageLayout(controls: GenerationControls): PageLayout {
+  return PAGE_LAYOUTS[controls.pageCount]
+}
+
+// The settings block placed in the prompt. It is written to override the
+// fixed levels and counts a custom template may still contain.
+export function describeGenerationControls(controls: GenerationControls): string {
+  const layout = pageLayout(controls)
+  const seniority = controls.seniority === 'auto'
+    ? 'Infer the exact level from the job description'
+    : `${SENIORITY_LABELS[controls.seniority]} - write every title and achievement at this level and do NOT infer a different level from the job description`
+
+  return `GENERATION SETTINGS (these take precedence over any other level, count or length in this prompt):
+- Seniority: ${seniority}
+- Tone: ${TONE_INSTRUCTIONS[controls.tone]}
+- Length: the whole resume should fit on about ${controls.pageCount} page${controls.pageCount === 1 ? '' : 's'}; achievements are ${layout.recentWords} words for the ${RECENT_ROLE_COUNT} most recent roles and ${layout.olderWords} words for older roles
+- Achievements: ${controls.recentRoleBullets} for each of the ${RECENT_ROLE_COUNT} most recent roles and ${controls.olderRoleBullets} for each older role (fewer only where the verified achievements do not support that many)
+- Professional summary: ${SUMMARY_LENGTHS[controls.summaryLength].description}`
+}
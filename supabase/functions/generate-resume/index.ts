@@ -6,9 +6,64 @@
   2. Matching seniority level exactly to job requirements
   3. Avoiding over-inflated senior language for mid-level positions
   4. Maintaining natural language flow across all experiences
+  5. Grounding every achievement in the candidate's own achievement bank
+  6. Validating the answer against the resume schema in resumeSchema.ts,
+     with a repair request and one retry before reporting field errors
+
+  The prompt comes from the user's chosen template in prompt_templates, or the
+  built-in template in promptTemplate.ts; `mode: 'preview-prompt'` returns the
+  rendered prompt without calling a provider. The generation controls in
+  generationControls.ts (seniority, tone, page count, achievements per role,
+  summary length) shape both the prompt and the validation.
+
+  With `mode: 'parse-resume'` it instead structures the text of an uploaded
+  resume into profile fields for the import review screen, and with
+  `mode: 'regenerate-section'` it rewrites one part of the resume it is sent
+  (title, summary, one role's achievements, one achievement or the skills).
+  `mode: 'check-endpoint'` lists the models of a self-hosted endpoint for
+  Settings, from here, where generation will have to reach it.
 */
 
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  AIProvider,
+  AI_PROVIDERS,
+  Completion,
+  CompletionRequest,
+  OutputSchema,
+  StreamOptions,
+  UserSettings,
+  findProvider,
+  listCompatibleModels,
+  resolveFailoverProvider,
+  resolveProvider
+} from './providers.ts'
+import { calculateCost } from './pricing.ts'
+import { DEFAULT_PROMPT_TEMPLATE, renderPromptTemplate } from './promptTemplate.ts'
+import {
+  FieldError,
+  MIN_TECHNICAL_SKILLS,
+  ResumeSchemaOptions,
+  ResumeSection,
+  ResumeValidationError,
+  SectionSchemaOptions,
+  buildResumeSchema,
+  buildSectionSchema,
+  formatFieldErrors,
+  validateResumeContent,
+  validateSectionContent
+} from './resumeSchema.ts'
+import {
+  BULLETS_PER_ROLE_RANGE,
+  GenerationControls,
+  RECENT_ROLE_COUNT,
+  SENIORITY_LABELS,
+  SUMMARY_LENGTHS,
+  bulletsForRole,
+  describeGenerationControls,
+  normalizeGenerationControls,
+  pageLayout
+} from './generationControls.ts'
 
 interface UserProfile {
   name: string
@@ -17,25 +72,188 @@ interface UserProfile {
   location: string
 }
 
+interface ProfileLink {
+  link_type: string
+  label: string
+  url: string
+}
+
+interface Achievement {
+  description: string
+  metrics: string | null
+  tech_stack: string[]
+  team_context: string | null
+}
+
 interface WorkExperience {
+  id: string
   company: string
   position: string
   start_date: string
   end_date: string
   is_current: boolean
+  description: string | null
+  team_size: number | null
+  tech_stack: string[]
+  industry: string | null
+  employment_type: 'full_time' | 'contract' | 'internship'
+  achievements: Achievement[]
+}
+
+interface Skill {
+  id: string
+  name: string
+  category: string
+  proficiency: 'beginner' | 'intermediate' | 'advanced' | 'expert'
+  years_of_use: number
+  last_used: string | null
 }
 
 interface Education {
+  id: string
   university: string
   degree: string
   start_date: string
   end_date: string
 }
 
-interface UserSettings {
-  openai_key?: string
-  anthropic_key?: string
-  preferred_ai: string
+interface Certification {
+  name: string
+  issuer: string
+  issue_date: string | null
+  expiration_date: string | null
+  credential_url: string | null
+}
+
+interface Project {
+  name: string
+  description: string
+  role: string | null
+  tech_stack: string[]
+  url: string | null
+  start_date: string | null
+  end_date: string | null
+}
+
+interface Publication {
+  title: string
+  publisher: string | null
+  published_date: string | null
+  url: string | null
+  description: string | null
+}
+
+interface SpokenLanguage {
+  name: string
+  proficiency: 'elementary' | 'limited_working' | 'professional_working' | 'full_professional' | 'native'
+}
+
+interface VolunteerExperience {
+  organization: string
+  role: string
+  start_date: string | null
+  end_date: string | null
+  description: string | null
+}
+
+interface ResumeSections {
+  certifications: Certification[]
+  projects: Project[]
+  publications: Publication[]
+  languages: SpokenLanguage[]
+  volunteering: VolunteerExperience[]
+}
+
+type GeneratedAchievement = string | { description: string; details: string[] }
+
+// The resume content the AI writes, once it has passed validateResumeContent
+interface ResumeContent {
+  professionalTitle: string
+  professionalSummary: string
+  workExperiences: Array<{ company?: string; position: string; achievements: GeneratedAchievement[] }>
+  technicalSkills: string[]
+}
+
+type ClaimSupport = 'supported' | 'partial' | 'unsupported'
+
+// The resume as the client sends it back for a section regeneration; only
+// the fields the section prompt shows are read
+interface GeneratedResume {
+  professionalTitle: string
+  professionalSummary: string
+  workExperiences: Array<{
+    company: string
+    position: string
+    startDate: string
+    endDate: string
+    isCurrent: boolean
+    achievements: GeneratedAchievement[]
+  }>
+  technicalSkills: string[]
+}
+
+// Which part of the client's resume a section regeneration rewrites
+interface SectionTarget {
+  section: ResumeSection
+  workIndex?: number
+  achievementIndex?: number
+}
+
+interface ClaimVerification {
+  support: ClaimSupport
+  unmatchedMetrics: string[]
+}
+
+interface Persona {
+  id: string
+  name: string
+  work_experience_ids: string[]
+  education_ids: string[]
+  skill_ids: string[]
+}
+
+// What the provider call cost, returned to the client in generationMeta and
+// stored in resume_history. Tokens and cost are null when the provider did not
+// report usage; cost is also null for models missing from the pricing table.
+interface GenerationUsage {
+  aiProvider: string
+  aiModel: string
+  inputTokens: number | null
+  outputTokens: number | null
+  cost: number | null
+}
+
+// aiContent has passed validation; section regenerations return only the
+// fields of their section
+interface GenerationOutput<Content = ResumeContent> {
+  aiContent: Content
+  usage: GenerationUsage
+}
+
+interface SectionContent {
+  professionalTitle?: string
+  professionalSummary?: string
+  achievements?: GeneratedAchievement[]
+  achievement?: GeneratedAchievement
+  technicalSkills?: string[]
+}
+
+// The saved prompt template a resume was written from; both are null for the
+// built-in prompt
+interface PromptTemplateMeta {
+  promptTemplateId: string | null
+  promptTemplateVersion: number | null
+}
+
+// Called when generation gives up on one provider and moves to the next
+type FailoverListener = (from: AIProvider, to: AIProvider) => void
+
+interface StreamingGeneration {
+  generate: (options: StreamOptions, onFailover: FailoverListener) => Promise<GenerationOutput>
+  buildResult: (aiContent: ResumeContent) => Record<string, unknown>
+  saveProfileSnapshot: () => Promise<string | null>
+  promptTemplate: PromptTemplateMeta
+  streamSkills: boolean
 }
 
 const corsHeaders = {
@@ -78,9 +296,66 @@ Deno.serve(async (req) => {
     }
 
     // Parse request body
-    const { jobDescription } = await req.json()
+    const { jobDescription, personaId, promptTemplateId, templateBody, mode, resumeText, stream, resume, target, controls: rawControls, baseUrl, apiKey } = await req.json()
+    const controls = normalizeGenerationControls(rawControls)
+
+    if (mode === 'check-endpoint') {
+      if (typeof baseUrl !== 'string' || !/^https?:\/\/[^/]+/i.test(baseUrl.trim())) {
+        return new Response(
+          JSON.stringify({ error: 'Base URL must start with http:// or https://' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const endpointCheck = await listCompatibleModels(baseUrl.trim(), typeof apiKey === 'string' ? apiKey : undefined)
 
-    if (!jobDescription) {
+      return new Response(
+        JSON.stringify(endpointCheck),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    if (mode === 'parse-resume') {
+      if (!resumeText || typeof resumeText !== 'string') {
+        return new Response(
+          JSON.stringify({ error: 'Resume text is required' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const { data: parseSettings } = await supabaseClient.from('user_settings').select('*').eq('user_id', user.id).maybeSingle()
+
+      const parseProvider = parseSettings ? resolveProvider(parseSettings) : null
+      if (!parseProvider) {
+        return new Response(
+          JSON.stringify({ error: parseSettings ? describeMissingProvider(parseSettings) : NO_PROVIDER_MESSAGE }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const parsedResume = await parseResumeWithAI(resumeText, parseProvider, parseSettings)
+
+      return new Response(
+        JSON.stringify(parsedResume),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // A prompt preview can be rendered before a job description is pasted
+    if (!jobDescription && mode !== 'preview-prompt') {
       return new Response(
         JSON.stringify({ error: 'Job description is required' }),
         { 
@@ -107,41 +382,130 @@ Deno.serve(async (req) => {
     const profileId = profileResponse.data.id
 
     // Get work experiences, education, and settings
-    const [workResponse, eduResponse, settingsResponse] = await Promise.all([
-      supabaseClient.from('work_experiences').select('*').eq('profile_id', profileId).order('start_date', { ascending: false }),
+    const [
+      workResponse,
+      eduResponse,
+      skillResponse,
+      certResponse,
+      projectResponse,
+      publicationResponse,
+      languageResponse,
+      volunteerResponse,
+      settingsResponse,
+      personaResponse,
+      linkResponse,
+      templateResponse
+    ] = await Promise.all([
+      supabaseClient
+        .from('work_experiences')
+        .select('*, achievements(*)')
+        .eq('profile_id', profileId)
+        .order('sort_order', { ascending: true })
+        .order('start_date', { ascending: false })
+        .order('created_at', { referencedTable: 'achievements', ascending: true }),
       supabaseClient.from('educations').select('*').eq('profile_id', profileId).order('start_date', { ascending: false }),
-      supabaseClient.from('user_settings').select('*').eq('user_id', user.id).maybeSingle()
+      supabaseClient.from('skills').select('*').eq('profile_id', profileId),
+      supabaseClient.from('certifications').select('*').eq('profile_id', profileId).order('issue_date', { ascending: false }),
+      supabaseClient.from('projects').select('*').eq('profile_id', profileId).order('start_date', { ascending: false }),
+      supabaseClient.from('publications').select('*').eq('profile_id', profileId).order('published_date', { ascending: false }),
+      supabaseClient.from('languages').select('*').eq('profile_id', profileId).order('created_at', { ascending: true }),
+      supabaseClient.from('volunteer_experiences').select('*').eq('profile_id', profileId).order('start_date', { ascending: false }),
+      supabaseClient.from('user_settings').select('*').eq('user_id', user.id).maybeSingle(),
+      personaId
+        ? supabaseClient.from('personas').select('*').eq('id', personaId).eq('profile_id', profileId).maybeSingle()
+        : Promise.resolve({ data: null }),
+      supabaseClient.from('profile_links').select('*').eq('profile_id', profileId).order('sort_order', { ascending: true }),
+      // Versions are never edited, so the newest one is the template's current version
+      promptTemplateId
+        ? supabaseClient
+          .from('prompt_template_versions')
+          .select('template_id, version, body')
+          .eq('template_id', promptTemplateId)
+          .order('version', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+        : Promise.resolve({ data: null })
     ])
 
-    const workExperiences: WorkExperience[] = workResponse.data || []
-    const educations: Education[] = eduResponse.data || []
-    const settings: UserSettings | null = settingsResponse.data
+    const persona: Persona | null = personaResponse.data
+    const links: ProfileLink[] = linkResponse.data || []
 
-    // Check if settings exist and have valid API keys
-    if (!settings) {
+    const templateVersion: { template_id: string; version: number; body: string } | null = templateResponse.data
+    if (promptTemplateId && !templateVersion) {
       return new Response(
-        JSON.stringify({ error: 'Settings not found. Please configure your AI settings first.' }),
+        JSON.stringify({ error: 'Prompt template not found. It may have been deleted.' }),
         { 
-          status: 400, 
+          status: 404, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+    const promptTemplate = templateVersion?.body || DEFAULT_PROMPT_TEMPLATE
+    const promptTemplateMeta: PromptTemplateMeta = {
+      promptTemplateId: templateVersion?.template_id || null,
+      promptTemplateVersion: templateVersion?.version ?? null
+    }
+
+    if (personaId && !persona) {
+      return new Response(
+        JSON.stringify({ error: 'Persona not found. It may have been deleted.' }),
+        { 
+          status: 404, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
 
-    if (!settings.openai_key && !settings.anthropic_key) {
+    // A persona narrows the profile down to its curated experience, education and skills
+    const allWorkExperiences: WorkExperience[] = workResponse.data || []
+    const allEducations: Education[] = eduResponse.data || []
+    const allSkills: Skill[] = skillResponse.data || []
+    const workExperiences = persona
+      ? allWorkExperiences.filter(work => persona.work_experience_ids.includes(work.id))
+      : allWorkExperiences
+    const educations = persona
+      ? allEducations.filter(edu => persona.education_ids.includes(edu.id))
+      : allEducations
+    const skills = persona
+      ? allSkills.filter(skill => persona.skill_ids.includes(skill.id))
+      : allSkills
+
+    if (persona && workExperiences.length === 0) {
       return new Response(
-        JSON.stringify({ error: 'No API key configured. Please add your OpenAI or Anthropic API key in settings.' }),
+        JSON.stringify({ error: `Persona "${persona.name}" has no work experience selected.` }),
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
+    const sections: ResumeSections = {
+      certifications: certResponse.data || [],
+      projects: projectResponse.data || [],
+      publications: publicationResponse.data || [],
+      languages: languageResponse.data || [],
+      volunteering: volunteerResponse.data || []
+    }
+    const settings: UserSettings | null = settingsResponse.data
+
+    // Shows exactly what would be sent for a template that is still being edited
+    if (mode === 'preview-prompt') {
+      const previewTemplate = typeof templateBody === 'string' ? templateBody : promptTemplate
+      return new Response(
+        JSON.stringify({
+          template: previewTemplate,
+          prompt: createEnhancedPrompt(previewTemplate, jobDescription || '', profile, workExperiences, educations, skills, sections, controls)
+        }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
 
-    // Validate that the preferred AI has a corresponding API key
-    if (settings.preferred_ai === 'openai' && !settings.openai_key) {
+    // Check if settings exist and have valid API keys
+    if (!settings) {
       return new Response(
-        JSON.stringify({ error: 'OpenAI is selected as preferred AI but no OpenAI API key is configured. Please add your OpenAI API key or switch to Anthropic.' }),
+        JSON.stringify({ error: 'Settings not found. Please configure your AI settings first.' }),
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -149,9 +513,11 @@ Deno.serve(async (req) => {
       )
     }
 
-    if (settings.preferred_ai === 'anthropic' && !settings.anthropic_key) {
+    // Generation does not silently switch away from the provider the user picked
+    const provider = resolveProvider(settings)
+    if (!provider) {
       return new Response(
-        JSON.stringify({ error: 'Anthropic is selected as preferred AI but no Anthropic API key is configured. Please add your Anthropic API key or switch to Anthropic.' }),
+        JSON.stringify({ error: describeMissingProvider(settings) }),
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -159,33 +525,183 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Generate AI content with enhanced achievements for all companies
-    const aiContent = await generateWithAI(jobDescription, profile, workExperiences, educations, settings)
+    // With failover switched on, a second provider takes over when the preferred one keeps failing
+    const failoverProvider = resolveFailoverProvider(settings, provider)
+    const providers = failoverProvider ? [provider, failoverProvider] : [provider]
+
+    if (mode === 'regenerate-section') {
+      const targetError = describeInvalidSectionTarget(resume, target)
+      if (targetError) {
+        return new Response(
+          JSON.stringify({ error: targetError }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      // Achievements are grounded in the stored role they were written from,
+      // found by company and start date since the profile may have been reordered
+      const sectionTarget: SectionTarget = target
+      const resumeWork = sectionTarget.workIndex !== undefined ? resume.workExperiences[sectionTarget.workIndex] : null
+      const source = resumeWork
+        ? allWorkExperiences.find(work => work.company === resumeWork.company && work.start_date === resumeWork.startDate)
+        : undefined
+
+      const { aiContent, usage } = await generateWithFailover(
+        providers,
+        (candidate, attemptOptions) => regenerateSectionWithAI(candidate, jobDescription, resume, sectionTarget, source, skills, controls, settings, attemptOptions)
+      )
+
+      let sectionContent: SectionContent & { verification?: ClaimVerification | ClaimVerification[] } = aiContent
+      if (sectionTarget.section === 'work') {
+        const achievements = aiContent.achievements || []
+        sectionContent = {
+          achievements,
+          verification: achievements.map(achievement => verifyAchievement(achievement, source))
+        }
+      } else if (sectionTarget.section === 'bullet' && aiContent.achievement) {
+        sectionContent = { achievement: aiContent.achievement, verification: verifyAchievement(aiContent.achievement, source) }
+      }
+
+      // The section prompt is built in; the template is the one the resume
+      // being revised was written from, checked and reported like a generation's
+      return new Response(
+        JSON.stringify({ ...sectionContent, generationMeta: { ...usage, ...promptTemplateMeta } }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
 
     // Map work experiences with achievements - ensure ALL companies get achievements
-    const mappedWorkExperiences = workExperiences.map((work, index) => ({
+    const buildResult = (aiContent: ResumeContent) => {
+      const mappedWorkExperiences = workExperiences.map((work, index) => ({
         company: work.company,
-      position: aiContent.workExperiences[index]?.position || work.position,
+        position: aiContent.workExperiences[index]?.position || work.position,
         startDate: work.start_date,
         endDate: work.end_date,
         isCurrent: work.is_current,
         achievements: aiContent.workExperiences[index]?.achievements || []
-    }))
-
-    const result = {
-      ...aiContent,
-      personalInfo: profile,
-      workExperiences: mappedWorkExperiences,
-      educations: educations.map(edu => ({
-        university: edu.university,
-        degree: edu.degree,
-        startDate: edu.start_date,
-        endDate: edu.end_date
       }))
+
+      // Tag every generated bullet against the candidate's stored achievement bank
+      const verifiedWorkExperiences = mappedWorkExperiences.map((work, index) => ({
+        ...work,
+        verification: work.achievements.map(achievement => verifyAchievement(achievement, workExperiences[index]))
+      }))
+
+      return {
+        ...aiContent,
+        // With a skills inventory, only skills the candidate actually has are listed
+        technicalSkills: skills.length > 0 ? buildTechnicalSkills(jobDescription, skills) : aiContent.technicalSkills,
+        personalInfo: {
+          ...profile,
+          links: links.map(link => ({ label: link.label, url: link.url }))
+        },
+        workExperiences: verifiedWorkExperiences,
+        educations: educations.map(edu => ({
+          university: edu.university,
+          degree: edu.degree,
+          startDate: edu.start_date,
+          endDate: edu.end_date
+        })),
+        certifications: sections.certifications.map(cert => ({
+          name: cert.name,
+          issuer: cert.issuer,
+          issueDate: cert.issue_date,
+          expirationDate: cert.expiration_date,
+          credentialUrl: cert.credential_url
+        })),
+        projects: sections.projects.map(project => ({
+          name: project.name,
+          description: project.description,
+          role: project.role,
+          techStack: project.tech_stack || [],
+          url: project.url,
+          startDate: project.start_date,
+          endDate: project.end_date
+        })),
+        publications: sections.publications.map(publication => ({
+          title: publication.title,
+          publisher: publication.publisher,
+          publishedDate: publication.published_date,
+          url: publication.url,
+          description: publication.description
+        })),
+        languages: sections.languages.map(language => ({
+          name: language.name,
+          proficiency: LANGUAGE_PROFICIENCY_LABELS[language.proficiency] || language.proficiency
+        })),
+        volunteering: sections.volunteering.map(volunteer => ({
+          organization: volunteer.organization,
+          role: volunteer.role,
+          startDate: volunteer.start_date,
+          endDate: volunteer.end_date,
+          description: volunteer.description
+        }))
+      }
+    }
+
+    // Record exactly what this resume was built from. A failed snapshot is
+    // logged but does not fail the generation.
+    const saveProfileSnapshot = async (): Promise<string | null> => {
+      const { data: snapshotData, error: snapshotError } = await supabaseClient
+        .from('profile_snapshots')
+        .insert({
+          user_id: user.id,
+          persona_id: persona?.id || null,
+          snapshot: {
+            profile: profileResponse.data,
+            persona,
+            workExperiences,
+            educations,
+            skills,
+            links,
+            ...sections
+          }
+        })
+        .select('id')
+        .single()
+
+      if (snapshotError) {
+        console.error('Failed to save profile snapshot:', snapshotError)
+      }
+
+      return snapshotData?.id || null
+    }
+
+    if (stream) {
+      return streamGeneration(req, {
+        generate: (options, onFailover) => generateWithFailover(
+          providers,
+          (candidate, attemptOptions) => generateWithAI(candidate, promptTemplate, jobDescription, profile, workExperiences, educations, skills, sections, controls, settings, attemptOptions),
+          options,
+          onFailover
+        ),
+        buildResult,
+        saveProfileSnapshot,
+        promptTemplate: promptTemplateMeta,
+        // An inventory fixes the skills list up front, so only AI-written skills stream in
+        streamSkills: skills.length === 0
+      })
     }
 
+    // Generate AI content with enhanced achievements for all companies
+    const { aiContent, usage } = await generateWithFailover(
+      providers,
+      (candidate, attemptOptions) => generateWithAI(candidate, promptTemplate, jobDescription, profile, workExperiences, educations, skills, sections, controls, settings, attemptOptions)
+    )
+    const result = buildResult(aiContent)
+    const profileSnapshotId = await saveProfileSnapshot()
+
+    // generationMeta is split off by the client before the resume is stored
     return new Response(
-      JSON.stringify(result),
+      JSON.stringify({
+        ...result,
+        generationMeta: { profileSnapshotId, ...usage, ...promptTemplateMeta }
+      }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
@@ -194,23 +710,10 @@ Deno.serve(async (req) => {
   } catch (error) {
     console.error('Error in generate-resume function:', error)
     
-    // Provide more specific error messages based on the error type
-    let errorMessage = 'Internal server error'
-    let statusCode = 500
-
-    if (error.message.includes('API key')) {
-      errorMessage = 'Invalid API key. Please check your API key configuration in settings.'
-      statusCode = 401
-    } else if (error.message.includes('quota') || error.message.includes('rate limit')) {
-      errorMessage = 'API quota exceeded or rate limit reached. Please try again later.'
-      statusCode = 429
-    } else if (error.message.includes('network') || error.message.includes('fetch')) {
-      errorMessage = 'Network error occurred while connecting to AI service. Please try again.'
-      statusCode = 503
-    }
+    const { errorMessage, statusCode, validationErrors } = describeGenerationError(error)
 
     return new Response(
-      JSON.stringify({ error: errorMessage, details: error.message }),
+      JSON.stringify({ error: errorMessage, details: error.message, validationErrors }),
       { 
         status: statusCode, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -219,205 +722,917 @@ Deno.serve(async (req) => {
   }
 })
 
-async function generateWithAI(
-  jobDescription: string,
-  profile: UserProfile,
-  workExperiences: WorkExperience[],
-  educations: Education[],
-  settings: UserSettings
-) {
-  const prompt = createEnhancedPrompt(jobDescription, profile, workExperiences, educations)
-  
-  if (settings.preferred_ai === 'openai' && settings.openai_key) {
-    return await generateWithOpenAI(prompt, settings.openai_key)
-  } else if (settings.preferred_ai === 'anthropic' && settings.anthropic_key) {
-    return await generateWithAnthropic(prompt, settings.anthropic_key)
-  } else {
-    // Fallback to available key
-    if (settings.openai_key) {
-      return await generateWithOpenAI(prompt, settings.openai_key)
-    } else if (settings.anthropic_key) {
-      return await generateWithAnthropic(prompt, settings.anthropic_key)
+// Maps provider and network failures to a message the user can act on
+function describeGenerationError(error: Error): { errorMessage: string; statusCode: number; validationErrors?: FieldError[] } {
+  if (error instanceof ResumeValidationError) {
+    return {
+      errorMessage: 'The AI response did not match the resume format, even after a repair attempt and a retry. Please try again or choose another model.',
+      statusCode: 502,
+      validationErrors: error.fieldErrors
     }
   }
-  
-  throw new Error('No valid API key found')
+  if (error.name === 'TimeoutError') {
+    return { errorMessage: 'The AI service took too long to respond. Please try again.', statusCode: 504 }
+  }
+  if (error.message.includes('API key')) {
+    return { errorMessage: 'Invalid API key. Please check your API key configuration in settings.', statusCode: 401 }
+  }
+  if (error.message.includes('quota') || error.message.includes('rate limit')) {
+    return { errorMessage: 'API quota exceeded or rate limit reached. Please try again later.', statusCode: 429 }
+  }
+  if (error.message.includes('network') || error.message.includes('fetch')) {
+    return { errorMessage: 'Network error occurred while connecting to AI service. Please try again.', statusCode: 503 }
+  }
+  return { errorMessage: 'Internal server error', statusCode: 500 }
 }
 
-function createEnhancedPrompt(
-  jobDescription: string,
-  profile: UserProfile,
-  workExperiences: WorkExperience[],
-  educations: Education[]
-): string {
-  return `Expert ATS resume writer: Create strong, compelling achievements for ALL companies that match the exact seniority level required by the job.
-
-⚠️ CRITICAL SENIORITY MATCHING RULES:
-- ANALYZE the job description to determine the exact seniority level required (Junior, Mid-level, Senior, Staff, Principal, etc.)
-- MATCH the language and responsibilities to that exact level - DO NOT inflate or deflate
-- For Junior roles: Focus on learning, contributing, implementing, supporting, assisting
-- For Mid-level roles: Focus on developing, building, improving, collaborating, solving problems
-- For Senior roles: Focus on leading, architecting, mentoring, driving initiatives, strategic impact
-- NEVER use senior-level language (mentoring, leading teams, vast projects) for mid-level positions
-- NEVER use junior language (learning, assisting) for senior positions
-
-⚠️ CRITICAL ANTI-AI-DETECTION RULES:
-- NEVER copy company names, team names, product names, or specific organizational details from the job description
-- INSTEAD, create project names using the companies where the candidate ACTUALLY WORKED
-- Use format like "[Company Name] [Project Type]" - e.g., "BaileyTech Customer Portal", "StayAI Analytics Platform"
-- Make achievements sound like authentic work experience from their actual previous companies
-- This ensures realistic, believable project names that sound like real work history
+// Failover policy: each provider gets one attempt plus a retry after each of
+// these delays, and every attempt is cut off after ATTEMPT_TIMEOUT_MS. All
+// attempts share FAILOVER_BUDGET_MS, which stays under the edge function
+// wall-clock limit (150 s on the smallest plan) so a timed-out provider can
+// still fail over before the function is killed.
+const RETRY_DELAYS_MS = [1000, 4000]
+const ATTEMPT_TIMEOUT_MS = 45000
+const FAILOVER_BUDGET_MS = 140000
+
+// Rate limits, server errors, timeouts and unreachable servers may pass;
+// anything else (a bad key, a rejected request, invalid output) will not
+function isTransientError(error: Error): boolean {
+  return error.name === 'TimeoutError' ||
+    /API error: (429|5\d\d)\b/.test(error.message) ||
+    error.message.startsWith('Could not reach') ||
+    (error instanceof TypeError && /fetch|network|connect/i.test(error.message))
+}
 
-JOB DESCRIPTION:
-${jobDescription}
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+// Runs generate against the first provider, retrying transient failures with
+// backoff and then moving on to the next provider. A retry only happens when
+// the budget left still fits a full attempt plus one attempt for each provider
+// after this one. A single provider means failover is off, and generation runs
+// once exactly as before.
+async function generateWithFailover<Content>(
+  providers: AIProvider[],
+  generate: (provider: AIProvider, streamOptions?: StreamOptions) => Promise<GenerationOutput<Content>>,
+  streamOptions?: StreamOptions,
+  onFailover?: FailoverListener
+): Promise<GenerationOutput<Content>> {
+  if (providers.length === 1) {
+    return generate(providers[0], streamOptions)
+  }
+
+  const deadline = Date.now() + FAILOVER_BUDGET_MS
+  let lastError: Error | null = null
+  for (const [index, provider] of providers.entries()) {
+    // Time kept back so every later provider still gets one full attempt
+    const reserved = (providers.length - index - 1) * ATTEMPT_TIMEOUT_MS
+    if (deadline - Date.now() - reserved <= 0) break
 
-CANDIDATE:
-${profile.name} | ${profile.email} | ${profile.phone} | ${profile.location}
+    if (index > 0) {
+      console.warn(`Failing over from ${providers[index - 1].name} to ${provider.name}`)
+      onFailover?.(providers[index - 1], provider)
+    }
 
-WORK HISTORY:
-${workExperiences.map((work, i) => `${i + 1}. ${work.company} - ${work.position} (${work.start_date} to ${work.is_current ? 'Present' : work.end_date})`).join('\n')}
+    for (let attempt = 0; attempt <= RETRY_DELAYS_MS.length; attempt++) {
+      if (attempt > 0) {
+        // Jitter keeps retries from many users off the same instant
+        const delay = RETRY_DELAYS_MS[attempt - 1] * (1 + Math.random() * 0.25)
+        if (deadline - Date.now() - delay - reserved < ATTEMPT_TIMEOUT_MS) break
+        await sleep(delay, streamOptions?.signal)
+      }
 
-EDUCATION:
-${educations.map(edu => `${edu.university} - ${edu.degree} (${edu.start_date} to ${edu.end_date})`).join('\n')}
+      const timeout = AbortSignal.timeout(Math.min(ATTEMPT_TIMEOUT_MS, deadline - Date.now() - reserved))
+      const signal = streamOptions?.signal ? AbortSignal.any([streamOptions.signal, timeout]) : timeout
+      try {
+        return await generate(provider, { ...streamOptions, signal })
+      } catch (error) {
+        if (streamOptions?.signal?.aborted || !isTransientError(error)) throw error
+        console.warn(`${provider.name} attempt ${attempt + 1} failed:`, error.message)
+        lastError = error
+      }
+    }
+  }
 
-CRITICAL INSTRUCTIONS:
+  throw lastError
+}
 
-1. SENIORITY LEVEL ANALYSIS: 
-   - Carefully analyze the job description to determine the exact seniority level required
-   - Look for keywords like "Junior", "Mid-level", "Senior", "Staff", "Principal", "Lead", years of experience required
-   - Match ALL achievements to this exact level - no exceptions
+const EMPTY_AI_CONTENT: ResumeContent = { professionalTitle: '', professionalSummary: '', workExperiences: [], technicalSkills: [] }
 
-2. PROFESSIONAL TITLE: Create a concise, simple title that perfectly matches the job description requirements and seniority level
+// A streamed structured achievement may not have all of its fields yet
+function toPartialAchievement(achievement: unknown): GeneratedAchievement {
+  if (typeof achievement === 'string') return achievement
+  const fields = isRecord(achievement) ? achievement : {}
+  return {
+    description: typeof fields.description === 'string' ? fields.description : '',
+    details: Array.isArray(fields.details) ? fields.details.filter((detail): detail is string => typeof detail === 'string') : []
+  }
+}
 
-3. ROLE OPTIMIZATION: For each work experience, create role titles that match the job's seniority level:
-   - ANALYZE the job title in the job description and create RELEVANT titles for each work experience
-   - If target job is "Product Manager", create titles like "Product Manager", "Associate Product Manager", "Business Analyst"
-   - If target job is "Frontend Engineer", create titles like "Frontend Engineer", "UI Developer", "JavaScript Developer"
-   - If target job is "Machine Learning Engineer", create titles like "ML Engineer", "Data Scientist", "Software Engineer"
-   - If target job is "DevOps Engineer", create titles like "DevOps Engineer", "Cloud Engineer", "Site Reliability Engineer"
-   - MATCH the domain, technology stack, and career progression that leads to the target role
-   - Most recent role should be very similar to the target job title
-   - If job posting is for "Data Scientist", create titles like "Data Scientist", "Machine Learning Engineer", "Data Analyst"
-   - Match the domain and technology focus, not just seniority level
-   - Most recent role should closely match the target job title
+// Minimum time between section events while the provider is streaming
+const SECTION_EVENT_INTERVAL_MS = 250
+
+// Streams the generation as Server-Sent Events:
+//   skeleton - the resume without AI content (contact details, dates, education...)
+//   summary / work / skills - a section as written so far, resent as it grows
+//   complete - the final verified resume with generationMeta, same as the JSON response
+//   error - { error } when generation fails after the stream has started
+// Closing the connection aborts the upstream provider request.
+function streamGeneration(req: Request, generation: StreamingGeneration): Response {
+  const encoder = new TextEncoder()
+  const upstream = new AbortController()
+  req.signal?.addEventListener('abort', () => upstream.abort())
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (upstream.signal.aborted) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
 
-4. ACHIEVEMENT STRENGTH FOR ALL COMPANIES:
-   - Company 1 (Most Recent): 5 strong achievements with detailed structured format
-   - Company 2: 5 strong achievements (not weak!) with good detail and impact
-   - Company 3+: 5 strong achievements each, maintaining quality and relevance
+      // Last payload sent per section, so unchanged sections are not resent
+      const sent = new Map<string, string>()
+      const sendSection = (key: string, event: string, data: Record<string, unknown>) => {
+        const payload = JSON.stringify(data)
+        if (sent.get(key) === payload) return
+        sent.set(key, payload)
+        send(event, data)
+      }
 
-5. ACHIEVEMENT GUIDELINES BY SENIORITY:
+      let lastEmit = 0
+      const emitSections = (text: string) => {
+        const now = Date.now()
+        if (now - lastEmit < SECTION_EVENT_INTERVAL_MS) return
+        lastEmit = now
 
-FOR JUNIOR LEVEL POSITIONS:
-- Focus on: Contributing to projects, implementing features, learning technologies, supporting team goals
-- Avoid: Leading teams, mentoring, architecting systems, strategic decisions
-- Language: "Contributed to", "Implemented", "Developed", "Supported", "Collaborated on"
+        const partial = parsePartialJson(text)
+        if (!isRecord(partial)) return
 
-FOR MID-LEVEL POSITIONS:
-- Focus on: Building systems, solving complex problems, improving processes, cross-team collaboration
-- Avoid: Mentoring junior developers, leading large teams, strategic architecture decisions
-- Language: "Built", "Developed", "Improved", "Optimized", "Collaborated with", "Solved"
+        if (partial.professionalTitle !== undefined || partial.professionalSummary !== undefined) {
+          sendSection('summary', 'summary', {
+            professionalTitle: partial.professionalTitle ?? '',
+            professionalSummary: partial.professionalSummary ?? ''
+          })
+        }
+        if (Array.isArray(partial.workExperiences)) {
+          partial.workExperiences.forEach((work: unknown, index: number) => {
+            if (!isRecord(work)) return
+            sendSection(`work-${index}`, 'work', {
+              index,
+              position: work.position ?? '',
+              achievements: Array.isArray(work.achievements) ? work.achievements.map(toPartialAchievement) : []
+            })
+          })
+        }
+        if (generation.streamSkills && Array.isArray(partial.technicalSkills)) {
+          sendSection('skills', 'skills', { technicalSkills: partial.technicalSkills })
+        }
+      }
 
-FOR SENIOR LEVEL POSITIONS:
-- Focus on: Leading initiatives, mentoring, architectural decisions, strategic impact, team leadership
-- Include: "Led", "Architected", "Mentored", "Drove", "Established", "Strategized"
+      try {
+        send('skeleton', generation.buildResult(EMPTY_AI_CONTENT))
+        const { aiContent, usage } = await generation.generate({ signal: upstream.signal, onText: emitSections }, (from, to) => {
+          // The next provider writes every section afresh
+          sent.clear()
+          send('failover', { from: from.id, to: to.id })
+        })
+        const result = generation.buildResult(aiContent)
+        const profileSnapshotId = await generation.saveProfileSnapshot()
+        send('complete', {
+          ...result,
+          generationMeta: { profileSnapshotId, ...usage, ...generation.promptTemplate }
+        })
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error('Error in streamed generate-resume:', error)
+          const { errorMessage, validationErrors } = describeGenerationError(error)
+          send('error', { error: errorMessage, details: error.message, validationErrors })
+        }
+      } finally {
+        if (!upstream.signal.aborted) {
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      upstream.abort()
+    }
+  })
 
-6. TECHNICAL SKILLS: Extract ALL technologies from job description + add comprehensive related technologies. Create 15 detailed categories with at least 4 skills each.
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache'
+    }
+  })
+}
 
-ENHANCED ACHIEVEMENT STRUCTURE FOR ALL COMPANIES:
+// Skills section template for candidates without a skills inventory
+const GENERIC_TECHNICAL_SKILLS_TEMPLATE = `[
+    "Programming Languages: Extract ALL programming languages from job description and add at least 4 comprehensive related languages and frameworks",
+    "Frontend Development: Extract ALL frontend technologies from posting and add at least 4 extensive related frameworks, libraries, and tools",
+    "Backend Technologies: Extract ALL backend frameworks from posting and add at least 4 comprehensive related server technologies and architectures",
+    "Database Systems: Extract ALL database technologies from posting and add at least 4 extensive related data management tools and platforms",
+    "Cloud Platforms: Extract ALL cloud services from posting and add at least 4 comprehensive related cloud technologies and services",
+    "DevOps & Infrastructure: Extract ALL DevOps tools from posting and add at least 4 extensive related automation and infrastructure technologies",
+    "Development Tools: Extract ALL development tools from posting and add at least 4 comprehensive related productivity and collaboration tools",
+    "Testing & Quality Assurance: Extract ALL testing frameworks from posting and add at least 4 extensive related QA tools and methodologies",
+    "API Development: Extract ALL API technologies from posting and add at least 4 comprehensive related integration protocols and tools",
+    "Monitoring & Analytics: Extract ALL monitoring tools from posting and add at least 4 extensive related observability and analytics platforms",
+    "Security & Compliance: Extract ALL security frameworks from posting and add at least 4 comprehensive related security tools and practices",
+    "Data Science & Analytics: Extract ALL data tools from posting and add at least 4 extensive related analytics and machine learning technologies",
+    "Mobile Development: Extract ALL mobile technologies from posting and add at least 4 comprehensive related mobile frameworks and tools",
+    "Emerging Technologies: Extract ALL emerging tech from posting and add at least 4 extensive related innovative tools and platforms",
+    "Methodologies & Practices: Extract ALL methodologies from posting and add at least 4 comprehensive related development practices and frameworks"
+  ]`
 
-Company 1 (${workExperiences[0]?.company || 'First Company'}):
-- Achievement 1: Structured format with description + 2 detailed bullet points (70-90 words total)
-- Achievements 2-5: Strong individual achievements (60-80 words each)
+// Used when user_settings predates the temperature and max_output_tokens columns
+const DEFAULT_TEMPERATURE = 0.7
+const DEFAULT_MAX_OUTPUT_TOKENS = 8000
 
-Company 2 (${workExperiences[1]?.company || 'Second Company'}):
-- ALL 5 achievements should be strong and detailed (60-80 words each)
-- Focus on different aspects: technical implementation, problem-solving, collaboration, process improvement, innovation
-- Use technologies and methodologies from the job description
-- Match the seniority level exactly
+const NO_PROVIDER_MESSAGE = 'No AI provider configured. Please add an API key for OpenAI, Anthropic, Gemini or Mistral, an Azure OpenAI deployment, or a self-hosted endpoint in settings.'
 
-Company 3+ (${workExperiences.slice(2).map(w => w.company).join(', ')}):
-- ALL 5 achievements should be substantial and relevant (50-70 words each)
-- Maintain quality and avoid generic or weak statements
-- Show progression and growth appropriate to the seniority level
-- Include specific technologies and measurable impact
+// Why resolveProvider found nothing: no provider at all, or only ones other than the preferred
+function describeMissingProvider(settings: UserSettings): string {
+  if (!AI_PROVIDERS.some(provider => provider.isConfigured(settings))) return NO_PROVIDER_MESSAGE
+  const preferredName = findProvider(settings.preferred_ai)?.name || settings.preferred_ai
+  return `${preferredName} is selected as preferred AI but is not configured. Please complete its settings or switch to another provider.`
+}
 
-DOMAIN ADAPTATION STRATEGY:
-1. Analyze the job description to identify the primary domain and exact seniority level needed
-2. Create project names using the candidate's ACTUAL company names in format "[Company Name] [Project Type]"
-3. Use technical terminology and methodologies from the job posting, but NEVER copy company/product names from the job description
-4. Focus on the most important 5-7 keywords rather than trying to fit everything
-5. Make project names sound realistic for what could be built at their actual previous companies
-6. Include impressive but believable metrics that match the seniority level
-7. Ensure achievements sound authentic to their actual work history and seniority level
+const RESUME_SYSTEM_PROMPT = 'You are an expert ATS resume writer specializing in creating strong achievements for ALL companies and matching exact seniority levels. CRITICAL: 1) Analyze job description to determine exact seniority level (Junior/Mid/Senior) and match language accordingly - NEVER use senior language for mid-level roles. 2) Create strong, detailed achievements for ALL companies, not just the first one. 3) NEVER use company names from job description - only use candidate\'s actual company names. 4) Focus on appropriate responsibilities and impact for the seniority level required.'
 
-Return ONLY this JSON:
+// A seniority the user picked replaces the level the system prompt would infer
+function createSystemPrompt(controls: GenerationControls): string {
+  return controls.seniority === 'auto'
+    ? RESUME_SYSTEM_PROMPT
+    : `${RESUME_SYSTEM_PROMPT} The user has set the seniority level to ${SENIORITY_LABELS[controls.seniority]}: write at that level instead of the one in the job description.`
+}
 
-{
+async function generateWithAI(
+  provider: AIProvider,
+  template: string,
+  jobDescription: string,
+  profile: UserProfile,
+  workExperiences: WorkExperience[],
+  educations: Education[],
+  skills: Skill[],
+  sections: ResumeSections,
+  controls: GenerationControls,
+  settings: UserSettings,
+  streamOptions?: StreamOptions
+): Promise<GenerationOutput> {
+  // Roles with a thin achievement bank may get fewer achievements than asked for
+  const schemaOptions: ResumeSchemaOptions = {
+    workCount: workExperiences.length,
+    achievementLimits: workExperiences.map((_, index) => ({ min: 1, max: bulletsForRole(controls, index) })),
+    expectTechnicalSkills: skills.length === 0,
+    summaryMaxWords: SUMMARY_LENGTHS[controls.summaryLength].maxWords
+  }
+  const request = {
+    system: createSystemPrompt(controls),
+    prompt: createEnhancedPrompt(template, jobDescription, profile, workExperiences, educations, skills, sections, controls),
+    temperature: settings.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: settings.max_output_tokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    outputSchema: resumeOutputSchema(schemaOptions)
+  }
+
+  return completeWithValidation<ResumeContent>(
+    provider,
+    settings,
+    request,
+    content => validateResumeContent(content, schemaOptions),
+    `"workExperiences" has exactly ${schemaOptions.workCount} entries in the original order, and ${schemaOptions.achievementLimits.map((limit, index) => `entry ${index + 1} has ${limit.min}-${limit.max} achievements`).join(', ')}. "professionalSummary" has at most ${schemaOptions.summaryMaxWords} words.`,
+    streamOptions
+  )
+}
+
+// Sends the request and validates the answer, following up with a repair
+// request and then one retry when it fails. rules describes what the JSON
+// Schema alone does not capture, for the repair prompt.
+async function completeWithValidation<Content>(
+  provider: AIProvider,
+  settings: UserSettings,
+  request: CompletionRequest & { outputSchema: OutputSchema },
+  validate: (content: unknown) => FieldError[],
+  rules: string,
+  streamOptions?: StreamOptions
+): Promise<GenerationOutput<Content>> {
+  // Every attempt is billed, so all of them count towards the usage
+  const completions: Completion[] = []
+  const attempt = async (attemptRequest: CompletionRequest) => {
+    const completion = await provider.complete(attemptRequest, settings)
+    completions.push(completion)
+    return { text: completion.text, ...checkContent(completion.text, validate) }
+  }
+
+  // Only the first attempt streams; the client keeps its preview until the final result
+  let result = await attempt({ ...request, stream: streamOptions })
+  if (result.errors.length > 0) {
+    console.warn(`${provider.name} response failed validation, requesting a repair:`, result.errors)
+    result = await attempt({
+      ...createRepairRequest(result.text, result.errors, request.outputSchema, rules, request.maxTokens),
+      outputSchema: request.outputSchema,
+      stream: { signal: streamOptions?.signal }
+    })
+  }
+  if (result.errors.length > 0) {
+    console.warn(`${provider.name} repair failed validation, retrying the generation:`, result.errors)
+    result = await attempt({
+      ...request,
+      prompt: `${request.prompt}\n\nA previous answer to this request was rejected for these problems - avoid them:\n${formatFieldErrors(result.errors)}`,
+      stream: { signal: streamOptions?.signal }
+    })
+  }
+  if (result.errors.length > 0) {
+    console.error(`Invalid ${provider.name} response:`, result.text)
+    throw new ResumeValidationError(result.errors)
+  }
+
+  return { aiContent: result.content as Content, usage: summarizeUsage(provider, settings, completions) }
+}
+
+// Providers with native structured output return the resume as a typed object
+function resumeOutputSchema(options: ResumeSchemaOptions): OutputSchema {
+  return {
+    name: 'resume',
+    description: 'The tailored resume content: title, summary, one entry per work experience in order, and technical skills',
+    schema: buildResumeSchema(options)
+  }
+}
+
+// Parses a provider answer and checks it with the given validator
+function checkContent(text: string, validate: (content: unknown) => FieldError[]): { content: unknown; errors: FieldError[] } {
+  let content: unknown
+  try {
+    content = JSON.parse(extractJsonFromContent(text))
+  } catch (error) {
+    return { content: null, errors: [{ path: '', message: `is not valid JSON (${error.message})` }] }
+  }
+  return { content, errors: validate(content) }
+}
+
+// Asks the model to fix only what failed validation, keeping the rest of its answer
+function createRepairRequest(
+  previousAnswer: string,
+  errors: FieldError[],
+  outputSchema: OutputSchema,
+  rules: string,
+  maxTokens: number
+): CompletionRequest {
+  return {
+    system: 'You repair JSON documents so they match a JSON Schema. Change only what the listed problems require and keep all other content word for word.',
+    prompt: `This resume JSON has the following problems:
+${formatFieldErrors(errors)}
+
+It must match this JSON Schema:
+${JSON.stringify(outputSchema.schema)}
+${rules ? `\nAdditional rules: ${rules}\n` : ''}
+Return ONLY the corrected JSON with no additional text or formatting.
+
+${previousAnswer}`,
+    temperature: 0,
+    maxTokens
+  }
+}
+
+// Adds up every attempt. Tokens are only reported when all attempts reported
+// them, so a partial count is never shown as the real spend.
+function summarizeUsage(provider: AIProvider, settings: UserSettings, completions: Completion[]): GenerationUsage {
+  const aiModel = completions[0]?.model || provider.model(settings)
+  const usages = completions.map(completion => completion.usage)
+  if (usages.some(usage => !usage)) {
+    return { aiProvider: provider.id, aiModel, inputTokens: null, outputTokens: null, cost: null }
+  }
+
+  const inputTokens = usages.reduce((sum, usage) => sum + usage!.inputTokens, 0)
+  const outputTokens = usages.reduce((sum, usage) => sum + usage!.outputTokens, 0)
+  return {
+    aiProvider: provider.id,
+    aiModel,
+    inputTokens,
+    outputTokens,
+    cost: calculateCost(provider.id, aiModel, { inputTokens, outputTokens })
+  }
+}
+
+// Fills the prompt template with the candidate's data
+function createEnhancedPrompt(
+  template: string,
+  jobDescription: string,
+  profile: UserProfile,
+  workExperiences: WorkExperience[],
+  educations: Education[],
+  skills: Skill[],
+  sections: ResumeSections,
+  controls: GenerationControls
+): string {
+  const layout = pageLayout(controls)
+  return renderPromptTemplate(template, {
+    jobDescription,
+    candidate: `${profile.name} | ${profile.email} | ${profile.phone} | ${profile.location}`,
+    workHistory: workExperiences.map((work, i) => `${i + 1}. ${work.company} - ${work.position} (${work.start_date} to ${work.is_current ? 'Present' : work.end_date})
+${formatRoleContext(work)}${formatAchievementBank(work.achievements)}`).join('\n'),
+    education: educations.map(edu => `${edu.university} - ${edu.degree} (${edu.start_date} to ${edu.end_date})`).join('\n'),
+    skills: skills.length > 0 ? formatSkillInventory(skills) : 'No skills inventory provided',
+    background: formatAdditionalBackground(sections),
+    skillsInstructions: skills.length > 0
+      ? 'TECHNICAL SKILLS: The skills section is built from the CANDIDATE SKILLS inventory - return an empty "technicalSkills" array. Only mention technologies from CANDIDATE SKILLS or the verified achievements in any achievement.'
+      : 'TECHNICAL SKILLS: Extract ALL technologies from job description + add comprehensive related technologies. Create 15 detailed categories with at least 4 skills each.',
+    firstCompany: workExperiences[0]?.company || 'First Company',
+    secondCompany: workExperiences[1]?.company || 'Second Company',
+    otherCompanies: workExperiences.slice(2).map(w => w.company).join(', '),
+    generationSettings: describeGenerationControls(controls),
+    recentRoleBullets: String(controls.recentRoleBullets),
+    olderRoleBullets: String(controls.olderRoleBullets),
+    recentBulletWords: layout.recentWords,
+    olderBulletWords: layout.olderWords,
+    summaryLength: SUMMARY_LENGTHS[controls.summaryLength].description,
+    answerFormat: createAnswerFormat(workExperiences, skills, controls)
+  })
+}
+
+// What each "STRONG Achievement" line of the answer format asks for, in
+// order. Roles asked for more achievements than a list holds continue with
+// EXTRA_ACHIEVEMENT_THEMES.
+function firstRoleThemes(company: string): string[] {
+  return [
+    `detailed sentence about another significant project at ${company} highlighting different technologies and skills from job posting, your technical role appropriate to seniority level in system design and implementation, comprehensive problem-solving approaches, collaboration with stakeholders, measurable impact on business metrics and performance improvements, and value delivered to the organization`,
+    'professional sentence emphasizing technical excellence appropriate to seniority level, architecture decisions (if applicable), code quality standards, innovation initiatives, best practices implementation, technical knowledge sharing, continuous learning and skill development, advanced problem-solving skills, and technical contributions that directly align with technical requirements mentioned in job description',
+    'comprehensive sentence showcasing collaboration excellence, teamwork capabilities appropriate to seniority level, stakeholder management skills, cross-functional coordination and communication, effective project delivery, relationship building, and collaboration qualities that demonstrate soft skills mentioned in job description',
+    'detailed sentence highlighting process improvements, initiatives appropriate to seniority level, methodology implementation and optimization, efficiency improvements and innovation projects, business impact, strategic thinking (if senior), value-add capabilities, and organizational impact that demonstrates value mentioned in job posting requirements'
+  ]
+}
+
+function secondRoleThemes(company: string): string[] {
+  return [
+    `comprehensive sentence describing domain-specific project using '${company} [Project Type]' format, technologies from job description, detailed scope appropriate to seniority level, challenges, solutions, and quantified results that demonstrate impact`,
+    `detailed sentence about different ${company} project using other technologies from posting, technical contributions appropriate to seniority level, collaboration, problem-solving, and measurable business impact with specific metrics`,
+    'sentence highlighting technical excellence and specific skills mentioned in job description, showcasing expertise appropriate to seniority level, innovation, quality standards, and technical contributions that align with job requirements',
+    'sentence showcasing collaboration, communication, and teamwork skills from job requirements, demonstrating ability to work effectively with teams, stakeholders, and cross-functional groups at the appropriate seniority level',
+    'sentence emphasizing process improvement and impact using methodologies from posting, showing initiative, efficiency improvements, and organizational value appropriate to the seniority level required by the job'
+  ]
+}
+
+function olderRoleThemes(company: string): string[] {
+  return [
+    `comprehensive sentence describing domain-specific project using '${company} [Project Type]' format, technologies from job description, detailed scope appropriate to seniority level, challenges, solutions, and quantified results`,
+    `detailed sentence about different ${company} project using other technologies from posting, technical contributions appropriate to seniority level, collaboration, and business impact`,
+    'sentence highlighting technical excellence and specific skills mentioned in job description, showcasing expertise appropriate to seniority level and technical contributions',
+    'sentence showcasing collaboration, communication, and teamwork skills from job requirements, demonstrating effective work at the appropriate seniority level',
+    'sentence emphasizing process improvement and strategic impact using methodologies from posting, showing value appropriate to the seniority level'
+  ]
+}
+
+const EXTRA_ACHIEVEMENT_THEMES = [
+  'sentence about mentoring, onboarding or knowledge sharing using practices from the job description, appropriate to seniority level, with a measurable effect on the team',
+  'sentence about reliability, quality or performance work using tools from the posting, describing the problem, the approach taken and quantified results',
+  'sentence about a delivery or stakeholder outcome that covers a job requirement not addressed by the earlier achievements, with specific scope and impact'
+]
+
+// Answer format lines for achievements firstNumber onwards, count in total
+function formatAchievementLines(themes: string[], firstNumber: number, count: number, words: string): string[] {
+  return [...themes, ...EXTRA_ACHIEVEMENT_THEMES]
+    .slice(0, Math.max(count, 0))
+    .map((theme, index) => `        "STRONG Achievement ${firstNumber + index}: ${words} word ${theme}"`)
+}
+
+// The JSON the model is asked to return, with one entry per work experience
+// and as many achievements per role as the controls ask for
+function createAnswerFormat(workExperiences: WorkExperience[], skills: Skill[], controls: GenerationControls): string {
+  const layout = pageLayout(controls)
+  const firstCompany = jsonText(workExperiences[0]?.company || 'Company1')
+  const firstAchievements = [
+    `        {
+          "description": "PERFECT FIRST ACHIEVEMENT: ${layout.headlineWords} word sentence describing a specific project using the format '${jsonText(workExperiences[0]?.company || 'CompanyName')} [Project Type]' that perfectly aligns with job requirements and seniority level, incorporating the TOP 5-7 most important keywords and technologies from the job description, including specific scope and metrics appropriate for the seniority level",
+          "details": [
+            "Technical Implementation: ${layout.detailWords} word detailed explanation of exactly what you did at the appropriate seniority level, the technical approach taken, specific technologies and methodologies used, architecture decisions made (if senior), and key technical solutions implemented to deliver the project successfully",
+            "Challenges & Solutions: ${layout.detailWords} word detailed explanation of the main challenges faced during the project, specific problems encountered, innovative solutions developed appropriate to seniority level, obstacles overcome, and how your problem-solving skills led to successful project completion"
+          ]
+        }`,
+    ...formatAchievementLines(firstRoleThemes(firstCompany), 2, bulletsForRole(controls, 0) - 1, layout.recentWords)
+  ]
+  const secondCompany = jsonText(workExperiences[1]?.company || 'Company2')
+
+  return `{
   "professionalTitle": "Exact job title matching seniority level and primary technologies",
-  "professionalSummary": "6-7 comprehensive sentences (60-80 words) integrating maximum keywords from job description naturally while highlighting appropriate years of experience for the seniority level, technical expertise, industry knowledge, and capabilities that directly match job requirements without over-inflating or under-selling",
+  "professionalSummary": "${SUMMARY_LENGTHS[controls.summaryLength].description} integrating maximum keywords from job description naturally while highlighting appropriate years of experience for the seniority level, technical expertise, industry knowledge, and capabilities that directly match job requirements without over-inflating or under-selling",
   "workExperiences": [
     {
-      "company": "${workExperiences[0]?.company || 'Company1'}",
+      "company": "${firstCompany}",
       "position": "DOMAIN-SPECIFIC role title that matches the job description's field and requirements - ensure career progression makes sense for the target role",
       "achievements": [
-        {
-          "description": "PERFECT FIRST ACHIEVEMENT: 50-60 word sentence describing a specific project using the format '${workExperiences[0]?.company || 'CompanyName'} [Project Type]' that perfectly aligns with job requirements and seniority level, incorporating the TOP 5-7 most important keywords and technologies from the job description, including specific scope and metrics appropriate for the seniority level",
-          "details": [
-            "Technical Implementation: 40-50 word detailed explanation of exactly what you did at the appropriate seniority level, the technical approach taken, specific technologies and methodologies used, architecture decisions made (if senior), and key technical solutions implemented to deliver the project successfully",
-            "Challenges & Solutions: 40-50 word detailed explanation of the main challenges faced during the project, specific problems encountered, innovative solutions developed appropriate to seniority level, obstacles overcome, and how your problem-solving skills led to successful project completion"
-          ]
-        },
-        "STRONG Achievement 2: 60-80 word detailed sentence about another significant project at ${workExperiences[0]?.company || 'Company1'} highlighting different technologies and skills from job posting, your technical role appropriate to seniority level in system design and implementation, comprehensive problem-solving approaches, collaboration with stakeholders, measurable impact on business metrics and performance improvements, and value delivered to the organization",
-        "STRONG Achievement 3: 60-80 word professional sentence emphasizing technical excellence appropriate to seniority level, architecture decisions (if applicable), code quality standards, innovation initiatives, best practices implementation, technical knowledge sharing, continuous learning and skill development, advanced problem-solving skills, and technical contributions that directly align with technical requirements mentioned in job description",
-        "STRONG Achievement 4: 60-80 word comprehensive sentence showcasing collaboration excellence, teamwork capabilities appropriate to seniority level, stakeholder management skills, cross-functional coordination and communication, effective project delivery, relationship building, and collaboration qualities that demonstrate soft skills mentioned in job description",
-        "STRONG Achievement 5: 60-80 word detailed sentence highlighting process improvements, initiatives appropriate to seniority level, methodology implementation and optimization, efficiency improvements and innovation projects, business impact, strategic thinking (if senior), value-add capabilities, and organizational impact that demonstrates value mentioned in job posting requirements"
+${firstAchievements.join(',\n')}
       ]
     }${workExperiences.length > 1 ? `,
     {
-      "company": "${workExperiences[1]?.company || 'Company2'}",
+      "company": "${secondCompany}",
       "position": "DOMAIN-SPECIFIC role title that matches the job description's field and requirements - ensure career progression makes sense for the target role",
       "achievements": [
-        "STRONG Achievement 1: 60-80 word comprehensive sentence describing domain-specific project using '${workExperiences[1]?.company || 'CompanyName'} [Project Type]' format, technologies from job description, detailed scope appropriate to seniority level, challenges, solutions, and quantified results that demonstrate impact",
-        "STRONG Achievement 2: 60-80 word detailed sentence about different ${workExperiences[1]?.company || 'company'} project using other technologies from posting, technical contributions appropriate to seniority level, collaboration, problem-solving, and measurable business impact with specific metrics",
-        "STRONG Achievement 3: 60-80 word sentence highlighting technical excellence and specific skills mentioned in job description, showcasing expertise appropriate to seniority level, innovation, quality standards, and technical contributions that align with job requirements",
-        "STRONG Achievement 4: 60-80 word sentence showcasing collaboration, communication, and teamwork skills from job requirements, demonstrating ability to work effectively with teams, stakeholders, and cross-functional groups at the appropriate seniority level",
-        "STRONG Achievement 5: 60-80 word sentence emphasizing process improvement and impact using methodologies from posting, showing initiative, efficiency improvements, and organizational value appropriate to the seniority level required by the job"
+${formatAchievementLines(secondRoleThemes(jsonText(workExperiences[1]?.company || 'CompanyName')), 1, bulletsForRole(controls, 1), layout.recentWords).join(',\n')}
       ]
     }` : ''}${workExperiences.length > 2 ? workExperiences.slice(2).map((work, originalIndex) => {
       return `,
     {
-      "company": "${work.company}",
+      "company": "${jsonText(work.company)}",
       "position": "DOMAIN-SPECIFIC role title that matches the job description's field and requirements - ensure career progression makes sense for the target role",
       "achievements": [
-        "STRONG Achievement 1: 50-70 word comprehensive sentence describing domain-specific project using '${work.company} [Project Type]' format, technologies from job description, detailed scope appropriate to seniority level, challenges, solutions, and quantified results",
-        "STRONG Achievement 2: 50-70 word detailed sentence about different ${work.company} project using other technologies from posting, technical contributions appropriate to seniority level, collaboration, and business impact",
-        "STRONG Achievement 3: 50-70 word sentence highlighting technical excellence and specific skills mentioned in job description, showcasing expertise appropriate to seniority level and technical contributions",
-        "STRONG Achievement 4: 50-70 word sentence showcasing collaboration, communication, and teamwork skills from job requirements, demonstrating effective work at the appropriate seniority level",
-        "STRONG Achievement 5: 50-70 word sentence emphasizing process improvement and strategic impact using methodologies from posting, showing value appropriate to the seniority level"
+${formatAchievementLines(olderRoleThemes(jsonText(work.company)), 1, bulletsForRole(controls, originalIndex + 2), layout.olderWords).join(',\n')}
       ]
     }`}).join('') : ''}
   ],
-  "technicalSkills": [
-    "Programming Languages: Extract ALL programming languages from job description and add at least 4 comprehensive related languages and frameworks",
-    "Frontend Development: Extract ALL frontend technologies from posting and add at least 4 extensive related frameworks, libraries, and tools",
-    "Backend Technologies: Extract ALL backend frameworks from posting and add at least 4 comprehensive related server technologies and architectures",
-    "Database Systems: Extract ALL database technologies from posting and add at least 4 extensive related data management tools and platforms",
-    "Cloud Platforms: Extract ALL cloud services from posting and add at least 4 comprehensive related cloud technologies and services",
-    "DevOps & Infrastructure: Extract ALL DevOps tools from posting and add at least 4 extensive related automation and infrastructure technologies",
-    "Development Tools: Extract ALL development tools from posting and add at least 4 comprehensive related productivity and collaboration tools",
-    "Testing & Quality Assurance: Extract ALL testing frameworks from posting and add at least 4 extensive related QA tools and methodologies",
-    "API Development: Extract ALL API technologies from posting and add at least 4 comprehensive related integration protocols and tools",
-    "Monitoring & Analytics: Extract ALL monitoring tools from posting and add at least 4 extensive related observability and analytics platforms",
-    "Security & Compliance: Extract ALL security frameworks from posting and add at least 4 comprehensive related security tools and practices",
-    "Data Science & Analytics: Extract ALL data tools from posting and add at least 4 extensive related analytics and machine learning technologies",
-    "Mobile Development: Extract ALL mobile technologies from posting and add at least 4 comprehensive related mobile frameworks and tools",
-    "Emerging Technologies: Extract ALL emerging tech from posting and add at least 4 extensive related innovative tools and platforms",
-    "Methodologies & Practices: Extract ALL methodologies from posting and add at least 4 comprehensive related development practices and frameworks"
+  "technicalSkills": ${skills.length > 0 ? '[]' : GENERIC_TECHNICAL_SKILLS_TEMPLATE}
+}`
+}
+
+// Rewrites one section of an existing resume. source is the stored role the
+// targeted work experience came from, when it could be found.
+async function regenerateSectionWithAI(
+  provider: AIProvider,
+  jobDescription: string,
+  resume: GeneratedResume,
+  target: SectionTarget,
+  source: WorkExperience | undefined,
+  skills: Skill[],
+  controls: GenerationControls,
+  settings: UserSettings,
+  streamOptions?: StreamOptions
+): Promise<GenerationOutput<SectionContent>> {
+  const schemaOptions: SectionSchemaOptions = {
+    achievementLimit: {
+      min: 1,
+      max: target.workIndex !== undefined ? bulletsForRole(controls, target.workIndex) : BULLETS_PER_ROLE_RANGE.max
+    },
+    minTechnicalSkills: skills.length > 0 ? 1 : MIN_TECHNICAL_SKILLS,
+    summaryMaxWords: SUMMARY_LENGTHS[controls.summaryLength].maxWords
+  }
+  const request = {
+    system: createSystemPrompt(controls),
+    prompt: createSectionPrompt(jobDescription, resume, target, source, skills, controls),
+    temperature: settings.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: settings.max_output_tokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    outputSchema: {
+      name: 'resume_section',
+      description: 'The rewritten resume section',
+      schema: buildSectionSchema(target.section, schemaOptions)
+    }
+  }
+
+  return completeWithValidation<SectionContent>(
+    provider,
+    settings,
+    request,
+    content => validateSectionContent(content, target.section, schemaOptions),
+    target.section === 'work'
+      ? `"achievements" has ${schemaOptions.achievementLimit.min}-${schemaOptions.achievementLimit.max} entries.`
+      : '',
+    streamOptions
+  )
+}
+
+// Returns why a section target does not point into the resume, or null when it does
+// The arguments come straight from the request body, so none of their types can be trusted yet
+function describeInvalidSectionTarget(resume: GeneratedResume | undefined, target: SectionTarget | undefined): string | null {
+  if (!resume || typeof resume !== 'object' || !Array.isArray(resume.workExperiences)) {
+    return 'The current resume is required'
+  }
+  if (!target || !['title', 'summary', 'work', 'bullet', 'skills'].includes(target.section)) {
+    return 'Unknown resume section'
+  }
+  if (target.section === 'work' || target.section === 'bullet') {
+    const work = Number.isInteger(target.workIndex) ? resume.workExperiences[target.workIndex!] : undefined
+    if (!work) {
+      return 'Work experience not found in the resume'
+    }
+    if (target.section === 'bullet' && (!Number.isInteger(target.achievementIndex) || !work.achievements?.[target.achievementIndex!])) {
+      return 'Achievement not found in the resume'
+    }
+  }
+  return null
+}
+
+// The resume as the model sees it while rewriting one part of it
+function formatResumeForSection(resume: GeneratedResume): string {
+  return JSON.stringify({
+    professionalTitle: resume.professionalTitle,
+    professionalSummary: resume.professionalSummary,
+    workExperiences: resume.workExperiences.map(work => ({
+      company: work.company,
+      position: work.position,
+      startDate: work.startDate,
+      endDate: work.isCurrent ? 'Present' : work.endDate,
+      achievements: work.achievements
+    })),
+    technicalSkills: resume.technicalSkills
+  }, null, 2)
+}
+
+function createSectionPrompt(
+  jobDescription: string,
+  resume: GeneratedResume,
+  target: SectionTarget,
+  source: WorkExperience | undefined,
+  skills: Skill[],
+  controls: GenerationControls
+): string {
+  // Only read for work and bullet targets, which always carry a workIndex
+  const work = resume.workExperiences[target.workIndex ?? 0]
+  const layout = pageLayout(controls)
+  const words = target.workIndex !== undefined && target.workIndex >= RECENT_ROLE_COUNT ? layout.olderWords : layout.recentWords
+  const sourceMaterial = source
+    ? `SOURCE MATERIAL FOR THIS ROLE:
+${formatRoleContext(source)}${formatAchievementBank(source.achievements)}`
+    : 'SOURCE MATERIAL FOR THIS ROLE: none stored - keep the wording generic and metric-free'
+
+  let task: string
+  let answer: string
+  switch (target.section) {
+    case 'title':
+      task = 'Write a new professional title: concise, matching the job title and the seniority level of the job description.'
+      answer = '{ "professionalTitle": "New professional title" }'
+      break
+    case 'summary':
+      task = `Write a new professional summary of ${SUMMARY_LENGTHS[controls.summaryLength].description} that integrates keywords from the job description naturally and reflects the experience shown in the resume, without over-inflating or under-selling.`
+      answer = '{ "professionalSummary": "New professional summary" }'
+      break
+    case 'work':
+      task = `Rewrite the achievements of entry ${target.workIndex! + 1} in workExperiences, ${work.position} at ${work.company}. Write ${bulletsForRole(controls, target.workIndex!)} achievements of ${words} words each (fewer if the source material does not support that many), using different keywords and technologies from the job description across them. An achievement may be a string or an object with a "description" and "details", like the role's current achievements.
+
+${sourceMaterial}`
+      answer = '{ "achievements": ["First achievement", "Second achievement"] }'
+      break
+    case 'bullet': {
+      const current = work.achievements[target.achievementIndex!]
+      task = `Rewrite achievement ${target.achievementIndex! + 1} of ${work.position} at ${work.company}, covering different ground from the role's other achievements. Keep its shape: ${typeof current === 'string' ? `one sentence of ${words} words` : `a ${layout.headlineWords} word "description" with ${layout.detailWords} word "details"`}.
+
+CURRENT ACHIEVEMENT:
+${JSON.stringify(current)}
+
+${sourceMaterial}`
+      answer = typeof current === 'string'
+        ? '{ "achievement": "New achievement" }'
+        : '{ "achievement": { "description": "New achievement", "details": ["First detail", "Second detail"] } }'
+      break
+    }
+    case 'skills':
+      task = skills.length > 0
+        ? `Rewrite the technical skills as "Category: skill, skill" lines, most relevant to the job description first. Use ONLY skills from the candidate's inventory:
+${formatSkillInventory(skills)}`
+        : `Rewrite the technical skills as at least ${MIN_TECHNICAL_SKILLS} "Category: skill, skill" lines covering the technologies in the job description and closely related ones.`
+      answer = '{ "technicalSkills": ["Category: skill, skill"] }'
+      break
+  }
+
+  return `Expert ATS resume writer: Rewrite ONE part of an existing tailored resume. The rest of the resume stays as it is, so keep the new text consistent with it and with the seniority level the job description requires.
+
+⚠️ CRITICAL RULES:
+- Write something new - do NOT return the current text unchanged
+- Achievements may only use facts, technologies and metrics from the role's source material - NEVER invent projects, outcomes or numbers
+- NEVER copy company names, team names or product names from the job description
+
+${describeGenerationControls(controls)}
+
+JOB DESCRIPTION:
+${jobDescription}
+
+CURRENT RESUME:
+${formatResumeForSection(resume)}
+
+TASK:
+${task}
+
+Return ONLY this JSON with no additional text or formatting:
+${answer}`
+}
+
+// Escapes a profile value for use inside a JSON string in the prompt's answer
+// template, so quotes or backslashes in a company name cannot break it
+function jsonText(value: string): string {
+  return JSON.stringify(value).slice(1, -1)
+}
+
+const LANGUAGE_PROFICIENCY_LABELS: Record<string, string> = {
+  elementary: 'Elementary proficiency',
+  limited_working: 'Limited working proficiency',
+  professional_working: 'Professional working proficiency',
+  full_professional: 'Full professional proficiency',
+  native: 'Native or bilingual proficiency'
+}
+
+function formatAdditionalBackground(sections: ResumeSections): string {
+  const lines = [
+    ...sections.projects.map(project =>
+      `- Project: ${project.name}${project.role ? ` (${project.role})` : ''} - ${project.description}${project.tech_stack?.length ? ` [${project.tech_stack.join(', ')}]` : ''}`),
+    ...sections.certifications.map(cert => `- Certification: ${cert.name} - ${cert.issuer}`),
+    ...sections.publications.map(publication => `- Publication: ${publication.title}${publication.publisher ? ` - ${publication.publisher}` : ''}`),
+    ...sections.volunteering.map(volunteer => `- Volunteer: ${volunteer.role} at ${volunteer.organization}`),
+    ...sections.languages.map(language => `- Language: ${language.name} (${LANGUAGE_PROFICIENCY_LABELS[language.proficiency] || language.proficiency})`)
+  ]
+
+  return lines.length > 0 ? lines.join('\n') : 'None provided'
+}
+
+const PROFICIENCY_RANK = { beginner: 1, intermediate: 2, advanced: 3, expert: 4 }
+
+function formatSkillInventory(skills: Skill[]): string {
+  return skills.map(skill =>
+    `- ${skill.name} (${skill.category}; ${skill.proficiency}; ${skill.years_of_use} yrs; ${skill.last_used ? `last used ${skill.last_used}` : 'in current use'})`
+  ).join('\n')
+}
+
+function mentionsSkill(jobDescription: string, skillName: string): boolean {
+  const escaped = skillName.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|[^a-z0-9+#])${escaped}($|[^a-z0-9+#])`).test(jobDescription.toLowerCase())
+}
+
+// Intersects the job description with the candidate's skills inventory and
+// returns "Category: skill, skill" lines. Falls back to the whole inventory
+// when the posting names none of the candidate's skills.
+function buildTechnicalSkills(jobDescription: string, skills: Skill[]): string[] {
+  const matched = skills.filter(skill => mentionsSkill(jobDescription, skill.name))
+  const selected = matched.length > 0 ? matched : skills
+
+  const byCategory = new Map<string, Skill[]>()
+  selected.forEach(skill => {
+    byCategory.set(skill.category, [...(byCategory.get(skill.category) || []), skill])
+  })
+
+  return Array.from(byCategory.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([category, categorySkills]) => {
+      const ordered = [...categorySkills].sort((a, b) =>
+        PROFICIENCY_RANK[b.proficiency] - PROFICIENCY_RANK[a.proficiency] || b.years_of_use - a.years_of_use
+      )
+      return `${category}: ${ordered.map(skill => skill.name).join(', ')}`
+    })
+}
+
+const EMPLOYMENT_TYPE_LABELS: Record<WorkExperience['employment_type'], string> = {
+  full_time: 'Full-time',
+  contract: 'Contract',
+  internship: 'Internship'
+}
+
+// Context the user gave about the role itself, so titles and bullets are
+// tailored from what the job actually was rather than guessed from the company name
+function formatRoleContext(work: WorkExperience): string {
+  const parts: string[] = []
+  if (work.employment_type && work.employment_type !== 'full_time') {
+    parts.push(`   Employment type: ${EMPLOYMENT_TYPE_LABELS[work.employment_type]}`)
+  }
+  if (work.industry) parts.push(`   Industry: ${work.industry}`)
+  if (work.team_size) parts.push(`   Team size: ${work.team_size}`)
+  if (work.tech_stack?.length) parts.push(`   Role tech stack: ${work.tech_stack.join(', ')}`)
+  if (work.description) parts.push(`   Role description: ${work.description}`)
+  return parts.length > 0 ? `${parts.join('\n')}\n` : ''
+}
+
+function formatAchievementBank(achievements: Achievement[]): string {
+  if (!achievements || achievements.length === 0) {
+    return '   VERIFIED ACHIEVEMENTS: none provided'
+  }
+
+  return `   VERIFIED ACHIEVEMENTS:
+${achievements.map(achievement => {
+    const parts = [`   - ${achievement.description}`]
+    if (achievement.metrics) parts.push(`     Metrics: ${achievement.metrics}`)
+    if (achievement.tech_stack?.length) parts.push(`     Tech stack: ${achievement.tech_stack.join(', ')}`)
+    if (achievement.team_context) parts.push(`     Team context: ${achievement.team_context}`)
+    return parts.join('\n')
+  }).join('\n')}`
+}
+
+const CLAIM_STOPWORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'of', 'on', 'or', 'our', 'the', 'to',
+  'with', 'was', 'were', 'is', 'are', 'be', 'been', 'that', 'this', 'which', 'while', 'across', 'over',
+  'using', 'used', 'through', 'their', 'its', 'it', 'my', 'i', 'we', 'team', 'teams'
+])
+
+function tokenizeClaim(text: string): Set<string> {
+  const tokens = text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) || []
+  return new Set(
+    tokens
+      .map(token => token.replace(/\.+$/, ''))
+      .filter(token => token.length > 2 && !CLAIM_STOPWORDS.has(token) && !/^\d/.test(token))
+  )
+}
+
+function extractMetrics(text: string): string[] {
+  return text.match(/\$?\d+(?:[.,]\d+)*\s*(?:%|x\b|k\b|m\b|b\b|\+)?/gi)?.map(metric => metric.trim()) || []
+}
+
+function normalizeMetric(metric: string): string {
+  return metric.replace(/[^\d.]/g, '').replace(/\.$/, '')
+}
+
+// Compares one generated bullet with the achievement bank of the same company.
+// A bullet is supported when it reuses most of a stored achievement and every
+// number it quotes appears somewhere in the stored data for that company.
+function verifyAchievement(achievement: GeneratedAchievement, source: WorkExperience | undefined): ClaimVerification {
+  const text = typeof achievement === 'string'
+    ? achievement
+    : [achievement.description, ...achievement.details].join(' ')
+  const metrics = extractMetrics(text)
+  const bank = source?.achievements || []
+
+  if (!source || bank.length === 0) {
+    return { support: 'unsupported', unmatchedMetrics: metrics }
+  }
+
+  const sourceText = [
+    source.start_date,
+    source.end_date || '',
+    source.team_size ? `${source.team_size}` : '',
+    source.description || '',
+    ...bank.map(item => [item.description, item.metrics || '', item.team_context || ''].join(' '))
+  ].join(' ')
+  const knownMetrics = new Set(extractMetrics(sourceText).map(normalizeMetric))
+  const unmatchedMetrics = metrics.filter(metric => !knownMetrics.has(normalizeMetric(metric)))
+
+  const claimTokens = tokenizeClaim(text)
+  const bestOverlap = Math.max(...bank.map(item => {
+    const itemTokens = tokenizeClaim([item.description, item.metrics || '', ...(item.tech_stack || [])].join(' '))
+    if (itemTokens.size === 0) return 0
+    let matched = 0
+    itemTokens.forEach(token => {
+      if (claimTokens.has(token)) matched++
+    })
+    return matched / itemTokens.size
+  }))
+
+  let support: ClaimSupport
+  if (unmatchedMetrics.length > 0) {
+    support = bestOverlap >= 0.25 ? 'partial' : 'unsupported'
+  } else if (bestOverlap >= 0.5) {
+    support = 'supported'
+  } else if (bestOverlap >= 0.25) {
+    support = 'partial'
+  } else {
+    support = 'unsupported'
+  }
+
+  return { support, unmatchedMetrics }
+}
+
+const MAX_RESUME_TEXT_LENGTH = 20000
+
+function createResumeParsePrompt(resumeText: string): string {
+  return `Extract the candidate's details from the resume text below into JSON.
+
+RULES:
+- Copy facts exactly as written; never invent companies, dates, degrees or skills
+- Use "" for anything the resume does not state
+- Dates must be YYYY-MM-DD, using the first day of the month (or January when only a year is given)
+- For a current role set "is_current": true and "end_date": ""
+- "achievements" are the bullet points or sentences listed under each role, verbatim
+- List skills individually; "category" is the heading they were grouped under, or ""
+
+RESUME TEXT:
+${resumeText.slice(0, MAX_RESUME_TEXT_LENGTH)}
+
+Return ONLY valid JSON in this exact shape:
+{
+  "name": "",
+  "email": "",
+  "phone": "",
+  "location": "",
+  "workExperiences": [
+    { "company": "", "position": "", "start_date": "", "end_date": "", "is_current": false, "achievements": [""] }
+  ],
+  "educations": [
+    { "university": "", "degree": "", "start_date": "", "end_date": "" }
+  ],
+  "skills": [
+    { "name": "", "category": "" }
   ]
 }`
 }
 
+// Uses the preferred provider to structure resume text; the client normalizes
+// the result before review
+async function parseResumeWithAI(resumeText: string, provider: AIProvider, settings: UserSettings) {
+  const { text: content } = await provider.complete({
+    system: 'You extract structured data from resumes. You never add information that is not in the source text.',
+    prompt: createResumeParsePrompt(resumeText),
+    temperature: 0,
+    maxTokens: 4000
+  }, settings)
+
+  try {
+    return JSON.parse(extractJsonFromContent(content))
+  } catch {
+    console.error(`Failed to parse ${provider.name} resume extraction:`, content)
+    throw new Error('Invalid response from AI service - unable to parse JSON')
+  }
+}
+
 function extractJsonFromContent(content: string): string {
   // Remove any markdown code blocks
   content = content.replace(/```(?:json)?\s*/g, '').replace(/```\s*/g, '')
@@ -433,112 +1648,55 @@ function extractJsonFromContent(content: string): string {
   return content.trim()
 }
 
-async function generateWithOpenAI(prompt: string, apiKey: string) {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert ATS resume writer specializing in creating strong achievements for ALL companies and matching exact seniority levels. CRITICAL: 1) Analyze job description to determine exact seniority level (Junior/Mid/Senior) and match language accordingly - NEVER use senior language for mid-level roles. 2) Create strong, detailed achievements for ALL companies, not just the first one. 3) NEVER use company names from job description - only use candidate\'s actual company names. 4) Focus on appropriate responsibilities and impact for the seniority level required.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 8000
-    })
-  })
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(`OpenAI API error: ${response.status} ${response.statusText} - ${errorData.error?.message || 'Unknown error'}`)
-  }
-
-  const data = await response.json()
-  const content = data.choices[0].message.content
-  
-  try {
-    const jsonContent = extractJsonFromContent(content)
-    return JSON.parse(jsonContent)
-  } catch (error) {
-    console.error('Failed to parse OpenAI response:', content)
-    throw new Error('Invalid response from AI service - unable to parse JSON')
-  }
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
 }
 
-async function generateWithAnthropic(prompt: string, apiKey: string) {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 8000,
-      messages: [
-        {
-          role: 'user',
-          content: `${prompt}
-
-CRITICAL FOCUS FOR ALL ACHIEVEMENTS:
-
-1. SENIORITY LEVEL MATCHING:
-- First, analyze the job description to determine the EXACT seniority level required
-- Match ALL language, responsibilities, and impact statements to that level
-- Junior: Focus on contributing, implementing, learning, supporting
-- Mid-level: Focus on developing, building, improving, solving, collaborating
-- Senior: Focus on leading, architecting, mentoring, driving, strategizing
-- NEVER mix seniority levels - be consistent throughout
-
-2. STRONG ACHIEVEMENTS FOR ALL COMPANIES:
-- Company 1: 5 strong achievements (first one structured, others 60-80 words each)
-- Company 2: 5 strong achievements (ALL should be 60-80 words, detailed and impactful)
-- Company 3+: 5 strong achievements each (50-70 words, substantial and relevant)
-- NO weak or generic achievements for any company
-- Each achievement should include specific technologies, measurable impact, and clear value
-
-3. ANTI-AI-DETECTION:
-- Use only candidate's actual company names for project names
-- Make achievements sound authentic and realistic for their work history
-- Include believable metrics appropriate to the seniority level
-- Ensure natural language flow without keyword stuffing
-
-4. TECHNICAL ALIGNMENT:
-- Include TOP 5-7 keywords from job description in each company's achievements
-- Use different technologies and skills across achievements to show breadth
-- Maintain consistency with the required seniority level throughout
-
-The goal is to create a resume where EVERY achievement is strong, relevant, and perfectly matched to the job's seniority requirements.
-
-Return ONLY valid JSON with no additional text or formatting.`
-        }
-      ]
-    })
-  })
+// Best-effort parse of a JSON document that is still being streamed. Open
+// strings, arrays and objects are closed; if that does not parse, everything
+// after the last top-level-safe comma is dropped instead.
+function parsePartialJson(content: string): unknown {
+  const start = content.indexOf('{')
+  if (start === -1) return null
+
+  const text = content.slice(start)
+  const closers: string[] = []
+  let closersAtComma: string[] = []
+  let lastComma = -1
+  let inString = false
+  let escaped = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+    if (char === '"') inString = true
+    else if (char === '{') closers.push('}')
+    else if (char === '[') closers.push(']')
+    else if (char === '}' || char === ']') closers.pop()
+    else if (char === ',') {
+      lastComma = i
+      closersAtComma = [...closers]
+    }
+  }
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(`Anthropic API error: ${response.status} ${response.statusText} - ${errorData.error?.message || 'Unknown error'}`)
+  const close = (stack: string[]) => [...stack].reverse().join('')
+  const openString = inString ? `${escaped ? text.slice(0, -1) : text}"` : text
+  const candidates = [openString + close(closers)]
+  if (lastComma !== -1) {
+    candidates.push(text.slice(0, lastComma) + close(closersAtComma))
   }
 
-  const data = await response.json()
-  const content = data.content[0].text
-  
-  try {
-    const jsonContent = extractJsonFromContent(content)
-    return JSON.parse(jsonContent)
-  } catch (error) {
-    console.error('Failed to parse Anthropic response:', content)
-    throw new Error('Invalid response from AI service - unable to parse JSON')
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate)
+    } catch {
+      // Try the next, shorter candidate
+    }
   }
-}
\ No newline at end of file
+  return null
+}
@@ -0,0 +1,79 @@
+/*
+  # Model pricing
+
+  List prices in USD per million tokens, keyed by model id prefix so dated
+  releases (gpt-4o-2024-08-06, claude-3-5-sonnet-20241022...) share one entry.
+  The longest matching prefix wins, so gpt-4o-mini is not priced as gpt-4o.
+  Update this table when providers change their prices; models missing from it
+  are recorded with their token counts but no cost.
+*/
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+interface ModelPrice {
+  input: number
+  output: number
+}
+
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  // OpenAI, also used for Azure OpenAI deployments of the same models
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-35-turbo': { input: 0.5, output: 1.5 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o1': { input: 15, output: 60 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+
+  // Anthropic
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+
+  // Google Gemini
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+
+  // Mistral
+  'mistral-large': { input: 2, output: 6 },
+  'mistral-medium': { input: 0.4, output: 2 },
+  'mistral-small': { input: 0.2, output: 0.6 },
+  'codestral': { input: 0.3, output: 0.9 },
+  'open-mistral-nemo': { input: 0.15, output: 0.15 }
+}
+
+function findModelPrice(model: string): ModelPrice | null {
+  const id = model.toLowerCase()
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter(key => id.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? MODEL_PRICING[prefix] : null
+}
+
+// Cost of one request in USD, or null when the model's price is unknown.
+// Self-hosted models have no per-token price.
+export function calculateCost(providerId: string, model: string, usage: TokenUsage): number | null {
+  if (providerId === 'openai_compatible') return 0
+
+  const price = findModelPrice(model)
+  if (!price) return null
+
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000000
+}
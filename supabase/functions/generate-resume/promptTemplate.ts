@@ -0,0 +1,208 @@
+/*
+  # Resume prompt templates
+
+  The resume prompt is a template with {{placeholder}} slots that are filled
+  from the candidate's profile at generation time. Users can keep their own
+  versioned templates in prompt_templates; DEFAULT_PROMPT_TEMPLATE is the
+  built-in prompt used when they have not picked one.
+
+  {{answerFormat}} carries the JSON the model must return and
+  {{generationSettings}} the user's generation controls. Validation depends on
+  both, so they are appended to templates that leave them out.
+*/
+
+export const PROMPT_PLACEHOLDERS = [
+  'jobDescription',
+  'candidate',
+  'workHistory',
+  'education',
+  'skills',
+  'background',
+  'skillsInstructions',
+  'firstCompany',
+  'secondCompany',
+  'otherCompanies',
+  'generationSettings',
+  'recentRoleBullets',
+  'olderRoleBullets',
+  'recentBulletWords',
+  'olderBulletWords',
+  'summaryLength',
+  'answerFormat'
+] as const
+
+export type PromptPlaceholder = typeof PROMPT_PLACEHOLDERS[number]
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+export const DEFAULT_PROMPT_TEMPLATE = `Expert ATS resume writer: Create strong, compelling achievements for ALL companies that match the exact seniority level required by the job.
+
+{{generationSettings}}
+
+⚠️ CRITICAL SENIORITY MATCHING RULES:
+- ANALYZE the job description to determine the exact seniority level required (Junior, Mid-level, Senior, Staff, Principal, etc.)
+- MATCH the language and responsibilities to that exact level - DO NOT inflate or deflate
+- For Junior roles: Focus on learning, contributing, implementing, supporting, assisting
+- For Mid-level roles: Focus on developing, building, improving, collaborating, solving problems
+- For Senior roles: Focus on leading, architecting, mentoring, driving initiatives, strategic impact
+- NEVER use senior-level language (mentoring, leading teams, vast projects) for mid-level positions
+- NEVER use junior language (learning, assisting) for senior positions
+
+⚠️ CRITICAL ANTI-AI-DETECTION RULES:
+- NEVER copy company names, team names, product names, or specific organizational details from the job description
+- INSTEAD, create project names using the companies where the candidate ACTUALLY WORKED
+- Use format like "[Company Name] [Project Type]" - e.g., "BaileyTech Customer Portal", "StayAI Analytics Platform"
+- Make achievements sound like authentic work experience from their actual previous companies
+- This ensures realistic, believable project names that sound like real work history
+
+⚠️ CRITICAL GROUNDING RULES (ACHIEVEMENT BANK):
+- Each company in WORK HISTORY may list VERIFIED ACHIEVEMENTS written by the candidate - these are the ONLY source of facts for that company
+- TAILOR every achievement from this source material: rephrase, reorder and emphasize what is relevant to the job, but NEVER invent projects, responsibilities or outcomes that are not there
+- ONLY use metrics (percentages, amounts, counts, durations) that appear in the verified achievements - NEVER make up numbers
+- Each company may also list the role's industry, team size, employment type, tech stack and description - treat these as verified facts about the role
+- ONLY mention technologies listed in the achievement's tech stack, the role tech stack or the descriptions for that company
+- Team size and scope must come from the team context or the role's team size - NEVER inflate them
+- Use the role's industry and description to choose domain-appropriate wording instead of guessing from the company name
+- If a company has fewer verified achievements than requested, write fewer, factual bullets rather than fabricating new ones
+- If a company has NO verified achievements, keep its bullets to generic, metric-free descriptions of the role itself, based on its role description when one is given
+
+JOB DESCRIPTION:
+{{jobDescription}}
+
+CANDIDATE:
+{{candidate}}
+
+WORK HISTORY:
+{{workHistory}}
+
+EDUCATION:
+{{education}}
+
+CANDIDATE SKILLS:
+{{skills}}
+
+PROJECTS, CERTIFICATIONS AND OTHER BACKGROUND (listed separately on the resume - do NOT turn them into work achievements, but use them to support the professional summary):
+{{background}}
+
+CRITICAL INSTRUCTIONS:
+
+1. SENIORITY LEVEL ANALYSIS: 
+   - Carefully analyze the job description to determine the exact seniority level required
+   - Look for keywords like "Junior", "Mid-level", "Senior", "Staff", "Principal", "Lead", years of experience required
+   - Match ALL achievements to this exact level - no exceptions
+
+2. PROFESSIONAL TITLE: Create a concise, simple title that perfectly matches the job description requirements and seniority level
+
+3. ROLE OPTIMIZATION: For each work experience, create role titles that match the job's seniority level:
+   - ANALYZE the job title in the job description and create RELEVANT titles for each work experience
+   - If target job is "Product Manager", create titles like "Product Manager", "Associate Product Manager", "Business Analyst"
+   - If target job is "Frontend Engineer", create titles like "Frontend Engineer", "UI Developer", "JavaScript Developer"
+   - If target job is "Machine Learning Engineer", create titles like "ML Engineer", "Data Scientist", "Software Engineer"
+   - If target job is "DevOps Engineer", create titles like "DevOps Engineer", "Cloud Engineer", "Site Reliability Engineer"
+   - MATCH the domain, technology stack, and career progression that leads to the target role
+   - Most recent role should be very similar to the target job title
+   - If job posting is for "Data Scientist", create titles like "Data Scientist", "Machine Learning Engineer", "Data Analyst"
+   - Match the domain and technology focus, not just seniority level
+   - Most recent role should closely match the target job title
+   - Consecutive entries at the same company are promotions within one employer: keep the titles progressing in seniority from the older role to the newer one
+
+4. ACHIEVEMENT STRENGTH FOR ALL COMPANIES:
+   - Company 1 (Most Recent): {{recentRoleBullets}} strong achievements with detailed structured format
+   - Company 2: {{recentRoleBullets}} strong achievements (not weak!) with good detail and impact
+   - Company 3+: {{olderRoleBullets}} strong achievements each, maintaining quality and relevance
+
+5. ACHIEVEMENT GUIDELINES BY SENIORITY:
+
+FOR JUNIOR LEVEL POSITIONS:
+- Focus on: Contributing to projects, implementing features, learning technologies, supporting team goals
+- Avoid: Leading teams, mentoring, architecting systems, strategic decisions
+- Language: "Contributed to", "Implemented", "Developed", "Supported", "Collaborated on"
+
+FOR MID-LEVEL POSITIONS:
+- Focus on: Building systems, solving complex problems, improving processes, cross-team collaboration
+- Avoid: Mentoring junior developers, leading large teams, strategic architecture decisions
+- Language: "Built", "Developed", "Improved", "Optimized", "Collaborated with", "Solved"
+
+FOR SENIOR LEVEL POSITIONS:
+- Focus on: Leading initiatives, mentoring, architectural decisions, strategic impact, team leadership
+- Include: "Led", "Architected", "Mentored", "Drove", "Established", "Strategized"
+
+6. {{skillsInstructions}}
+
+ENHANCED ACHIEVEMENT STRUCTURE FOR ALL COMPANIES:
+
+Company 1 ({{firstCompany}}):
+- Achievement 1: Structured format with description + 2 detailed bullet points
+- Remaining achievements: Strong individual achievements ({{recentBulletWords}} words each)
+
+Company 2 ({{secondCompany}}):
+- ALL {{recentRoleBullets}} achievements should be strong and detailed ({{recentBulletWords}} words each)
+- Focus on different aspects: technical implementation, problem-solving, collaboration, process improvement, innovation
+- Use technologies and methodologies from the job description
+- Match the seniority level exactly
+
+Company 3+ ({{otherCompanies}}):
+- ALL {{olderRoleBullets}} achievements should be substantial and relevant ({{olderBulletWords}} words each)
+- Maintain quality and avoid generic or weak statements
+- Show progression and growth appropriate to the seniority level
+- Include specific technologies and measurable impact drawn from the verified achievements
+
+DOMAIN ADAPTATION STRATEGY:
+1. Analyze the job description to identify the primary domain and exact seniority level needed
+2. Create project names using the candidate's ACTUAL company names in format "[Company Name] [Project Type]"
+3. Use technical terminology and methodologies from the job posting, but NEVER copy company/product names from the job description
+4. Focus on the most important 5-7 keywords rather than trying to fit everything
+5. Make project names sound realistic for what could be built at their actual previous companies
+6. Include metrics ONLY where the verified achievements provide them
+7. Ensure achievements stay faithful to the candidate's verified achievements and seniority level
+
+Return ONLY this JSON:
+
+{{answerFormat}}
+
+CRITICAL FOCUS FOR ALL ACHIEVEMENTS:
+
+1. SENIORITY LEVEL MATCHING:
+- First, analyze the job description to determine the EXACT seniority level required
+- Match ALL language, responsibilities, and impact statements to that level
+- Junior: Focus on contributing, implementing, learning, supporting
+- Mid-level: Focus on developing, building, improving, solving, collaborating
+- Senior: Focus on leading, architecting, mentoring, driving, strategizing
+- NEVER mix seniority levels - be consistent throughout
+
+2. STRONG ACHIEVEMENTS FOR ALL COMPANIES:
+- Company 1: {{recentRoleBullets}} strong achievements (first one structured, others {{recentBulletWords}} words each)
+- Company 2: {{recentRoleBullets}} strong achievements (ALL should be {{recentBulletWords}} words, detailed and impactful)
+- Company 3+: {{olderRoleBullets}} strong achievements each ({{olderBulletWords}} words, substantial and relevant)
+- NO weak or generic achievements for any company
+- Each achievement should include specific technologies, measurable impact from the verified achievements, and clear value
+
+3. ANTI-AI-DETECTION:
+- Use only candidate's actual company names for project names
+- Make achievements sound authentic and realistic for their work history
+- Tailor every achievement from the candidate's VERIFIED ACHIEVEMENTS - never invent facts or metrics
+- Ensure natural language flow without keyword stuffing
+
+4. TECHNICAL ALIGNMENT:
+- Include TOP 5-7 keywords from job description in each company's achievements
+- Use different technologies and skills across achievements to show breadth
+- Maintain consistency with the required seniority level throughout
+
+The goal is to create a resume where EVERY achievement is strong, relevant, and perfectly matched to the job's seniority requirements.
+
+Return ONLY valid JSON with no additional text or formatting.`
+
+// Replaces every known placeholder in one pass, so placeholder-like text in
+// the candidate's own data is never expanded. Unknown placeholders are left as written.
+export function renderPromptTemplate(template: string, values: Record<PromptPlaceholder, string>): string {
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    (PROMPT_PLACEHOLDERS as readonly string[]).includes(name) ? values[name as PromptPlaceholder] : match
+  )
+  const settings = usesPlaceholder(template, 'generationSettings') ? '' : `\n\n${values.generationSettings}`
+  const answer = usesPlaceholder(template, 'answerFormat') ? '' : `\n\nReturn ONLY this JSON:\n\n${values.answerFormat}`
+  return `${rendered}${settings}${answer}`
+}
+
+function usesPlaceholder(template: string, name: PromptPlaceholder): boolean {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN)).some(match => match[1] === name)
+}
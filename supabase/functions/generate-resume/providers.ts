@@ -0,0 +1,535 @@
+/*
+  # AI provider registry
+
+  Every provider turns a CompletionRequest into the raw text of the model's
+  reply plus the token usage it reported; prompts and JSON handling stay in
+  index.ts. When a request carries an output schema, OpenAI (and Azure OpenAI)
+  use their JSON-schema response format and Anthropic a forced tool call, so
+  the reply is the JSON document itself. Other providers, and models that turn
+  the schema down, fall back to plain text guided by the prompt. Add a provider by
+  implementing AIProvider and listing it in AI_PROVIDERS, whose order is also
+  the order failover picks a second provider in.
+*/
+
+import { TokenUsage } from './pricing.ts'
+
+export interface UserSettings {
+  openai_key?: string | null
+  openai_model?: string | null
+  anthropic_key?: string | null
+  anthropic_model?: string | null
+  gemini_key?: string | null
+  gemini_model?: string | null
+  mistral_key?: string | null
+  mistral_model?: string | null
+  azure_openai_endpoint?: string | null
+  azure_openai_deployment?: string | null
+  azure_openai_api_version?: string | null
+  azure_openai_key?: string | null
+  openai_compatible_base_url?: string | null
+  openai_compatible_model?: string | null
+  openai_compatible_key?: string | null
+  preferred_ai: string
+  failover_enabled?: boolean | null
+  failover_provider?: string | null
+  temperature?: number | null
+  max_output_tokens?: number | null
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal
+  // Called with the full response text received so far
+  onText?: (text: string) => void
+}
+
+// JSON Schema for a structured answer
+export interface OutputSchema {
+  name: string
+  description: string
+  schema: Record<string, unknown>
+}
+
+export interface CompletionRequest {
+  system: string
+  prompt: string
+  temperature: number
+  maxTokens: number
+  stream?: StreamOptions
+  outputSchema?: OutputSchema
+}
+
+export interface Completion {
+  text: string
+  // Token counts as reported by the provider, null when it reported none
+  usage: TokenUsage | null
+  // Model id from the response, e.g. the dated release behind an alias or the
+  // model behind an Azure deployment
+  model: string | null
+}
+
+export interface AIProvider {
+  id: string
+  // Used in error messages, e.g. "OpenAI API error: 401 ..."
+  name: string
+  isConfigured: (settings: UserSettings) => boolean
+  // The model a request goes to, recorded in resume_history.ai_model
+  model: (settings: UserSettings) => string
+  complete: (request: CompletionRequest, settings: UserSettings) => Promise<Completion>
+}
+
+// The fields of an OpenAI-style streamed chat completion chunk read here
+interface ChatCompletionChunk {
+  model?: string
+  choices?: Array<{ delta?: { content?: string } }>
+  usage?: { prompt_tokens?: number; completion_tokens?: number }
+}
+
+// The fields of Anthropic's streamed message events read here
+interface AnthropicStreamEvent {
+  type: string
+  error?: { message?: string }
+  message?: { model?: string; usage?: { input_tokens?: number } }
+  usage?: { output_tokens?: number }
+  delta?: { text?: string; partial_json?: string }
+}
+
+// The fields of Anthropic's non-streamed message read here; a tool call's
+// input is the structured answer
+interface AnthropicMessage {
+  model?: string
+  content?: Array<{ type: string; text?: string; input?: unknown }>
+  usage?: { input_tokens?: number; output_tokens?: number }
+}
+
+// An OpenAI-style models list
+interface ChatModelList {
+  data?: Array<{ id: string }>
+}
+
+// The fields of a Gemini generateContent response, or of one streamed chunk, read here
+interface GeminiResponse {
+  modelVersion?: string
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number }
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+}
+
+// Reads a provider's Server-Sent Events response, passing the accumulated
+// text to onText after every chunk, and resolves with the complete text.
+// extractText sees every event, so it can also pick up usage and model fields.
+async function readStreamedText<Event>(
+  response: Response,
+  extractText: (event: Event) => string,
+  onText: (text: string) => void
+): Promise<string> {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let content = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue
+      const data = line.slice(5).trim()
+      if (!data || data === '[DONE]') continue
+      content += extractText(JSON.parse(data) as Event)
+    }
+    onText(content)
+  }
+
+  return content
+}
+
+// Builds a TokenUsage from a provider's usage fields, or null if either is missing
+function toUsage(inputTokens: unknown, outputTokens: unknown): TokenUsage | null {
+  return typeof inputTokens === 'number' && typeof outputTokens === 'number'
+    ? { inputTokens, outputTokens }
+    : null
+}
+
+// Strict JSON-schema mode rejects the length and count keywords, so they are
+// left to the validation in index.ts
+function toStrictSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toStrictSchema)
+  if (!schema || typeof schema !== 'object') return schema
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([keyword]) => !['minLength', 'minItems', 'maxItems'].includes(keyword))
+      .map(([keyword, value]) => [keyword, toStrictSchema(value)])
+  )
+}
+
+// Models without native structured output answer the schema parameters with a
+// 400 that names them
+function isUnsupportedSchemaError(error: unknown): boolean {
+  return error instanceof Error &&
+    error.message.includes('API error: 400') &&
+    /response_format|json_schema|tool/i.test(error.message)
+}
+
+// Sends the request with its output schema and, if the model does not support
+// structured output, again without it
+async function withSchemaFallback(
+  name: string,
+  request: CompletionRequest,
+  send: (request: CompletionRequest) => Promise<Completion>
+): Promise<Completion> {
+  if (!request.outputSchema) return send(request)
+  try {
+    return await send(request)
+  } catch (error) {
+    if (!isUnsupportedSchemaError(error)) throw error
+    console.warn(`${name} model does not support structured output, falling back to text:`, error.message)
+    return send({ ...request, outputSchema: undefined })
+  }
+}
+
+async function throwApiError(name: string, response: Response): Promise<never> {
+  const errorData = await response.json().catch(() => ({}))
+  throw new Error(`${name} API error: ${response.status} ${response.statusText} - ${errorData.error?.message || 'Unknown error'}`)
+}
+
+interface ChatOptions {
+  // Ask for usage in the last streamed chunk through stream_options
+  streamUsage?: boolean
+  // Send the output schema as a json_schema response format
+  jsonSchema?: boolean
+}
+
+// Chat Completions request shared by OpenAI, Mistral, Azure OpenAI and
+// OpenAI-compatible servers. Azure picks the model from the deployment in the
+// URL, so model is left out there. Streamed responses only carry usage when
+// asked for with stream_options, which not every server accepts; Mistral sends
+// it in the last chunk regardless. The same goes for json_schema response
+// formats, so both are opt-in per provider.
+function completeChat(
+  name: string,
+  url: string,
+  headers: Record<string, string>,
+  model: string | null,
+  request: CompletionRequest,
+  options: ChatOptions = {}
+): Promise<Completion> {
+  return withSchemaFallback(name, options.jsonSchema ? request : { ...request, outputSchema: undefined }, chatRequest =>
+    sendChat(name, url, headers, model, chatRequest, options)
+  )
+}
+
+async function sendChat(
+  name: string,
+  url: string,
+  headers: Record<string, string>,
+  model: string | null,
+  request: CompletionRequest,
+  options: ChatOptions
+): Promise<Completion> {
+  const streaming = !!request.stream?.onText
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({
+      ...(model ? { model } : {}),
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt }
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: streaming,
+      ...(streaming && options.streamUsage ? { stream_options: { include_usage: true } } : {}),
+      ...(request.outputSchema
+        ? {
+            response_format: {
+              type: 'json_schema',
+              json_schema: {
+                name: request.outputSchema.name,
+                description: request.outputSchema.description,
+                schema: toStrictSchema(request.outputSchema.schema),
+                strict: true
+              }
+            }
+          }
+        : {})
+    }),
+    signal: request.stream?.signal
+  })
+
+  if (!response.ok) {
+    await throwApiError(name, response)
+  }
+
+  if (streaming) {
+    let usage: TokenUsage | null = null
+    let responseModel: string | null = null
+    const text = await readStreamedText<ChatCompletionChunk>(response, event => {
+      usage = toUsage(event.usage?.prompt_tokens, event.usage?.completion_tokens) || usage
+      responseModel = event.model || responseModel
+      return event.choices?.[0]?.delta?.content || ''
+    }, request.stream!.onText!)
+    return { text, usage, model: responseModel }
+  }
+
+  const data = await response.json()
+  return {
+    text: data.choices[0].message.content,
+    usage: toUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens),
+    model: data.model || null
+  }
+}
+
+const openAIProvider: AIProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  isConfigured: settings => !!settings.openai_key,
+  model: settings => settings.openai_model || 'gpt-4o',
+  complete: (request, settings) => completeChat(
+    'OpenAI',
+    'https://api.openai.com/v1/chat/completions',
+    { 'Authorization': `Bearer ${settings.openai_key}` },
+    openAIProvider.model(settings),
+    request,
+    { streamUsage: true, jsonSchema: true }
+  )
+}
+
+const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  isConfigured: settings => !!settings.anthropic_key,
+  model: settings => settings.anthropic_model || 'claude-3-5-sonnet-20241022',
+  complete: (request, settings) => withSchemaFallback('Anthropic', request, anthropicRequest =>
+    sendAnthropicMessage(anthropicRequest, settings)
+  )
+}
+
+// With an output schema the model is made to call a tool whose input is the
+// schema, and the tool input is the answer
+async function sendAnthropicMessage(request: CompletionRequest, settings: UserSettings): Promise<Completion> {
+  const tool = request.outputSchema
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': settings.anthropic_key!,
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify({
+      model: anthropicProvider.model(settings),
+      system: request.system,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: [{ role: 'user', content: request.prompt }],
+      stream: !!request.stream?.onText,
+      ...(tool
+        ? {
+            tools: [{ name: tool.name, description: tool.description, input_schema: tool.schema }],
+            tool_choice: { type: 'tool', name: tool.name }
+          }
+        : {})
+    }),
+    signal: request.stream?.signal
+  })
+
+  if (!response.ok) {
+    await throwApiError('Anthropic', response)
+  }
+
+  if (request.stream?.onText) {
+    // message_start carries the input tokens, message_delta the running output
+    // count; a tool call streams its input as partial JSON
+    let inputTokens: number | undefined
+    let outputTokens: number | undefined
+    let responseModel: string | null = null
+    const text = await readStreamedText<AnthropicStreamEvent>(response, event => {
+      if (event.type === 'error') {
+        throw new Error(`Anthropic API error: ${event.error?.message || 'Unknown error'}`)
+      }
+      if (event.type === 'message_start') {
+        inputTokens = event.message?.usage?.input_tokens
+        responseModel = event.message?.model || null
+      }
+      if (event.type === 'message_delta') {
+        outputTokens = event.usage?.output_tokens
+      }
+      if (event.type !== 'content_block_delta') return ''
+      return (tool ? event.delta?.partial_json : event.delta?.text) || ''
+    }, request.stream.onText)
+    return { text, usage: toUsage(inputTokens, outputTokens), model: responseModel }
+  }
+
+  const data: AnthropicMessage = await response.json()
+  const content = data.content || []
+  const toolUse = content.find(block => block.type === 'tool_use')
+  return {
+    text: tool && toolUse ? JSON.stringify(toolUse.input) : content.find(block => block.type === 'text')?.text || '',
+    usage: toUsage(data.usage?.input_tokens, data.usage?.output_tokens),
+    model: data.model || null
+  }
+}
+
+const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  isConfigured: settings => !!settings.gemini_key,
+  model: settings => settings.gemini_model || 'gemini-1.5-pro',
+  complete: async (request, settings) => {
+    const streaming = !!request.stream?.onText
+    const method = streaming ? 'streamGenerateContent?alt=sse' : 'generateContent'
+    const model = encodeURIComponent(geminiProvider.model(settings))
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': settings.gemini_key!
+      },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: request.system }] },
+        contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens
+        }
+      }),
+      signal: request.stream?.signal
+    })
+
+    if (!response.ok) {
+      await throwApiError('Gemini', response)
+    }
+
+    // Both the single response and every streamed chunk carry candidates, and
+    // usageMetadata with the totals so far
+    let usage: TokenUsage | null = null
+    let responseModel: string | null = null
+    const extractText = (event: GeminiResponse): string => {
+      usage = toUsage(event.usageMetadata?.promptTokenCount, event.usageMetadata?.candidatesTokenCount) || usage
+      responseModel = event.modelVersion || responseModel
+      return (event.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('')
+    }
+
+    const text = streaming
+      ? await readStreamedText(response, extractText, request.stream!.onText!)
+      : extractText(await response.json())
+    return { text, usage, model: responseModel }
+  }
+}
+
+const mistralProvider: AIProvider = {
+  id: 'mistral',
+  name: 'Mistral',
+  isConfigured: settings => !!settings.mistral_key,
+  model: settings => settings.mistral_model || 'mistral-large-latest',
+  complete: (request, settings) => completeChat(
+    'Mistral',
+    'https://api.mistral.ai/v1/chat/completions',
+    { 'Authorization': `Bearer ${settings.mistral_key}` },
+    mistralProvider.model(settings),
+    request
+  )
+}
+
+// A model the user has deployed in their own Azure OpenAI resource
+const azureOpenAIProvider: AIProvider = {
+  id: 'azure_openai',
+  name: 'Azure OpenAI',
+  isConfigured: settings => !!settings.azure_openai_key && !!settings.azure_openai_endpoint && !!settings.azure_openai_deployment,
+  // The deployment decides the model, so its name is the closest record of it
+  model: settings => settings.azure_openai_deployment!,
+  complete: (request, settings) => {
+    const endpoint = settings.azure_openai_endpoint!.replace(/\/+$/, '')
+    const deployment = encodeURIComponent(settings.azure_openai_deployment!)
+    const apiVersion = settings.azure_openai_api_version || '2024-06-01'
+    return completeChat(
+      'Azure OpenAI',
+      `${endpoint}/openai/deployments/${deployment}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+      { 'api-key': settings.azure_openai_key! },
+      null,
+      request,
+      // json_schema arrived with the 2024-08-01 API versions, stream_options with 2024-09-01
+      { streamUsage: apiVersion >= '2024-09-01', jsonSchema: apiVersion >= '2024-08-01' }
+    )
+  }
+}
+
+// Any server speaking the OpenAI Chat Completions API: llama.cpp, vLLM,
+// Ollama, LM Studio... The key is optional because most self-hosted servers
+// do not check one. The base URL has to be reachable from where this
+// function runs, not just from the user's browser.
+const openAICompatibleProvider: AIProvider = {
+  id: 'openai_compatible',
+  name: 'OpenAI-compatible endpoint',
+  isConfigured: settings => !!settings.openai_compatible_base_url && !!settings.openai_compatible_model,
+  model: settings => settings.openai_compatible_model!,
+  complete: async (request, settings) => {
+    const baseUrl = settings.openai_compatible_base_url!.replace(/\/+$/, '')
+    try {
+      return await completeChat(
+        'OpenAI-compatible endpoint',
+        `${baseUrl}/chat/completions`,
+        settings.openai_compatible_key ? { 'Authorization': `Bearer ${settings.openai_compatible_key}` } : {},
+        openAICompatibleProvider.model(settings),
+        request
+      )
+    } catch (error) {
+      // fetch only throws TypeError when the server could not be reached at all
+      if (error instanceof TypeError && !request.stream?.signal?.aborted) {
+        throw new Error(`Could not reach ${baseUrl} (network error: ${error.message})`)
+      }
+      throw error
+    }
+  }
+}
+
+// The Settings check for a self-hosted endpoint. It runs here rather than in
+// the browser so that a URL only the user's machine can reach (localhost, a
+// private network) fails it. status is null when nothing answered at all.
+export async function listCompatibleModels(baseUrl: string, apiKey?: string): Promise<{ status: number | null; models: string[] }> {
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      signal: AbortSignal.timeout(10000)
+    })
+    if (!response.ok) {
+      return { status: response.status, models: [] }
+    }
+    const data: ChatModelList | null = await response.json().catch(() => null)
+    return { status: response.status, models: Array.isArray(data?.data) ? data.data.map(entry => entry.id) : [] }
+  } catch {
+    return { status: null, models: [] }
+  }
+}
+
+export const AI_PROVIDERS: AIProvider[] = [
+  openAIProvider,
+  anthropicProvider,
+  geminiProvider,
+  mistralProvider,
+  azureOpenAIProvider,
+  openAICompatibleProvider
+]
+
+export function findProvider(id: string): AIProvider | undefined {
+  return AI_PROVIDERS.find(provider => provider.id === id)
+}
+
+// The preferred provider, or null when it is not configured. There is no
+// silent fallback to another provider; resolveFailoverProvider is the opt-in.
+export function resolveProvider(settings: UserSettings): AIProvider | null {
+  const preferred = findProvider(settings.preferred_ai)
+  return preferred?.isConfigured(settings) ? preferred : null
+}
+
+// The provider to switch to when the preferred one keeps failing: the chosen
+// failover provider when it is configured, otherwise the next configured one.
+// Null when failover is off or nothing else is configured.
+export function resolveFailoverProvider(settings: UserSettings, primary: AIProvider): AIProvider | null {
+  if (!settings.failover_enabled) return null
+  const candidates = AI_PROVIDERS.filter(provider => provider.id !== primary.id && provider.isConfigured(settings))
+  return candidates.find(provider => provider.id === settings.failover_provider) || candidates[0] || null
+}
@@ -0,0 +1,256 @@
+/*
+  # Generated resume schema
+
+  The JSON the AI provider must return for a resume, as a JSON Schema, plus the
+  checks a schema cannot express: one entry per work experience in profile
+  order, an achievement count per role and a cap on the summary's words. validateResumeContent reports every
+  problem with the path of the field it concerns, so a repair request can point
+  the model at exactly what to fix and the client can show the same list.
+
+  buildSectionSchema covers the smaller answers of a section regeneration,
+  which rewrites one part of an existing resume.
+*/
+
+export interface FieldError {
+  // e.g. "workExperiences[1].achievements[0].description"; empty for the whole document
+  path: string
+  message: string
+}
+
+export interface ResumeSchemaOptions {
+  // Number of work experiences sent in the prompt
+  workCount: number
+  // Allowed achievements per role, by position in the work history
+  achievementLimits: Array<{ min: number; max: number }>
+  // Without a skills inventory the model writes the skills list itself
+  expectTechnicalSkills: boolean
+  // Longest professional summary accepted, in words
+  summaryMaxWords: number
+}
+
+// Parts of a resume that can be regenerated on their own
+export type ResumeSection = 'title' | 'summary' | 'work' | 'bullet' | 'skills'
+
+export interface SectionSchemaOptions {
+  // Allowed achievements when a role's whole list is rewritten
+  achievementLimit: { min: number; max: number }
+  // A small skills inventory may fill fewer lines than an AI-written list
+  minTechnicalSkills: number
+  // Longest professional summary accepted, in words
+  summaryMaxWords: number
+}
+
+// Fewer skill lines than this means the list was cut short or skipped
+export const MIN_TECHNICAL_SKILLS = 5
+
+export type JsonSchema = {
+  type?: 'object' | 'array' | 'string'
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  minLength?: number
+  anyOf?: JsonSchema[]
+}
+
+const NON_EMPTY_STRING: JsonSchema = { type: 'string', minLength: 1 }
+
+const ACHIEVEMENT_SCHEMA: JsonSchema = {
+  anyOf: [
+    { ...NON_EMPTY_STRING, description: 'A single achievement sentence' },
+    {
+      type: 'object',
+      description: 'A headline achievement with supporting detail bullets',
+      properties: {
+        description: NON_EMPTY_STRING,
+        details: { type: 'array', items: NON_EMPTY_STRING }
+      },
+      required: ['description', 'details'],
+      additionalProperties: false
+    }
+  ]
+}
+
+export function buildResumeSchema(options: ResumeSchemaOptions): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      professionalTitle: NON_EMPTY_STRING,
+      professionalSummary: NON_EMPTY_STRING,
+      workExperiences: {
+        type: 'array',
+        minItems: options.workCount,
+        maxItems: options.workCount,
+        items: {
+          type: 'object',
+          properties: {
+            company: { type: 'string' },
+            position: NON_EMPTY_STRING,
+            achievements: { type: 'array', minItems: 1, items: ACHIEVEMENT_SCHEMA }
+          },
+          required: ['company', 'position', 'achievements'],
+          additionalProperties: false
+        }
+      },
+      technicalSkills: options.expectTechnicalSkills
+        ? { type: 'array', minItems: MIN_TECHNICAL_SKILLS, items: NON_EMPTY_STRING }
+        : { type: 'array', items: { type: 'string' } }
+    },
+    required: ['professionalTitle', 'professionalSummary', 'workExperiences', 'technicalSkills'],
+    additionalProperties: false
+  }
+}
+
+// The answer to a section regeneration is an object holding just that section
+export function buildSectionSchema(section: ResumeSection, options: SectionSchemaOptions): JsonSchema {
+  const properties: Record<ResumeSection, Record<string, JsonSchema>> = {
+    title: { professionalTitle: NON_EMPTY_STRING },
+    summary: { professionalSummary: NON_EMPTY_STRING },
+    work: {
+      achievements: {
+        type: 'array',
+        minItems: options.achievementLimit.min,
+        maxItems: options.achievementLimit.max,
+        items: ACHIEVEMENT_SCHEMA
+      }
+    },
+    bullet: { achievement: ACHIEVEMENT_SCHEMA },
+    skills: { technicalSkills: { type: 'array', minItems: options.minTechnicalSkills, items: NON_EMPTY_STRING } }
+  }
+
+  return {
+    type: 'object',
+    properties: properties[section],
+    required: Object.keys(properties[section]),
+    additionalProperties: false
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+// Covers the keywords buildResumeSchema and buildSectionSchema use, nothing more
+function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string): FieldError[] {
+  if (schema.anyOf) {
+    const attempts = schema.anyOf.map(option => validateAgainstSchema(value, option, path))
+    if (attempts.some(errors => errors.length === 0)) return []
+    // Report against the option whose type matched, if any, since that is what the model was going for
+    const typed = schema.anyOf.findIndex(option => option.type === describeType(value))
+    return typed !== -1
+      ? attempts[typed]
+      : [{ path, message: `expected ${schema.anyOf.map(option => option.type).join(' or ')}, got ${describeType(value)}` }]
+  }
+
+  if (schema.type && describeType(value) !== schema.type) {
+    return [{ path, message: `expected ${schema.type}, got ${describeType(value)}` }]
+  }
+
+  if (typeof value === 'string') {
+    return schema.minLength && value.trim().length < schema.minLength ? [{ path, message: 'must not be empty' }] : []
+  }
+
+  if (Array.isArray(value)) {
+    const errors: FieldError[] = []
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `expected at least ${schema.minItems} items, got ${value.length}` })
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, message: `expected at most ${schema.maxItems} items, got ${value.length}` })
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items!, joinPath(path, index))))
+    }
+    return errors
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    const errors: FieldError[] = []
+    for (const field of schema.required || []) {
+      if (record[field] === undefined) {
+        errors.push({ path: joinPath(path, field), message: 'is required' })
+      }
+    }
+    for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+      if (record[field] !== undefined) {
+        errors.push(...validateAgainstSchema(record[field], fieldSchema, joinPath(path, field)))
+      }
+    }
+    return errors
+  }
+
+  return []
+}
+
+// One field of a value that may not be an object at all
+function readField(value: unknown, field: string): unknown {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>)[field] : undefined
+}
+
+// Word counts are not expressible in JSON Schema, so the summary length is checked here
+function checkSummaryLength(content: unknown, maxWords: number): FieldError[] {
+  const summary = readField(content, 'professionalSummary')
+  if (typeof summary !== 'string') return []
+  const words = summary.trim().split(/\s+/).filter(Boolean).length
+  return words > maxWords
+    ? [{ path: 'professionalSummary', message: `expected at most ${maxWords} words, got ${words}` }]
+    : []
+}
+
+export function validateResumeContent(content: unknown, options: ResumeSchemaOptions): FieldError[] {
+  const errors = [
+    ...validateAgainstSchema(content, buildResumeSchema(options), ''),
+    ...checkSummaryLength(content, options.summaryMaxWords)
+  ]
+  const workExperiences = readField(content, 'workExperiences')
+  if (!Array.isArray(workExperiences)) return errors
+
+  // Per-role limits, which one items schema shared by every role cannot express
+  workExperiences.forEach((work: unknown, index: number) => {
+    const limit = options.achievementLimits[index]
+    const achievements = readField(work, 'achievements')
+    const count = Array.isArray(achievements) ? achievements.length : 0
+    if (limit && count > 0 && (count < limit.min || count > limit.max)) {
+      errors.push({
+        path: `workExperiences[${index}].achievements`,
+        message: limit.min === limit.max
+          ? `expected ${limit.max} achievements, got ${count}`
+          : `expected ${limit.min}-${limit.max} achievements, got ${count}`
+      })
+    }
+  })
+
+  return errors
+}
+
+export function validateSectionContent(content: unknown, section: ResumeSection, options: SectionSchemaOptions): FieldError[] {
+  const errors = validateAgainstSchema(content, buildSectionSchema(section, options), '')
+  return section === 'summary' ? [...errors, ...checkSummaryLength(content, options.summaryMaxWords)] : errors
+}
+
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map(error => `- ${error.path || 'response'}: ${error.message}`).join('\n')
+}
+
+// Thrown when the provider's answer still fails validation after the repair
+// request and the retry
+export class ResumeValidationError extends Error {
+  fieldErrors: FieldError[]
+
+  constructor(fieldErrors: FieldError[]) {
+    super(`AI response failed resume validation:\n${formatFieldErrors(fieldErrors)}`)
+    this.name = 'ResumeValidationError'
+    this.fieldErrors = fieldErrors
+  }
+}
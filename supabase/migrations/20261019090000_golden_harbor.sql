@@ -0,0 +1,87 @@
+/*
+  # Create achievements table
+
+  1. New Tables
+    - `achievements`
+      - `id` (uuid, primary key)
+      - `work_experience_id` (uuid, references work_experiences)
+      - `description` (text) - what the candidate actually did
+      - `metrics` (text, nullable) - measurable outcome, e.g. "cut p95 latency by 40%"
+      - `tech_stack` (text[]) - technologies used for this accomplishment
+      - `team_context` (text, nullable) - team size, role within the team, stakeholders
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `achievements` table
+    - Add policies for users to manage achievements of their own work experiences
+*/
+
+CREATE TABLE IF NOT EXISTS achievements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_experience_id uuid REFERENCES work_experiences(id) ON DELETE CASCADE NOT NULL,
+  description text NOT NULL,
+  metrics text,
+  tech_stack text[] DEFAULT '{}' NOT NULL,
+  team_context text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own achievements"
+  ON achievements
+  FOR SELECT
+  TO authenticated
+  USING (
+    work_experience_id IN (
+      SELECT work_experiences.id FROM work_experiences
+      JOIN profiles ON profiles.id = work_experiences.profile_id
+      WHERE profiles.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own achievements"
+  ON achievements
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    work_experience_id IN (
+      SELECT work_experiences.id FROM work_experiences
+      JOIN profiles ON profiles.id = work_experiences.profile_id
+      WHERE profiles.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own achievements"
+  ON achievements
+  FOR UPDATE
+  TO authenticated
+  USING (
+    work_experience_id IN (
+      SELECT work_experiences.id FROM work_experiences
+      JOIN profiles ON profiles.id = work_experiences.profile_id
+      WHERE profiles.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    work_experience_id IN (
+      SELECT work_experiences.id FROM work_experiences
+      JOIN profiles ON profiles.id = work_experiences.profile_id
+      WHERE profiles.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own achievements"
+  ON achievements
+  FOR DELETE
+  TO authenticated
+  USING (
+    work_experience_id IN (
+      SELECT work_experiences.id FROM work_experiences
+      JOIN profiles ON profiles.id = work_experiences.profile_id
+      WHERE profiles.user_id = auth.uid()
+    )
+  );
+
+-- Create index for better query performance
+CREATE INDEX IF NOT EXISTS achievements_work_experience_id_idx ON achievements(work_experience_id);
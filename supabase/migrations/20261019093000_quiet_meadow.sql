@@ -0,0 +1,79 @@
+/*
+  # Create skills table
+
+  1. New Tables
+    - `skills`
+      - `id` (uuid, primary key)
+      - `profile_id` (uuid, references profiles)
+      - `name` (text) - e.g. "TypeScript"
+      - `category` (text) - e.g. "Programming Languages"
+      - `proficiency` (text) - beginner, intermediate, advanced or expert
+      - `years_of_use` (numeric)
+      - `last_used` (date, nullable) - null means the skill is in current use
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `skills` table
+    - Add policies for users to manage their own skills
+*/
+
+CREATE TABLE IF NOT EXISTS skills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  category text NOT NULL,
+  proficiency text DEFAULT 'intermediate' NOT NULL CHECK (proficiency IN ('beginner', 'intermediate', 'advanced', 'expert')),
+  years_of_use numeric(4,1) DEFAULT 0 NOT NULL CHECK (years_of_use >= 0),
+  last_used date,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE skills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own skills"
+  ON skills
+  FOR SELECT
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own skills"
+  ON skills
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own skills"
+  ON skills
+  FOR UPDATE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own skills"
+  ON skills
+  FOR DELETE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Create index for better query performance
+CREATE INDEX IF NOT EXISTS skills_profile_id_idx ON skills(profile_id);
@@ -0,0 +1,360 @@
+/*
+  # Create additional resume section tables
+
+  1. New Tables
+    - `certifications`
+      - `id` (uuid, primary key)
+      - `profile_id` (uuid, references profiles)
+      - `name` (text)
+      - `issuer` (text)
+      - `issue_date` (date, nullable)
+      - `expiration_date` (date, nullable)
+      - `credential_id` (text, nullable)
+      - `credential_url` (text, nullable)
+      - `created_at` (timestamp)
+
+    - `projects`
+      - `id` (uuid, primary key)
+      - `profile_id` (uuid, references profiles)
+      - `name` (text)
+      - `description` (text)
+      - `role` (text, nullable)
+      - `tech_stack` (text[])
+      - `url` (text, nullable)
+      - `start_date` (date, nullable)
+      - `end_date` (date, nullable)
+      - `created_at` (timestamp)
+
+    - `publications`
+      - `id` (uuid, primary key)
+      - `profile_id` (uuid, references profiles)
+      - `title` (text)
+      - `publisher` (text, nullable)
+      - `published_date` (date, nullable)
+      - `url` (text, nullable)
+      - `description` (text, nullable)
+      - `created_at` (timestamp)
+
+    - `languages`
+      - `id` (uuid, primary key)
+      - `profile_id` (uuid, references profiles)
+      - `name` (text)
+      - `proficiency` (text) - elementary, limited_working, professional_working, full_professional or native
+      - `created_at` (timestamp)
+
+    - `volunteer_experiences`
+      - `id` (uuid, primary key)
+      - `profile_id` (uuid, references profiles)
+      - `organization` (text)
+      - `role` (text)
+      - `start_date` (date, nullable)
+      - `end_date` (date, nullable)
+      - `description` (text, nullable)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on all new tables
+    - Add policies for users to manage their own section data
+*/
+
+CREATE TABLE IF NOT EXISTS certifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  issuer text NOT NULL,
+  issue_date date,
+  expiration_date date,
+  credential_id text,
+  credential_url text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE certifications ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text NOT NULL,
+  role text,
+  tech_stack text[] DEFAULT '{}' NOT NULL,
+  url text,
+  start_date date,
+  end_date date,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS publications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  publisher text,
+  published_date date,
+  url text,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE publications ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS languages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  proficiency text DEFAULT 'professional_working' NOT NULL CHECK (proficiency IN ('elementary', 'limited_working', 'professional_working', 'full_professional', 'native')),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE languages ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS volunteer_experiences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  organization text NOT NULL,
+  role text NOT NULL,
+  start_date date,
+  end_date date,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE volunteer_experiences ENABLE ROW LEVEL SECURITY;
+
+-- Certifications Policies
+CREATE POLICY "Users can view own certifications"
+  ON certifications
+  FOR SELECT
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own certifications"
+  ON certifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own certifications"
+  ON certifications
+  FOR UPDATE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own certifications"
+  ON certifications
+  FOR DELETE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Projects Policies
+CREATE POLICY "Users can view own projects"
+  ON projects
+  FOR SELECT
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own projects"
+  ON projects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own projects"
+  ON projects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own projects"
+  ON projects
+  FOR DELETE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Publications Policies
+CREATE POLICY "Users can view own publications"
+  ON publications
+  FOR SELECT
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own publications"
+  ON publications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own publications"
+  ON publications
+  FOR UPDATE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own publications"
+  ON publications
+  FOR DELETE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Spoken languages Policies
+CREATE POLICY "Users can view own spoken languages"
+  ON languages
+  FOR SELECT
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own spoken languages"
+  ON languages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own spoken languages"
+  ON languages
+  FOR UPDATE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own spoken languages"
+  ON languages
+  FOR DELETE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Volunteer experiences Policies
+CREATE POLICY "Users can view own volunteer experiences"
+  ON volunteer_experiences
+  FOR SELECT
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own volunteer experiences"
+  ON volunteer_experiences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own volunteer experiences"
+  ON volunteer_experiences
+  FOR UPDATE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own volunteer experiences"
+  ON volunteer_experiences
+  FOR DELETE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS certifications_profile_id_idx ON certifications(profile_id);
+CREATE INDEX IF NOT EXISTS projects_profile_id_idx ON projects(profile_id);
+CREATE INDEX IF NOT EXISTS publications_profile_id_idx ON publications(profile_id);
+CREATE INDEX IF NOT EXISTS languages_profile_id_idx ON languages(profile_id);
+CREATE INDEX IF NOT EXISTS volunteer_experiences_profile_id_idx ON volunteer_experiences(profile_id);
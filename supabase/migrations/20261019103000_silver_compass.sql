@@ -0,0 +1,96 @@
+/*
+  # Create personas table
+
+  A persona is a named career track (e.g. "Backend Engineering") curated from
+  the user's profile. Contact details, achievements and the other sections stay
+  on the single profile row, so `profiles_user_id_idx` is kept; each persona
+  only records which work experiences, educations and skills it includes.
+
+  1. New Tables
+    - `personas`
+      - `id` (uuid, primary key)
+      - `profile_id` (uuid, references profiles)
+      - `name` (text) - unique per profile
+      - `description` (text, nullable)
+      - `work_experience_ids` (uuid[]) - work experiences included in this persona
+      - `education_ids` (uuid[]) - educations included in this persona
+      - `skill_ids` (uuid[]) - skills included in this persona
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `job_history.persona_id` records which persona a resume was generated
+      from; null means the full profile was used
+
+  3. Security
+    - Enable RLS on `personas` table
+    - Add policies for users to manage their own personas
+*/
+
+CREATE TABLE IF NOT EXISTS personas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  work_experience_ids uuid[] DEFAULT '{}' NOT NULL,
+  education_ids uuid[] DEFAULT '{}' NOT NULL,
+  skill_ids uuid[] DEFAULT '{}' NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE personas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own personas"
+  ON personas
+  FOR SELECT
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own personas"
+  ON personas
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own personas"
+  ON personas
+  FOR UPDATE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own personas"
+  ON personas
+  FOR DELETE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS personas_profile_id_idx ON personas(profile_id);
+CREATE UNIQUE INDEX IF NOT EXISTS personas_profile_id_name_idx ON personas(profile_id, name);
+
+-- Record the persona used for each application
+ALTER TABLE job_history ADD COLUMN IF NOT EXISTS persona_id uuid REFERENCES personas(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS job_history_persona_id_idx ON job_history(persona_id);
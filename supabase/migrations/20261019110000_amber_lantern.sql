@@ -0,0 +1,53 @@
+/*
+  # Create profile snapshots
+
+  Every generation stores the exact profile data it was built from, so old
+  resumes stay explainable after the profile is edited.
+
+  1. New Tables
+    - `profile_snapshots`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `persona_id` (uuid, nullable, references personas) - persona used, if any
+      - `snapshot` (jsonb) - profile row plus the work experiences (with
+        achievements), educations, skills and resume sections that were used
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `resume_history.profile_snapshot_id` links each generated resume to its snapshot
+
+  3. Security
+    - Enable RLS on `profile_snapshots` table
+    - Users can read and insert their own snapshots; there are no update or
+      delete policies, so snapshots are immutable once written
+*/
+
+CREATE TABLE IF NOT EXISTS profile_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  persona_id uuid REFERENCES personas(id) ON DELETE SET NULL,
+  snapshot jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE profile_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own profile snapshots"
+  ON profile_snapshots
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own profile snapshots"
+  ON profile_snapshots
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create index for better query performance
+CREATE INDEX IF NOT EXISTS profile_snapshots_user_id_idx ON profile_snapshots(user_id);
+
+-- Link generated resumes to the snapshot they were built from
+ALTER TABLE resume_history ADD COLUMN IF NOT EXISTS profile_snapshot_id uuid REFERENCES profile_snapshots(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS resume_history_profile_snapshot_id_idx ON resume_history(profile_snapshot_id);
@@ -0,0 +1,77 @@
+/*
+  # Create profile links
+
+  1. New Tables
+    - `profile_links`
+      - `id` (uuid, primary key)
+      - `profile_id` (uuid, references profiles)
+      - `link_type` (text) - linkedin, github, portfolio, website, stackoverflow or other
+      - `label` (text) - text shown on the resume, e.g. "github.com/jdoe"
+      - `url` (text)
+      - `sort_order` (integer) - position in the resume header
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `profile_links` table
+    - Add policies for users to manage their own links
+*/
+
+CREATE TABLE IF NOT EXISTS profile_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  link_type text DEFAULT 'website' NOT NULL CHECK (link_type IN ('linkedin', 'github', 'portfolio', 'website', 'stackoverflow', 'other')),
+  label text NOT NULL,
+  url text NOT NULL,
+  sort_order integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE profile_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own profile links"
+  ON profile_links
+  FOR SELECT
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own profile links"
+  ON profile_links
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own profile links"
+  ON profile_links
+  FOR UPDATE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own profile links"
+  ON profile_links
+  FOR DELETE
+  TO authenticated
+  USING (
+    profile_id IN (
+      SELECT id FROM profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Create index for better query performance
+CREATE INDEX IF NOT EXISTS profile_links_profile_id_idx ON profile_links(profile_id, sort_order);
@@ -0,0 +1,308 @@
+/*
+  # Atomic profile save
+
+  The Profile page used to upsert the profile and then save every work
+  experience, achievement, education, skill and section row in its own request,
+  deleting rows immediately when they were removed in the form. A failure half
+  way through left the profile partially saved.
+
+  1. New Functions
+    - `profile_document_ids(items jsonb)` - ids of the rows in a document array
+      that already exist (rows without an id are new)
+    - `save_profile(document jsonb, expected_updated_at timestamptz)` - applies
+      the whole profile document in one transaction:
+      - rows whose id is missing from the document are deleted
+      - rows with an id are updated, rows without one are inserted
+      - the profile row is always touched so `updated_at` moves forward
+      Returns `{ "profile_id": ..., "updated_at": ... }`.
+
+  2. Concurrency
+    - `expected_updated_at` must match the stored `profiles.updated_at` (or be
+      null when no profile exists yet). Otherwise the save is rejected with
+      SQLSTATE 40001 and nothing is written, so a stale tab cannot overwrite
+      newer changes.
+
+  3. Security
+    - SECURITY INVOKER: row level security on every table still applies
+    - The profile is always resolved from `auth.uid()`, never from the document
+*/
+
+CREATE OR REPLACE FUNCTION profile_document_ids(items jsonb)
+RETURNS uuid[] AS $$
+  SELECT coalesce(array_agg((item->>'id')::uuid), '{}')
+  FROM jsonb_array_elements(coalesce(items, '[]'::jsonb)) AS item
+  WHERE coalesce(item->>'id', '') <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION save_profile(document jsonb, expected_updated_at timestamptz DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_profile_id uuid;
+  v_stored_updated_at timestamptz;
+  v_updated_at timestamptz;
+  v_work jsonb;
+  v_work_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the profile so concurrent saves are applied one after the other
+  SELECT id, updated_at INTO v_profile_id, v_stored_updated_at
+  FROM profiles
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  IF v_profile_id IS NULL THEN
+    IF expected_updated_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Profile was deleted since it was loaded' USING ERRCODE = '40001';
+    END IF;
+
+    INSERT INTO profiles (user_id, name, email, phone, location)
+    VALUES (
+      v_user_id,
+      coalesce(document->'profile'->>'name', ''),
+      coalesce(document->'profile'->>'email', ''),
+      coalesce(document->'profile'->>'phone', ''),
+      coalesce(document->'profile'->>'location', '')
+    )
+    RETURNING id, updated_at INTO v_profile_id, v_updated_at;
+  ELSE
+    IF expected_updated_at IS NULL OR v_stored_updated_at IS DISTINCT FROM expected_updated_at THEN
+      RAISE EXCEPTION 'Profile was modified since it was loaded' USING ERRCODE = '40001';
+    END IF;
+
+    -- The update_profiles_updated_at trigger bumps updated_at
+    UPDATE profiles SET
+      name = coalesce(document->'profile'->>'name', ''),
+      email = coalesce(document->'profile'->>'email', ''),
+      phone = coalesce(document->'profile'->>'phone', ''),
+      location = coalesce(document->'profile'->>'location', '')
+    WHERE id = v_profile_id
+    RETURNING updated_at INTO v_updated_at;
+  END IF;
+
+  -- Work experiences and their achievements
+  DELETE FROM work_experiences
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'work_experiences'));
+
+  FOR v_work IN SELECT value FROM jsonb_array_elements(coalesce(document->'work_experiences', '[]'::jsonb)) LOOP
+    v_work_id := NULL;
+
+    IF coalesce(v_work->>'id', '') = '' THEN
+      INSERT INTO work_experiences (profile_id, company, position, start_date, end_date, is_current)
+      VALUES (
+        v_profile_id,
+        v_work->>'company',
+        v_work->>'position',
+        (v_work->>'start_date')::date,
+        (v_work->>'end_date')::date,
+        coalesce((v_work->>'is_current')::boolean, false)
+      )
+      RETURNING id INTO v_work_id;
+    ELSE
+      UPDATE work_experiences SET
+        company = v_work->>'company',
+        position = v_work->>'position',
+        start_date = (v_work->>'start_date')::date,
+        end_date = (v_work->>'end_date')::date,
+        is_current = coalesce((v_work->>'is_current')::boolean, false)
+      WHERE id = (v_work->>'id')::uuid AND profile_id = v_profile_id
+      RETURNING id INTO v_work_id;
+
+      IF v_work_id IS NULL THEN
+        RAISE EXCEPTION 'Work experience % no longer exists', v_work->>'id' USING ERRCODE = '40001';
+      END IF;
+    END IF;
+
+    DELETE FROM achievements
+    WHERE work_experience_id = v_work_id
+      AND id <> ALL (profile_document_ids(v_work->'achievements'));
+
+    UPDATE achievements a SET
+      description = r.description,
+      metrics = r.metrics,
+      tech_stack = coalesce(r.tech_stack, '{}'),
+      team_context = r.team_context
+    FROM jsonb_to_recordset(coalesce(v_work->'achievements', '[]'::jsonb))
+      AS r(id uuid, description text, metrics text, tech_stack text[], team_context text)
+    WHERE a.id = r.id AND a.work_experience_id = v_work_id;
+
+    INSERT INTO achievements (work_experience_id, description, metrics, tech_stack, team_context)
+    SELECT v_work_id, r.description, r.metrics, coalesce(r.tech_stack, '{}'), r.team_context
+    FROM jsonb_to_recordset(coalesce(v_work->'achievements', '[]'::jsonb))
+      AS r(id uuid, description text, metrics text, tech_stack text[], team_context text)
+    WHERE r.id IS NULL;
+  END LOOP;
+
+  -- Educations
+  DELETE FROM educations
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'educations'));
+
+  UPDATE educations e SET
+    university = r.university,
+    degree = r.degree,
+    start_date = r.start_date,
+    end_date = r.end_date
+  FROM jsonb_to_recordset(coalesce(document->'educations', '[]'::jsonb))
+    AS r(id uuid, university text, degree text, start_date date, end_date date)
+  WHERE e.id = r.id AND e.profile_id = v_profile_id;
+
+  INSERT INTO educations (profile_id, university, degree, start_date, end_date)
+  SELECT v_profile_id, r.university, r.degree, r.start_date, r.end_date
+  FROM jsonb_to_recordset(coalesce(document->'educations', '[]'::jsonb))
+    AS r(id uuid, university text, degree text, start_date date, end_date date)
+  WHERE r.id IS NULL;
+
+  -- Skills
+  DELETE FROM skills
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'skills'));
+
+  UPDATE skills s SET
+    name = r.name,
+    category = r.category,
+    proficiency = r.proficiency,
+    years_of_use = r.years_of_use,
+    last_used = r.last_used
+  FROM jsonb_to_recordset(coalesce(document->'skills', '[]'::jsonb))
+    AS r(id uuid, name text, category text, proficiency text, years_of_use numeric, last_used date)
+  WHERE s.id = r.id AND s.profile_id = v_profile_id;
+
+  INSERT INTO skills (profile_id, name, category, proficiency, years_of_use, last_used)
+  SELECT v_profile_id, r.name, r.category, r.proficiency, r.years_of_use, r.last_used
+  FROM jsonb_to_recordset(coalesce(document->'skills', '[]'::jsonb))
+    AS r(id uuid, name text, category text, proficiency text, years_of_use numeric, last_used date)
+  WHERE r.id IS NULL;
+
+  -- Certifications
+  DELETE FROM certifications
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'certifications'));
+
+  UPDATE certifications c SET
+    name = r.name,
+    issuer = r.issuer,
+    issue_date = r.issue_date,
+    expiration_date = r.expiration_date,
+    credential_id = r.credential_id,
+    credential_url = r.credential_url
+  FROM jsonb_to_recordset(coalesce(document->'certifications', '[]'::jsonb))
+    AS r(id uuid, name text, issuer text, issue_date date, expiration_date date, credential_id text, credential_url text)
+  WHERE c.id = r.id AND c.profile_id = v_profile_id;
+
+  INSERT INTO certifications (profile_id, name, issuer, issue_date, expiration_date, credential_id, credential_url)
+  SELECT v_profile_id, r.name, r.issuer, r.issue_date, r.expiration_date, r.credential_id, r.credential_url
+  FROM jsonb_to_recordset(coalesce(document->'certifications', '[]'::jsonb))
+    AS r(id uuid, name text, issuer text, issue_date date, expiration_date date, credential_id text, credential_url text)
+  WHERE r.id IS NULL;
+
+  -- Projects
+  DELETE FROM projects
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'projects'));
+
+  UPDATE projects p SET
+    name = r.name,
+    description = r.description,
+    role = r.role,
+    tech_stack = coalesce(r.tech_stack, '{}'),
+    url = r.url,
+    start_date = r.start_date,
+    end_date = r.end_date
+  FROM jsonb_to_recordset(coalesce(document->'projects', '[]'::jsonb))
+    AS r(id uuid, name text, description text, role text, tech_stack text[], url text, start_date date, end_date date)
+  WHERE p.id = r.id AND p.profile_id = v_profile_id;
+
+  INSERT INTO projects (profile_id, name, description, role, tech_stack, url, start_date, end_date)
+  SELECT v_profile_id, r.name, r.description, r.role, coalesce(r.tech_stack, '{}'), r.url, r.start_date, r.end_date
+  FROM jsonb_to_recordset(coalesce(document->'projects', '[]'::jsonb))
+    AS r(id uuid, name text, description text, role text, tech_stack text[], url text, start_date date, end_date date)
+  WHERE r.id IS NULL;
+
+  -- Publications
+  DELETE FROM publications
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'publications'));
+
+  UPDATE publications p SET
+    title = r.title,
+    publisher = r.publisher,
+    published_date = r.published_date,
+    url = r.url,
+    description = r.description
+  FROM jsonb_to_recordset(coalesce(document->'publications', '[]'::jsonb))
+    AS r(id uuid, title text, publisher text, published_date date, url text, description text)
+  WHERE p.id = r.id AND p.profile_id = v_profile_id;
+
+  INSERT INTO publications (profile_id, title, publisher, published_date, url, description)
+  SELECT v_profile_id, r.title, r.publisher, r.published_date, r.url, r.description
+  FROM jsonb_to_recordset(coalesce(document->'publications', '[]'::jsonb))
+    AS r(id uuid, title text, publisher text, published_date date, url text, description text)
+  WHERE r.id IS NULL;
+
+  -- Languages
+  DELETE FROM languages
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'languages'));
+
+  UPDATE languages l SET
+    name = r.name,
+    proficiency = r.proficiency
+  FROM jsonb_to_recordset(coalesce(document->'languages', '[]'::jsonb))
+    AS r(id uuid, name text, proficiency text)
+  WHERE l.id = r.id AND l.profile_id = v_profile_id;
+
+  INSERT INTO languages (profile_id, name, proficiency)
+  SELECT v_profile_id, r.name, r.proficiency
+  FROM jsonb_to_recordset(coalesce(document->'languages', '[]'::jsonb))
+    AS r(id uuid, name text, proficiency text)
+  WHERE r.id IS NULL;
+
+  -- Volunteer experiences
+  DELETE FROM volunteer_experiences
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'volunteer_experiences'));
+
+  UPDATE volunteer_experiences v SET
+    organization = r.organization,
+    role = r.role,
+    start_date = r.start_date,
+    end_date = r.end_date,
+    description = r.description
+  FROM jsonb_to_recordset(coalesce(document->'volunteer_experiences', '[]'::jsonb))
+    AS r(id uuid, organization text, role text, start_date date, end_date date, description text)
+  WHERE v.id = r.id AND v.profile_id = v_profile_id;
+
+  INSERT INTO volunteer_experiences (profile_id, organization, role, start_date, end_date, description)
+  SELECT v_profile_id, r.organization, r.role, r.start_date, r.end_date, r.description
+  FROM jsonb_to_recordset(coalesce(document->'volunteer_experiences', '[]'::jsonb))
+    AS r(id uuid, organization text, role text, start_date date, end_date date, description text)
+  WHERE r.id IS NULL;
+
+  -- Profile links; sort_order follows the position in the document
+  DELETE FROM profile_links
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'profile_links'));
+
+  UPDATE profile_links l SET
+    link_type = r.link->>'link_type',
+    label = r.link->>'label',
+    url = r.link->>'url',
+    sort_order = r.position - 1
+  FROM jsonb_array_elements(coalesce(document->'profile_links', '[]'::jsonb)) WITH ORDINALITY AS r(link, position)
+  WHERE l.id = (r.link->>'id')::uuid AND l.profile_id = v_profile_id;
+
+  INSERT INTO profile_links (profile_id, link_type, label, url, sort_order)
+  SELECT v_profile_id, r.link->>'link_type', r.link->>'label', r.link->>'url', r.position - 1
+  FROM jsonb_array_elements(coalesce(document->'profile_links', '[]'::jsonb)) WITH ORDINALITY AS r(link, position)
+  WHERE coalesce(r.link->>'id', '') = '';
+
+  RETURN jsonb_build_object('profile_id', v_profile_id, 'updated_at', v_updated_at);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_profile(jsonb, timestamptz) TO authenticated;
@@ -0,0 +1,106 @@
+/*
+  # Role context on work experience
+
+  1. Changes
+    - `work_experiences` gains the context the resume generator tailors from:
+      - `description` (text) - what the role was about, in the user's words
+      - `team_size` (integer, optional) - people on the immediate team
+      - `tech_stack` (text[]) - technologies used in the role
+      - `industry` (text) - industry or domain of the employer
+      - `employment_type` (text) - 'full_time', 'contract' or 'internship'
+
+  2. Changes to Functions
+    - `save_profile_work_experiences` writes the new columns
+*/
+
+ALTER TABLE work_experiences ADD COLUMN IF NOT EXISTS description text;
+ALTER TABLE work_experiences ADD COLUMN IF NOT EXISTS team_size integer CHECK (team_size IS NULL OR team_size > 0);
+ALTER TABLE work_experiences ADD COLUMN IF NOT EXISTS tech_stack text[] DEFAULT '{}' NOT NULL;
+ALTER TABLE work_experiences ADD COLUMN IF NOT EXISTS industry text;
+ALTER TABLE work_experiences ADD COLUMN IF NOT EXISTS employment_type text DEFAULT 'full_time' NOT NULL
+  CHECK (employment_type IN ('full_time', 'contract', 'internship'));
+
+CREATE OR REPLACE FUNCTION save_profile_work_experiences(p_profile_id uuid, items jsonb)
+RETURNS void AS $$
+DECLARE
+  v_work jsonb;
+  v_position bigint;
+  v_work_id uuid;
+  v_tech_stack text[];
+BEGIN
+  DELETE FROM work_experiences
+  WHERE profile_id = p_profile_id
+    AND id <> ALL (profile_document_ids(items));
+
+  FOR v_work, v_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(coalesce(items, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    v_work_id := NULL;
+    v_tech_stack := CASE
+      WHEN jsonb_typeof(v_work->'tech_stack') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(v_work->'tech_stack'))
+      ELSE '{}'
+    END;
+
+    IF coalesce(v_work->>'id', '') = '' THEN
+      INSERT INTO work_experiences (
+        profile_id, company, position, start_date, end_date, is_current, sort_order,
+        description, team_size, tech_stack, industry, employment_type
+      )
+      VALUES (
+        p_profile_id,
+        v_work->>'company',
+        v_work->>'position',
+        (v_work->>'start_date')::date,
+        (v_work->>'end_date')::date,
+        coalesce((v_work->>'is_current')::boolean, false),
+        v_position - 1,
+        v_work->>'description',
+        (v_work->>'team_size')::integer,
+        v_tech_stack,
+        v_work->>'industry',
+        coalesce(v_work->>'employment_type', 'full_time')
+      )
+      RETURNING id INTO v_work_id;
+    ELSE
+      UPDATE work_experiences SET
+        company = v_work->>'company',
+        position = v_work->>'position',
+        start_date = (v_work->>'start_date')::date,
+        end_date = (v_work->>'end_date')::date,
+        is_current = coalesce((v_work->>'is_current')::boolean, false),
+        sort_order = v_position - 1,
+        description = v_work->>'description',
+        team_size = (v_work->>'team_size')::integer,
+        tech_stack = v_tech_stack,
+        industry = v_work->>'industry',
+        employment_type = coalesce(v_work->>'employment_type', 'full_time')
+      WHERE id = (v_work->>'id')::uuid AND profile_id = p_profile_id
+      RETURNING id INTO v_work_id;
+
+      IF v_work_id IS NULL THEN
+        RAISE EXCEPTION 'Work experience % no longer exists', v_work->>'id' USING ERRCODE = '40001';
+      END IF;
+    END IF;
+
+    DELETE FROM achievements
+    WHERE work_experience_id = v_work_id
+      AND id <> ALL (profile_document_ids(v_work->'achievements'));
+
+    UPDATE achievements a SET
+      description = r.description,
+      metrics = r.metrics,
+      tech_stack = coalesce(r.tech_stack, '{}'),
+      team_context = r.team_context
+    FROM jsonb_to_recordset(coalesce(v_work->'achievements', '[]'::jsonb))
+      AS r(id uuid, description text, metrics text, tech_stack text[], team_context text)
+    WHERE a.id = r.id AND a.work_experience_id = v_work_id;
+
+    INSERT INTO achievements (work_experience_id, description, metrics, tech_stack, team_context)
+    SELECT v_work_id, r.description, r.metrics, coalesce(r.tech_stack, '{}'), r.team_context
+    FROM jsonb_to_recordset(coalesce(v_work->'achievements', '[]'::jsonb))
+      AS r(id uuid, description text, metrics text, tech_stack text[], team_context text)
+    WHERE r.id IS NULL;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
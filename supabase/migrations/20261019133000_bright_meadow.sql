@@ -0,0 +1,19 @@
+/*
+  # Self-hosted OpenAI-compatible provider
+
+  1. Changes
+    - `user_settings` gains the connection details for any server that speaks
+      the OpenAI Chat Completions API (llama.cpp, vLLM, Ollama...):
+      - `openai_compatible_base_url` (text) - e.g. http://localhost:11434/v1
+      - `openai_compatible_model` (text) - model name passed to the server
+      - `openai_compatible_key` (text, optional) - for servers that check one
+    - `preferred_ai` accepts 'openai_compatible'
+*/
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS openai_compatible_base_url text;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS openai_compatible_model text;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS openai_compatible_key text;
+
+ALTER TABLE user_settings DROP CONSTRAINT IF EXISTS user_settings_preferred_ai_check;
+ALTER TABLE user_settings ADD CONSTRAINT user_settings_preferred_ai_check
+  CHECK (preferred_ai IN ('openai', 'anthropic', 'openai_compatible'));
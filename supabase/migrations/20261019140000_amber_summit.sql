@@ -0,0 +1,25 @@
+/*
+  # Gemini, Mistral and Azure OpenAI providers
+
+  1. Changes
+    - `user_settings` gains keys for the new hosted providers:
+      - `gemini_key` (text) - Google AI Studio API key
+      - `mistral_key` (text) - Mistral La Plateforme API key
+    - `user_settings` gains the details of an Azure OpenAI deployment:
+      - `azure_openai_endpoint` (text) - e.g. https://my-resource.openai.azure.com
+      - `azure_openai_deployment` (text) - deployment name, which picks the model
+      - `azure_openai_api_version` (text) - REST API version, default 2024-06-01
+      - `azure_openai_key` (text)
+    - `preferred_ai` accepts 'gemini', 'mistral' and 'azure_openai'
+*/
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS gemini_key text;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS mistral_key text;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS azure_openai_endpoint text;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS azure_openai_deployment text;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS azure_openai_api_version text DEFAULT '2024-06-01';
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS azure_openai_key text;
+
+ALTER TABLE user_settings DROP CONSTRAINT IF EXISTS user_settings_preferred_ai_check;
+ALTER TABLE user_settings ADD CONSTRAINT user_settings_preferred_ai_check
+  CHECK (preferred_ai IN ('openai', 'anthropic', 'gemini', 'mistral', 'azure_openai', 'openai_compatible'));
@@ -0,0 +1,27 @@
+/*
+  # Model choice and sampling settings
+
+  1. Changes
+    - `user_settings` gains the model to call per hosted provider. Null means
+      the provider's default (gpt-4o, claude-3-5-sonnet-20241022,
+      gemini-1.5-pro, mistral-large-latest). Azure and self-hosted models are
+      already chosen through the deployment and model columns.
+      - `openai_model`, `anthropic_model`, `gemini_model`, `mistral_model` (text)
+    - `user_settings` gains sampling settings used for every provider:
+      - `temperature` (numeric, 0-1, default 0.7)
+      - `max_output_tokens` (integer, 1000-32000, default 8000)
+    - `resume_history` gains `ai_model` (text), the exact model that wrote the
+      resume. Null for resumes generated before this change.
+*/
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS openai_model text;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS anthropic_model text;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS gemini_model text;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS mistral_model text;
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS temperature numeric(2, 1) NOT NULL DEFAULT 0.7
+  CHECK (temperature >= 0 AND temperature <= 1);
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS max_output_tokens integer NOT NULL DEFAULT 8000
+  CHECK (max_output_tokens BETWEEN 1000 AND 32000);
+
+ALTER TABLE resume_history ADD COLUMN IF NOT EXISTS ai_model text;
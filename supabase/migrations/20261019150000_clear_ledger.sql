@@ -0,0 +1,17 @@
+/*
+  # Token usage in resume history
+
+  1. Changes
+    - `resume_history` gains the token counts the AI provider reported:
+      - `input_tokens` (integer) - prompt tokens
+      - `output_tokens` (integer) - completion tokens
+      Both are null for older resumes and for providers that report no usage.
+    - `generation_cost` is now computed from those counts and a per-model
+      price table, so it keeps six decimal places instead of three; cheap
+      models cost fractions of a cent per resume.
+*/
+
+ALTER TABLE resume_history ADD COLUMN IF NOT EXISTS input_tokens integer CHECK (input_tokens >= 0);
+ALTER TABLE resume_history ADD COLUMN IF NOT EXISTS output_tokens integer CHECK (output_tokens >= 0);
+
+ALTER TABLE resume_history ALTER COLUMN generation_cost TYPE decimal(10,6);
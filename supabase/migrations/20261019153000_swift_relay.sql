@@ -0,0 +1,17 @@
+/*
+  # Provider failover
+
+  1. Changes
+    - `user_settings` gains an opt-in failover policy for resume generation:
+      - `failover_enabled` (boolean, default false) - when the preferred
+        provider keeps returning rate limits, server errors or timeouts after
+        retries, generation switches to another configured provider
+      - `failover_provider` (text, optional) - the provider to switch to; null
+        means the next configured provider
+    - `resume_history.ai_provider` records the provider that actually wrote the
+      resume, which is the failover provider when a switch happened
+*/
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS failover_enabled boolean NOT NULL DEFAULT false;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS failover_provider text
+  CHECK (failover_provider IN ('openai', 'anthropic', 'gemini', 'mistral', 'azure_openai', 'openai_compatible'));
@@ -0,0 +1,20 @@
+/*
+  # Resume revisions
+
+  1. Changes
+    - `resume_history` rows can be revisions of an earlier row for the same job:
+      - `revision_of` (uuid, optional) - the resume this one was derived from by
+        regenerating a single section; null for full generations
+      - `revision_note` (text, optional) - what changed, e.g.
+        "Regenerated professional summary"
+    - A revision keeps its own provider, model, tokens and cost, so the
+      original generation's figures are not overwritten
+
+  2. Indexes
+    - `resume_history(revision_of)` for looking up the revisions of a resume
+*/
+
+ALTER TABLE resume_history ADD COLUMN IF NOT EXISTS revision_of uuid REFERENCES resume_history(id) ON DELETE SET NULL;
+ALTER TABLE resume_history ADD COLUMN IF NOT EXISTS revision_note text;
+
+CREATE INDEX IF NOT EXISTS resume_history_revision_of_idx ON resume_history(revision_of);
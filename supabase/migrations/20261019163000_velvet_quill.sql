@@ -0,0 +1,159 @@
+/*
+  # Prompt template library
+
+  Users can replace the built-in resume prompt with their own templates. A
+  template uses {{placeholders}} (job description, candidate, work history,
+  education...) that the generate-resume edge function fills in.
+
+  1. New Tables
+    - `prompt_templates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - unique per user
+      - `description` (text, nullable)
+      - `current_version` (integer) - the version generation uses
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `prompt_template_versions` - every saved body of a template; rows are
+      never updated, so an old resume's prompt can always be looked up
+      - `id` (uuid, primary key)
+      - `template_id` (uuid, references prompt_templates)
+      - `version` (integer) - unique per template, counting up from 1
+      - `body` (text)
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `save_prompt_template(existing_template_id, template_name,
+      template_description, template_body)` - creates a template at version 1,
+      or stores the body as the next version of an existing one, in one
+      transaction. Returns `{ "id": ..., "version": ... }`.
+
+  3. Changes
+    - `resume_history.prompt_template_id` and `prompt_template_version` record
+      the template a resume was generated with; both are null for the built-in
+      prompt
+
+  4. Security
+    - Enable RLS on both tables
+    - Users manage their own templates; versions can only be read and added
+    - SECURITY INVOKER: the function runs under the same policies
+*/
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  current_version integer DEFAULT 1 NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS prompt_template_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid REFERENCES prompt_templates(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  body text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own prompt templates"
+  ON prompt_templates
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own prompt templates"
+  ON prompt_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own prompt templates"
+  ON prompt_templates
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own prompt templates"
+  ON prompt_templates
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view own prompt template versions"
+  ON prompt_template_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    template_id IN (
+      SELECT id FROM prompt_templates WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own prompt template versions"
+  ON prompt_template_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    template_id IN (
+      SELECT id FROM prompt_templates WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS prompt_templates_user_id_name_idx ON prompt_templates(user_id, name);
+CREATE UNIQUE INDEX IF NOT EXISTS prompt_template_versions_template_id_version_idx ON prompt_template_versions(template_id, version);
+
+CREATE OR REPLACE FUNCTION save_prompt_template(
+  existing_template_id uuid,
+  template_name text,
+  template_description text,
+  template_body text
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_template_id uuid := existing_template_id;
+  v_version integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_template_id IS NULL THEN
+    INSERT INTO prompt_templates (user_id, name, description)
+    VALUES (v_user_id, template_name, template_description)
+    RETURNING id, current_version INTO v_template_id, v_version;
+  ELSE
+    -- The row lock taken by the update gives concurrent saves consecutive versions
+    UPDATE prompt_templates
+    SET name = template_name,
+        description = template_description,
+        current_version = current_version + 1,
+        updated_at = now()
+    WHERE id = v_template_id AND user_id = v_user_id
+    RETURNING current_version INTO v_version;
+
+    IF v_version IS NULL THEN
+      RAISE EXCEPTION 'Prompt template not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  INSERT INTO prompt_template_versions (template_id, version, body)
+  VALUES (v_template_id, v_version, template_body);
+
+  RETURN jsonb_build_object('id', v_template_id, 'version', v_version);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_prompt_template(uuid, text, text, text) TO authenticated;
+
+-- Record the template each resume was generated with
+ALTER TABLE resume_history ADD COLUMN IF NOT EXISTS prompt_template_id uuid REFERENCES prompt_templates(id) ON DELETE SET NULL;
+ALTER TABLE resume_history ADD COLUMN IF NOT EXISTS prompt_template_version integer;
+
+CREATE INDEX IF NOT EXISTS resume_history_prompt_template_id_idx ON resume_history(prompt_template_id);
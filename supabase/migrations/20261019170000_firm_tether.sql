@@ -0,0 +1,348 @@
+/*
+  # Save conflicts for every profile section
+
+  `save_profile` raised a save conflict when a work experience in the document
+  no longer existed, but the set-based updates of the other sections silently
+  skipped ids that were deleted in another session or belong to someone else.
+
+  1. New Functions
+    - `assert_profile_rows_updated(section text, updated_rows bigint, items jsonb)` -
+      raises 40001 unless every id in `items` was updated
+
+  2. Changes to Functions
+    - `save_profile` and `save_profile_work_experiences` check the number of
+      updated rows after every section update, so a stale or foreign id in any
+      section aborts the save with the same 40001 conflict as work experiences
+*/
+
+CREATE OR REPLACE FUNCTION assert_profile_rows_updated(section text, updated_rows bigint, items jsonb)
+RETURNS void AS $$
+BEGIN
+  IF updated_rows <> cardinality(profile_document_ids(items)) THEN
+    RAISE EXCEPTION '% no longer exists', section USING ERRCODE = '40001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION save_profile_work_experiences(p_profile_id uuid, items jsonb)
+RETURNS void AS $$
+DECLARE
+  v_work jsonb;
+  v_position bigint;
+  v_work_id uuid;
+  v_tech_stack text[];
+  v_updated_rows bigint;
+BEGIN
+  DELETE FROM work_experiences
+  WHERE profile_id = p_profile_id
+    AND id <> ALL (profile_document_ids(items));
+
+  FOR v_work, v_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(coalesce(items, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    v_work_id := NULL;
+    v_tech_stack := CASE
+      WHEN jsonb_typeof(v_work->'tech_stack') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(v_work->'tech_stack'))
+      ELSE '{}'
+    END;
+
+    IF coalesce(v_work->>'id', '') = '' THEN
+      INSERT INTO work_experiences (
+        profile_id, company, position, start_date, end_date, is_current, sort_order,
+        description, team_size, tech_stack, industry, employment_type
+      )
+      VALUES (
+        p_profile_id,
+        v_work->>'company',
+        v_work->>'position',
+        (v_work->>'start_date')::date,
+        (v_work->>'end_date')::date,
+        coalesce((v_work->>'is_current')::boolean, false),
+        v_position - 1,
+        v_work->>'description',
+        (v_work->>'team_size')::integer,
+        v_tech_stack,
+        v_work->>'industry',
+        coalesce(v_work->>'employment_type', 'full_time')
+      )
+      RETURNING id INTO v_work_id;
+    ELSE
+      UPDATE work_experiences SET
+        company = v_work->>'company',
+        position = v_work->>'position',
+        start_date = (v_work->>'start_date')::date,
+        end_date = (v_work->>'end_date')::date,
+        is_current = coalesce((v_work->>'is_current')::boolean, false),
+        sort_order = v_position - 1,
+        description = v_work->>'description',
+        team_size = (v_work->>'team_size')::integer,
+        tech_stack = v_tech_stack,
+        industry = v_work->>'industry',
+        employment_type = coalesce(v_work->>'employment_type', 'full_time')
+      WHERE id = (v_work->>'id')::uuid AND profile_id = p_profile_id
+      RETURNING id INTO v_work_id;
+
+      IF v_work_id IS NULL THEN
+        RAISE EXCEPTION 'Work experience % no longer exists', v_work->>'id' USING ERRCODE = '40001';
+      END IF;
+    END IF;
+
+    DELETE FROM achievements
+    WHERE work_experience_id = v_work_id
+      AND id <> ALL (profile_document_ids(v_work->'achievements'));
+
+    UPDATE achievements a SET
+      description = r.description,
+      metrics = r.metrics,
+      tech_stack = coalesce(r.tech_stack, '{}'),
+      team_context = r.team_context
+    FROM jsonb_to_recordset(coalesce(v_work->'achievements', '[]'::jsonb))
+      AS r(id uuid, description text, metrics text, tech_stack text[], team_context text)
+    WHERE a.id = r.id AND a.work_experience_id = v_work_id;
+    GET DIAGNOSTICS v_updated_rows = ROW_COUNT;
+    PERFORM assert_profile_rows_updated('Achievement', v_updated_rows, v_work->'achievements');
+
+    INSERT INTO achievements (work_experience_id, description, metrics, tech_stack, team_context)
+    SELECT v_work_id, r.description, r.metrics, coalesce(r.tech_stack, '{}'), r.team_context
+    FROM jsonb_to_recordset(coalesce(v_work->'achievements', '[]'::jsonb))
+      AS r(id uuid, description text, metrics text, tech_stack text[], team_context text)
+    WHERE r.id IS NULL;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION save_profile(document jsonb, expected_updated_at timestamptz DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_profile_id uuid;
+  v_stored_updated_at timestamptz;
+  v_updated_at timestamptz;
+  v_updated_rows bigint;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the profile so concurrent saves are applied one after the other
+  SELECT id, updated_at INTO v_profile_id, v_stored_updated_at
+  FROM profiles
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  IF v_profile_id IS NULL THEN
+    IF expected_updated_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Profile was deleted since it was loaded' USING ERRCODE = '40001';
+    END IF;
+
+    INSERT INTO profiles (user_id, name, email, phone, location)
+    VALUES (
+      v_user_id,
+      coalesce(document->'profile'->>'name', ''),
+      coalesce(document->'profile'->>'email', ''),
+      coalesce(document->'profile'->>'phone', ''),
+      coalesce(document->'profile'->>'location', '')
+    )
+    RETURNING id, updated_at INTO v_profile_id, v_updated_at;
+  ELSE
+    IF expected_updated_at IS NULL OR v_stored_updated_at IS DISTINCT FROM expected_updated_at THEN
+      RAISE EXCEPTION 'Profile was modified since it was loaded' USING ERRCODE = '40001';
+    END IF;
+
+    -- The update_profiles_updated_at trigger bumps updated_at
+    UPDATE profiles SET
+      name = coalesce(document->'profile'->>'name', ''),
+      email = coalesce(document->'profile'->>'email', ''),
+      phone = coalesce(document->'profile'->>'phone', ''),
+      location = coalesce(document->'profile'->>'location', '')
+    WHERE id = v_profile_id
+    RETURNING updated_at INTO v_updated_at;
+  END IF;
+
+  -- Work experiences and their achievements
+  PERFORM save_profile_work_experiences(v_profile_id, document->'work_experiences');
+
+  -- Educations
+  DELETE FROM educations
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'educations'));
+
+  UPDATE educations e SET
+    university = r.university,
+    degree = r.degree,
+    start_date = r.start_date,
+    end_date = r.end_date
+  FROM jsonb_to_recordset(coalesce(document->'educations', '[]'::jsonb))
+    AS r(id uuid, university text, degree text, start_date date, end_date date)
+  WHERE e.id = r.id AND e.profile_id = v_profile_id;
+  GET DIAGNOSTICS v_updated_rows = ROW_COUNT;
+  PERFORM assert_profile_rows_updated('Education', v_updated_rows, document->'educations');
+
+  INSERT INTO educations (profile_id, university, degree, start_date, end_date)
+  SELECT v_profile_id, r.university, r.degree, r.start_date, r.end_date
+  FROM jsonb_to_recordset(coalesce(document->'educations', '[]'::jsonb))
+    AS r(id uuid, university text, degree text, start_date date, end_date date)
+  WHERE r.id IS NULL;
+
+  -- Skills
+  DELETE FROM skills
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'skills'));
+
+  UPDATE skills s SET
+    name = r.name,
+    category = r.category,
+    proficiency = r.proficiency,
+    years_of_use = r.years_of_use,
+    last_used = r.last_used
+  FROM jsonb_to_recordset(coalesce(document->'skills', '[]'::jsonb))
+    AS r(id uuid, name text, category text, proficiency text, years_of_use numeric, last_used date)
+  WHERE s.id = r.id AND s.profile_id = v_profile_id;
+  GET DIAGNOSTICS v_updated_rows = ROW_COUNT;
+  PERFORM assert_profile_rows_updated('Skill', v_updated_rows, document->'skills');
+
+  INSERT INTO skills (profile_id, name, category, proficiency, years_of_use, last_used)
+  SELECT v_profile_id, r.name, r.category, r.proficiency, r.years_of_use, r.last_used
+  FROM jsonb_to_recordset(coalesce(document->'skills', '[]'::jsonb))
+    AS r(id uuid, name text, category text, proficiency text, years_of_use numeric, last_used date)
+  WHERE r.id IS NULL;
+
+  -- Certifications
+  DELETE FROM certifications
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'certifications'));
+
+  UPDATE certifications c SET
+    name = r.name,
+    issuer = r.issuer,
+    issue_date = r.issue_date,
+    expiration_date = r.expiration_date,
+    credential_id = r.credential_id,
+    credential_url = r.credential_url
+  FROM jsonb_to_recordset(coalesce(document->'certifications', '[]'::jsonb))
+    AS r(id uuid, name text, issuer text, issue_date date, expiration_date date, credential_id text, credential_url text)
+  WHERE c.id = r.id AND c.profile_id = v_profile_id;
+  GET DIAGNOSTICS v_updated_rows = ROW_COUNT;
+  PERFORM assert_profile_rows_updated('Certification', v_updated_rows, document->'certifications');
+
+  INSERT INTO certifications (profile_id, name, issuer, issue_date, expiration_date, credential_id, credential_url)
+  SELECT v_profile_id, r.name, r.issuer, r.issue_date, r.expiration_date, r.credential_id, r.credential_url
+  FROM jsonb_to_recordset(coalesce(document->'certifications', '[]'::jsonb))
+    AS r(id uuid, name text, issuer text, issue_date date, expiration_date date, credential_id text, credential_url text)
+  WHERE r.id IS NULL;
+
+  -- Projects
+  DELETE FROM projects
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'projects'));
+
+  UPDATE projects p SET
+    name = r.name,
+    description = r.description,
+    role = r.role,
+    tech_stack = coalesce(r.tech_stack, '{}'),
+    url = r.url,
+    start_date = r.start_date,
+    end_date = r.end_date
+  FROM jsonb_to_recordset(coalesce(document->'projects', '[]'::jsonb))
+    AS r(id uuid, name text, description text, role text, tech_stack text[], url text, start_date date, end_date date)
+  WHERE p.id = r.id AND p.profile_id = v_profile_id;
+  GET DIAGNOSTICS v_updated_rows = ROW_COUNT;
+  PERFORM assert_profile_rows_updated('Project', v_updated_rows, document->'projects');
+
+  INSERT INTO projects (profile_id, name, description, role, tech_stack, url, start_date, end_date)
+  SELECT v_profile_id, r.name, r.description, r.role, coalesce(r.tech_stack, '{}'), r.url, r.start_date, r.end_date
+  FROM jsonb_to_recordset(coalesce(document->'projects', '[]'::jsonb))
+    AS r(id uuid, name text, description text, role text, tech_stack text[], url text, start_date date, end_date date)
+  WHERE r.id IS NULL;
+
+  -- Publications
+  DELETE FROM publications
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'publications'));
+
+  UPDATE publications p SET
+    title = r.title,
+    publisher = r.publisher,
+    published_date = r.published_date,
+    url = r.url,
+    description = r.description
+  FROM jsonb_to_recordset(coalesce(document->'publications', '[]'::jsonb))
+    AS r(id uuid, title text, publisher text, published_date date, url text, description text)
+  WHERE p.id = r.id AND p.profile_id = v_profile_id;
+  GET DIAGNOSTICS v_updated_rows = ROW_COUNT;
+  PERFORM assert_profile_rows_updated('Publication', v_updated_rows, document->'publications');
+
+  INSERT INTO publications (profile_id, title, publisher, published_date, url, description)
+  SELECT v_profile_id, r.title, r.publisher, r.published_date, r.url, r.description
+  FROM jsonb_to_recordset(coalesce(document->'publications', '[]'::jsonb))
+    AS r(id uuid, title text, publisher text, published_date date, url text, description text)
+  WHERE r.id IS NULL;
+
+  -- Languages
+  DELETE FROM languages
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'languages'));
+
+  UPDATE languages l SET
+    name = r.name,
+    proficiency = r.proficiency
+  FROM jsonb_to_recordset(coalesce(document->'languages', '[]'::jsonb))
+    AS r(id uuid, name text, proficiency text)
+  WHERE l.id = r.id AND l.profile_id = v_profile_id;
+  GET DIAGNOSTICS v_updated_rows = ROW_COUNT;
+  PERFORM assert_profile_rows_updated('Language', v_updated_rows, document->'languages');
+
+  INSERT INTO languages (profile_id, name, proficiency)
+  SELECT v_profile_id, r.name, r.proficiency
+  FROM jsonb_to_recordset(coalesce(document->'languages', '[]'::jsonb))
+    AS r(id uuid, name text, proficiency text)
+  WHERE r.id IS NULL;
+
+  -- Volunteer experiences
+  DELETE FROM volunteer_experiences
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'volunteer_experiences'));
+
+  UPDATE volunteer_experiences v SET
+    organization = r.organization,
+    role = r.role,
+    start_date = r.start_date,
+    end_date = r.end_date,
+    description = r.description
+  FROM jsonb_to_recordset(coalesce(document->'volunteer_experiences', '[]'::jsonb))
+    AS r(id uuid, organization text, role text, start_date date, end_date date, description text)
+  WHERE v.id = r.id AND v.profile_id = v_profile_id;
+  GET DIAGNOSTICS v_updated_rows = ROW_COUNT;
+  PERFORM assert_profile_rows_updated('Volunteer experience', v_updated_rows, document->'volunteer_experiences');
+
+  INSERT INTO volunteer_experiences (profile_id, organization, role, start_date, end_date, description)
+  SELECT v_profile_id, r.organization, r.role, r.start_date, r.end_date, r.description
+  FROM jsonb_to_recordset(coalesce(document->'volunteer_experiences', '[]'::jsonb))
+    AS r(id uuid, organization text, role text, start_date date, end_date date, description text)
+  WHERE r.id IS NULL;
+
+  -- Profile links; sort_order follows the position in the document
+  DELETE FROM profile_links
+  WHERE profile_id = v_profile_id
+    AND id <> ALL (profile_document_ids(document->'profile_links'));
+
+  UPDATE profile_links l SET
+    link_type = r.link->>'link_type',
+    label = r.link->>'label',
+    url = r.link->>'url',
+    sort_order = r.position - 1
+  FROM jsonb_array_elements(coalesce(document->'profile_links', '[]'::jsonb)) WITH ORDINALITY AS r(link, position)
+  WHERE l.id = (r.link->>'id')::uuid AND l.profile_id = v_profile_id;
+  GET DIAGNOSTICS v_updated_rows = ROW_COUNT;
+  PERFORM assert_profile_rows_updated('Profile link', v_updated_rows, document->'profile_links');
+
+  INSERT INTO profile_links (profile_id, link_type, label, url, sort_order)
+  SELECT v_profile_id, r.link->>'link_type', r.link->>'label', r.link->>'url', r.position - 1
+  FROM jsonb_array_elements(coalesce(document->'profile_links', '[]'::jsonb)) WITH ORDINALITY AS r(link, position)
+  WHERE coalesce(r.link->>'id', '') = '';
+
+  RETURN jsonb_build_object('profile_id', v_profile_id, 'updated_at', v_updated_at);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;